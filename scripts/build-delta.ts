@@ -0,0 +1,186 @@
+#!/usr/bin/env node
+/**
+ * Build Delta Script
+ *
+ * PURPOSE: Build a row-level patch from the previous release of a region database to the new one
+ * RESPONSIBILITY: Decompress both databases, diff them (region-delta.ts), write the gzipped patch,
+ *                 optionally verify it reproduces the new release
+ * DEPENDENCIES: better-sqlite3, region-delta.ts
+ * CONSUMERS: GitHub Actions workflow (monthly release), generate-manifest.ts lists the patches
+ *
+ * Usage: npm run build-delta -- --region europe-lithuania --from ./previous/europe-lithuania.sqlite.gz
+ *        [--output ./output] [--verify]
+ *
+ * Input: the previous release's {region-id}.sqlite.gz and output/{region-id}.sqlite.gz
+ * Output: output/{region-id}.{from}-{to}.patch.gz (versions from each database's metadata)
+ *
+ * A patch that is not smaller than the full .sqlite.gz is dropped — clients would
+ * download the database instead anyway.
+ */
+
+import { createWriteStream, existsSync, readFileSync, renameSync, statSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { execSync } from 'child_process';
+import { createRequire } from 'module';
+import { createGzip, gunzipSync } from 'zlib';
+import { once } from 'events';
+import {
+  applyRegionPatch,
+  diffRegionDatabases,
+  patchFileName,
+  type RegionPatch,
+} from './region-delta.js';
+const require = createRequire(import.meta.url);
+
+const Database = require('better-sqlite3');
+
+// =============================================================================
+// PATCH FILE
+// =============================================================================
+
+/**
+ * Write a patch as gzipped JSON, one inserted row per chunk so large patches never
+ * become a single string
+ */
+async function writePatch(path: string, patch: RegionPatch): Promise<void> {
+  const gzip = createGzip({ level: 9 });
+  const done = new Promise<void>((resolve, reject) => {
+    const file = createWriteStream(path);
+    file.on('finish', resolve);
+    file.on('error', reject);
+    gzip.on('error', reject);
+    gzip.pipe(file);
+  });
+  const write = async (chunk: string) => {
+    if (!gzip.write(chunk)) await once(gzip, 'drain');
+  };
+
+  const { tables, ...header } = patch;
+  await write(JSON.stringify(header).slice(0, -1) + ',"tables":[');
+  for (let t = 0; t < tables.length; t++) {
+    const { insert, ...table } = tables[t];
+    await write((t > 0 ? ',' : '') + JSON.stringify(table).slice(0, -1) + ',"insert":[');
+    for (let r = 0; r < insert.length; r++) await write((r > 0 ? ',\n' : '\n') + JSON.stringify(insert[r]));
+    await write(']}');
+  }
+  await write(']}\n');
+  gzip.end();
+  await done;
+}
+
+function readPatch(path: string): RegionPatch {
+  return JSON.parse(gunzipSync(readFileSync(path)).toString('utf-8'));
+}
+
+// =============================================================================
+// BUILD
+// =============================================================================
+
+async function buildDelta(regionId: string, fromGzPath: string, outputDir: string, verify: boolean): Promise<void> {
+  const t0 = Date.now();
+  console.log(`\n========================================`);
+  console.log(`Building delta for: ${regionId}`);
+  console.log(`========================================\n`);
+
+  const toGzPath = join(outputDir, `${regionId}.sqlite.gz`);
+  for (const path of [fromGzPath, toGzPath]) {
+    if (!existsSync(path)) throw new Error(`Region database not found: ${path}`);
+  }
+
+  const fromPath = join(outputDir, `${regionId}.delta-from.sqlite`);
+  const toPath = join(outputDir, `${regionId}.delta-to.sqlite`);
+  console.log('Decompressing databases...');
+  execSync(`gunzip -c "${fromGzPath}" > "${fromPath}"`, { stdio: 'inherit' });
+  execSync(`gunzip -c "${toGzPath}" > "${toPath}"`, { stdio: 'inherit' });
+
+  let patchPath: string | undefined;
+  try {
+    const from = new Database(fromPath, { readonly: true });
+    const to = new Database(toPath, { readonly: true });
+    let patch: RegionPatch;
+    try {
+      console.log('Diffing...');
+      patch = diffRegionDatabases(from, to, regionId);
+    } finally {
+      from.close();
+      to.close();
+    }
+    if (patch.fromVersion === patch.toVersion) {
+      throw new Error(`Both databases are at version ${patch.toVersion}`);
+    }
+    console.log(`  version: ${patch.fromVersion} → ${patch.toVersion}`);
+    for (const table of patch.tables) {
+      console.log(
+        `  ${table.name}: -${table.delete.length} +${table.insert.length}` +
+          (table.renumber.length > 0 ? `, ${table.renumber.length} renumbered ranges` : ''),
+      );
+    }
+
+    patchPath = join(outputDir, patchFileName(regionId, patch.fromVersion, patch.toVersion));
+    const tmpPath = `${patchPath}.tmp`;
+    console.log('Writing patch...');
+    await writePatch(tmpPath, patch);
+    renameSync(tmpPath, patchPath);
+
+    if (verify) {
+      console.log('Verifying...');
+      execSync(`gunzip -c "${fromGzPath}" > "${fromPath}"`, { stdio: 'inherit' });
+      const patched = new Database(fromPath);
+      const to = new Database(toPath, { readonly: true });
+      try {
+        applyRegionPatch(patched, readPatch(patchPath));
+        const remaining = diffRegionDatabases(patched, to, regionId).tables.map((table) => table.name);
+        if (remaining.length > 0) throw new Error(`Patched database differs in: ${remaining.join(', ')}`);
+      } finally {
+        patched.close();
+        to.close();
+      }
+      console.log('  ✓ patched database matches the new release');
+    }
+  } catch (error) {
+    if (patchPath && existsSync(patchPath)) unlinkSync(patchPath);
+    throw error;
+  } finally {
+    unlinkSync(fromPath);
+    unlinkSync(toPath);
+  }
+
+  const patchSize = statSync(patchPath).size;
+  const fullSize = statSync(toGzPath).size;
+  const elapsed = ((Date.now() - t0) / 1000).toFixed(1);
+  if (patchSize >= fullSize) {
+    unlinkSync(patchPath);
+    console.log(`\n⚠ Patch (${(patchSize / 1024).toFixed(1)} KB) is not smaller than ${regionId}.sqlite.gz; dropped`);
+    return;
+  }
+  console.log(`\n✓ Built ${patchPath}`);
+  console.log(
+    `  Patch: ${(patchSize / 1024).toFixed(1)} KB vs full ${(fullSize / 1024).toFixed(1)} KB ` +
+      `(${((patchSize / fullSize) * 100).toFixed(1)}%)`,
+  );
+  console.log(`  Time: ${elapsed}s`);
+}
+
+// =============================================================================
+// CLI ENTRY POINT
+// =============================================================================
+
+const args = process.argv.slice(2);
+const regionIndex = args.indexOf('--region');
+const fromIndex = args.indexOf('--from');
+const outputIndex = args.indexOf('--output');
+
+if (regionIndex === -1 || !args[regionIndex + 1] || fromIndex === -1 || !args[fromIndex + 1]) {
+  console.error(
+    'Usage: npm run build-delta -- --region <region-id> --from <previous.sqlite.gz> [--output <dir>] [--verify]',
+  );
+  process.exit(1);
+}
+
+const regionId = args[regionIndex + 1];
+const outputDir = outputIndex !== -1 && args[outputIndex + 1] ? args[outputIndex + 1] : './output';
+
+buildDelta(regionId, args[fromIndex + 1], outputDir, args.includes('--verify')).catch((err) => {
+  console.error(`\n✗ Failed to build delta for ${regionId}:`, err);
+  process.exit(1);
+});
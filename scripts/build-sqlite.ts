@@ -3,160 +3,60 @@
  * Build SQLite Database Script
  *
  * PURPOSE: Convert extracted JSON.gz files into a pre-built SQLite database
- * RESPONSIBILITY: Stream-decompress JSON, compute bboxes, bulk-insert into SQLite, compress
- * DEPENDENCIES: better-sqlite3, stream-json, extracted .json.gz files
- * CONSUMERS: GitHub Actions workflow, app downloads the resulting .sqlite.gz
+ * RESPONSIBILITY: Stream-decompress JSON and feed its rows to the region build (region-build.ts)
+ * DEPENDENCIES: stream-json, region-build.ts, region-db.ts, coord-encoding.ts, region-tiles.ts, region-stats.ts,
+ *               extracted .json.gz files, optional DEM tile directory
+ * CONSUMERS: local runs from existing JSON extracts, app downloads the resulting .sqlite.gz
  *
- * Usage: npm run build-sqlite -- --region europe-lithuania
+ * Usage: npm run build-sqlite -- --region europe-lithuania [--output ./output] [--work-dir ./work]
+ *        [--coord-encoding e7-delta-varint] [--dem ./dem/srtm --dem-source "SRTM GL1"] [--tiles 8]
  *
- * Input: output/{region-id}.json.gz, output/{region-id}-surfaces.json.gz, output/{region-id}-ways.json.gz
- * Output: output/{region-id}.sqlite.gz
+ * Input: output/{region-id}.json.gz, output/{region-id}-surfaces.json.gz, output/{region-id}-ways.json.gz,
+ *        output/{region-id}-restrictions.json.gz, output/{region-id}-controls.json.gz,
+ *        output/{region-id}-extract-stats.json (optional)
+ * Output: output/{region-id}.sqlite.gz (the uncompressed database is built in --work-dir, default the output dir),
+ *         output/{region-id}.stats.json (row counts, surfaces, outliers; see region-stats.ts),
+ *         with --tiles <zoom> also output/{region-id}.tiles (web-mercator tile pack, see region-tiles.ts)
+ *
+ * extract-single.ts --build produces the same database straight from the PBF in one pass,
+ * without the intermediate JSON files.
  */
 
-import { createReadStream, existsSync, unlinkSync, statSync } from 'fs';
+import { createReadStream, existsSync, readFileSync } from 'fs';
 import { createGunzip } from 'zlib';
-import { join } from 'path';
-import { fileURLToPath } from 'url';
-import { execSync } from 'child_process';
+import { basename, join, resolve } from 'path';
 import { createRequire } from 'module';
+import {
+  type BundledTrafficCalming,
+  type BundledRoundabout,
+  type BundledRoadSurface,
+  type BundledRoadWay,
+  type BundledTurnRestriction,
+  type BundledIntersectionControl,
+} from './region-db.js';
+import { openRegionBuild, type DemOptions } from './region-build.js';
+import { DEFAULT_COORD_ENCODING, parseCoordEncoding, type CoordEncoding } from './coord-encoding.js';
+import { MAX_TILE_ZOOM, MIN_TILE_ZOOM } from './region-tiles.js';
+import { extractStatsFileName, type ExtractStats } from './region-stats.js';
 const require = createRequire(import.meta.url);
 
-const Database = require('better-sqlite3');
 const { parser } = require('stream-json');
 const { pick } = require('stream-json/filters/Pick');
 const { streamArray } = require('stream-json/streamers/StreamArray');
 const chain = require('stream-chain');
 
-// =============================================================================
-// TYPES
-// =============================================================================
-
-interface BundledTrafficCalming {
-  lat: number;
-  lon: number;
-  type: string;
-  tags?: Record<string, string>;
-  endLat?: number;
-  endLon?: number;
-  wayId?: number;
-}
-
-interface BundledRoundabout {
-  lat: number;
-  lon: number;
-  radius?: number;
-  type: 'roundabout' | 'mini_roundabout';
-}
-
-interface BundledRoadSurface {
-  surface: string;
-  coords: number[];
-}
-
-interface BundledRoadWay {
-  highway: string;
-  surface?: string;
-  coords: number[];
-}
-
-// =============================================================================
-// SCHEMA — must match osmDatabase.ts SCHEMA_SQL exactly
-// =============================================================================
-
-const SCHEMA_SQL = `
-CREATE TABLE IF NOT EXISTS road_surfaces (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  surface TEXT NOT NULL,
-  coords TEXT NOT NULL,
-  min_lat REAL NOT NULL,
-  max_lat REAL NOT NULL,
-  min_lon REAL NOT NULL,
-  max_lon REAL NOT NULL
-);
-CREATE INDEX IF NOT EXISTS idx_surfaces_bbox ON road_surfaces(min_lat, max_lat, min_lon, max_lon);
-
-CREATE TABLE IF NOT EXISTS traffic_calming (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  lat REAL NOT NULL,
-  lon REAL NOT NULL,
-  type TEXT NOT NULL,
-  end_lat REAL,
-  end_lon REAL,
-  way_id INTEGER,
-  tags TEXT
-);
-CREATE INDEX IF NOT EXISTS idx_tc_lat_lon ON traffic_calming(lat, lon);
-
-CREATE TABLE IF NOT EXISTS roundabouts (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  lat REAL NOT NULL,
-  lon REAL NOT NULL,
-  radius REAL,
-  type TEXT NOT NULL
-);
-CREATE INDEX IF NOT EXISTS idx_ra_lat_lon ON roundabouts(lat, lon);
-
-CREATE TABLE IF NOT EXISTS road_ways (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  highway TEXT NOT NULL,
-  surface TEXT,
-  coords TEXT NOT NULL,
-  min_lat REAL NOT NULL,
-  max_lat REAL NOT NULL,
-  min_lon REAL NOT NULL,
-  max_lon REAL NOT NULL
-);
-CREATE INDEX IF NOT EXISTS idx_ways_bbox ON road_ways(min_lat, max_lat, min_lon, max_lon);
-
-CREATE TABLE IF NOT EXISTS metadata (
-  key TEXT PRIMARY KEY,
-  value TEXT NOT NULL
-);
-`;
-
-// =============================================================================
-// CONSTANTS
-// =============================================================================
-
-const __filename = fileURLToPath(import.meta.url);
-
 // =============================================================================
 // HELPERS
 // =============================================================================
 
-/**
- * Compute bounding box from a flat coords array [lon1, lat1, lon2, lat2, ...].
- * Same logic as computeBboxFromFlatCoords in osmDatabase.ts.
- */
-function computeBboxFromFlatCoords(coords: number[]): {
-  minLat: number;
-  maxLat: number;
-  minLon: number;
-  maxLon: number;
-} {
-  let minLat = Infinity;
-  let maxLat = -Infinity;
-  let minLon = Infinity;
-  let maxLon = -Infinity;
-
-  for (let i = 0; i < coords.length - 1; i += 2) {
-    const lon = coords[i];
-    const lat = coords[i + 1];
-    if (lat < minLat) minLat = lat;
-    if (lat > maxLat) maxLat = lat;
-    if (lon < minLon) minLon = lon;
-    if (lon > maxLon) maxLon = lon;
-  }
-
-  return { minLat, maxLat, minLon, maxLon };
-}
-
 /**
  * Stream-parse a JSON array from a .json.gz file using stream-json's pick + streamArray.
  *
  * For core files, the structure is: { version, region, trafficCalming: [...], roundabouts: [...] }
  * For surface files: { version, region, roadSurfaces: [...] }
  * For way files: { version, region, roadWays: [...] }
+ * For restriction files: { version, region, turnRestrictions: [...] }
+ * For control files: { version, region, intersectionControls: [...] }
  *
  * Reads the full file but streams array items one by one, keeping memory bounded.
  */
@@ -192,10 +92,18 @@ function streamJsonArray<T>(
 }
 
 /**
- * Stream-parse a JSON object's scalar properties (version, region) from a .json.gz file.
- * Returns only top-level string properties, ignoring arrays.
+ * Stream-parse a JSON object's scalar properties (version, region, replicationSequence, countryCode, profileHash)
+ * from a .json.gz file. Returns only top-level string/number properties, ignoring arrays.
  */
-function readJsonMetadata(gzipPath: string): Promise<{ version: string; region: string }> {
+function readJsonMetadata(
+  gzipPath: string,
+): Promise<{
+  version: string;
+  region: string;
+  replicationSequence?: string;
+  countryCode?: string;
+  profileHash?: string;
+}> {
   return new Promise((resolve, reject) => {
     const result: Record<string, string> = {};
     const fileStream = createReadStream(gzipPath);
@@ -212,7 +120,7 @@ function readJsonMetadata(gzipPath: string): Promise<{ version: string; region:
       else if (chunk.name === 'endArray') depth--;
       else if (depth === 1 && chunk.name === 'keyValue') {
         currentKey = chunk.value as string;
-      } else if (depth === 1 && chunk.name === 'stringValue' && currentKey) {
+      } else if (depth === 1 && (chunk.name === 'stringValue' || chunk.name === 'numberValue') && currentKey) {
         result[currentKey] = chunk.value as string;
         currentKey = null;
       }
@@ -222,6 +130,9 @@ function readJsonMetadata(gzipPath: string): Promise<{ version: string; region:
       resolve({
         version: result.version || '',
         region: result.region || '',
+        replicationSequence: result.replicationSequence,
+        countryCode: result.countryCode,
+        profileHash: result.profileHash,
       });
     });
 
@@ -237,8 +148,14 @@ function readJsonMetadata(gzipPath: string): Promise<{ version: string; region:
 // MAIN BUILD FUNCTION
 // =============================================================================
 
-async function buildSqlite(regionId: string, outputDir: string): Promise<void> {
-  const t0 = Date.now();
+async function buildSqlite(
+  regionId: string,
+  outputDir: string,
+  coordEncoding: CoordEncoding = DEFAULT_COORD_ENCODING,
+  demOptions?: DemOptions,
+  workDir: string = outputDir,
+  tileZoom?: number,
+): Promise<void> {
   console.log(`\n========================================`);
   console.log(`Building SQLite for: ${regionId}`);
   console.log(`========================================\n`);
@@ -246,140 +163,85 @@ async function buildSqlite(regionId: string, outputDir: string): Promise<void> {
   const corePath = join(outputDir, `${regionId}.json.gz`);
   const surfacePath = join(outputDir, `${regionId}-surfaces.json.gz`);
   const wayPath = join(outputDir, `${regionId}-ways.json.gz`);
-  const sqlitePath = join(outputDir, `${regionId}.sqlite`);
-  const sqliteGzPath = join(outputDir, `${regionId}.sqlite.gz`);
+  const restrictionPath = join(outputDir, `${regionId}-restrictions.json.gz`);
+  const controlPath = join(outputDir, `${regionId}-controls.json.gz`);
+  const extractStatsPath = join(outputDir, extractStatsFileName(regionId));
 
   // Verify core file exists
   if (!existsSync(corePath)) {
     throw new Error(`Core file not found: ${corePath}`);
   }
 
-  // Clean up any previous output
-  if (existsSync(sqlitePath)) unlinkSync(sqlitePath);
-  if (existsSync(sqliteGzPath)) unlinkSync(sqliteGzPath);
-
-  // Create SQLite database
-  const db = new Database(sqlitePath);
-
-  // Use DELETE journal mode for cross-SQLite-version compatibility (not WAL)
-  db.pragma('journal_mode = DELETE');
-  // Performance pragmas for bulk insert
-  db.pragma('synchronous = OFF');
-  db.pragma('cache_size = -64000'); // 64MB cache
-
-  // Create schema
-  db.exec(SCHEMA_SQL);
-
-  // Begin transaction for all inserts
-  db.exec('BEGIN TRANSACTION');
-
-  // Prepare insert statements
-  const insertTC = db.prepare(
-    'INSERT INTO traffic_calming (lat, lon, type, end_lat, end_lon, way_id, tags) VALUES (?, ?, ?, ?, ?, ?, ?)',
-  );
-  const insertRA = db.prepare(
-    'INSERT INTO roundabouts (lat, lon, radius, type) VALUES (?, ?, ?, ?)',
-  );
-  const insertSurface = db.prepare(
-    'INSERT INTO road_surfaces (surface, coords, min_lat, max_lat, min_lon, max_lon) VALUES (?, ?, ?, ?, ?, ?)',
-  );
-  const insertWay = db.prepare(
-    'INSERT INTO road_ways (highway, surface, coords, min_lat, max_lat, min_lon, max_lon) VALUES (?, ?, ?, ?, ?, ?, ?)',
-  );
-
-  // Read metadata from core file
-  console.log('Reading metadata...');
-  const meta = await readJsonMetadata(corePath);
-  console.log(`  version: ${meta.version}, region: ${meta.region}`);
-
-  // Insert traffic calming data
-  let tcCount = 0;
-  console.log('Streaming traffic calming data...');
-  await streamJsonArray<BundledTrafficCalming>(corePath, 'trafficCalming', (tc) => {
-    insertTC.run(
-      tc.lat,
-      tc.lon,
-      tc.type,
-      tc.endLat ?? null,
-      tc.endLon ?? null,
-      tc.wayId ?? null,
-      tc.tags ? JSON.stringify(tc.tags) : null,
-    );
-    tcCount++;
-  });
-  console.log(`  ✓ ${tcCount} traffic calming features`);
-
-  // Insert roundabouts
-  let raCount = 0;
-  console.log('Streaming roundabout data...');
-  await streamJsonArray<BundledRoundabout>(corePath, 'roundabouts', (ra) => {
-    insertRA.run(ra.lat, ra.lon, ra.radius ?? null, ra.type);
-    raCount++;
-  });
-  console.log(`  ✓ ${raCount} roundabouts`);
-
-  // Insert surface data
-  let surfaceCount = 0;
-  let hasSurfaceData = false;
-  if (existsSync(surfacePath)) {
-    console.log('Streaming surface data...');
-    await streamJsonArray<BundledRoadSurface>(surfacePath, 'roadSurfaces', (rs) => {
-      const { minLat, maxLat, minLon, maxLon } = computeBboxFromFlatCoords(rs.coords);
-      insertSurface.run(rs.surface, JSON.stringify(rs.coords), minLat, maxLat, minLon, maxLon);
-      surfaceCount++;
-    });
-    hasSurfaceData = surfaceCount > 0;
-    console.log(`  ✓ ${surfaceCount} road surfaces`);
-  } else {
-    console.log('  ⚠ No surface data file');
-  }
-
-  // Insert way data
-  let wayCount = 0;
-  let hasWayData = false;
-  if (existsSync(wayPath)) {
-    console.log('Streaming way data...');
-    await streamJsonArray<BundledRoadWay>(wayPath, 'roadWays', (rw) => {
-      const { minLat, maxLat, minLon, maxLon } = computeBboxFromFlatCoords(rw.coords);
-      insertWay.run(rw.highway, rw.surface ?? null, JSON.stringify(rw.coords), minLat, maxLat, minLon, maxLon);
-      wayCount++;
-    });
-    hasWayData = wayCount > 0;
-    console.log(`  ✓ ${wayCount} road ways`);
-  } else {
-    console.log('  ⚠ No way data file');
+  const build = openRegionBuild({ regionId, outputDir, workDir, coordEncoding, dem: demOptions, tileZoom });
+  const counts = build.counts;
+
+  try {
+    // Read metadata from core file
+    console.log('Reading metadata...');
+    const meta = await readJsonMetadata(corePath);
+    console.log(`  version: ${meta.version}, region: ${meta.region}`);
+
+    // Insert traffic calming data
+    console.log('Streaming traffic calming data...');
+    await streamJsonArray<BundledTrafficCalming>(corePath, 'trafficCalming', build.trafficCalming);
+    console.log(`  ✓ ${counts.trafficCalming} traffic calming features`);
+
+    // Insert roundabouts
+    console.log('Streaming roundabout data...');
+    await streamJsonArray<BundledRoundabout>(corePath, 'roundabouts', build.roundabout);
+    console.log(`  ✓ ${counts.roundabouts} roundabouts`);
+
+    // Insert surface data
+    if (existsSync(surfacePath)) {
+      console.log('Streaming surface data...');
+      await streamJsonArray<BundledRoadSurface>(surfacePath, 'roadSurfaces', build.surface);
+      console.log(`  ✓ ${counts.surfaces} road surfaces`);
+    } else {
+      console.log('  ⚠ No surface data file');
+    }
+
+    // Insert way data
+    if (existsSync(wayPath)) {
+      console.log('Streaming way data...');
+      await streamJsonArray<BundledRoadWay>(wayPath, 'roadWays', build.way);
+      console.log(`  ✓ ${counts.ways} road ways, ${counts.curves} curves`);
+    } else {
+      console.log('  ⚠ No way data file');
+    }
+
+    // Insert turn restrictions
+    if (existsSync(restrictionPath)) {
+      console.log('Streaming turn restriction data...');
+      await streamJsonArray<BundledTurnRestriction>(restrictionPath, 'turnRestrictions', build.turnRestriction);
+      console.log(`  ✓ ${counts.restrictions} turn restrictions`);
+    } else {
+      console.log('  ⚠ No turn restriction data file');
+    }
+
+    // Insert intersection controls
+    if (existsSync(controlPath)) {
+      console.log('Streaming intersection control data...');
+      await streamJsonArray<BundledIntersectionControl>(controlPath, 'intersectionControls', build.intersectionControl);
+      console.log(`  ✓ ${counts.controls} intersection controls`);
+    } else {
+      console.log('  ⚠ No intersection control data file');
+    }
+
+    // Unmapped surface values counted during extraction, for the stats report
+    const extractStats: ExtractStats | undefined = existsSync(extractStatsPath)
+      ? JSON.parse(readFileSync(extractStatsPath, 'utf-8'))
+      : undefined;
+
+    await build.finish(meta, extractStats?.unknownSurfaces);
+  } catch (err) {
+    // Leave no half-written database behind for later steps to pick up
+    try {
+      build.abort();
+    } catch {
+      // Ignore cleanup errors
+    }
+    throw err;
   }
-
-  // Insert metadata
-  const insertMeta = db.prepare('INSERT INTO metadata (key, value) VALUES (?, ?)');
-  insertMeta.run('version', meta.version);
-  insertMeta.run('region', meta.region);
-  insertMeta.run('createdAt', new Date().toISOString());
-  insertMeta.run('hasSurfaceData', hasSurfaceData ? 'true' : 'false');
-  insertMeta.run('hasWayData', hasWayData ? 'true' : 'false');
-
-  // Commit transaction
-  db.exec('COMMIT');
-  db.close();
-
-  const sqliteSize = statSync(sqlitePath).size;
-  console.log(`\nSQLite database: ${(sqliteSize / 1024 / 1024).toFixed(1)} MB`);
-
-  // Compress with gzip
-  console.log('Compressing...');
-  execSync(`gzip -9 -k "${sqlitePath}"`, { stdio: 'inherit' });
-
-  // Remove uncompressed SQLite (only keep .sqlite.gz for release)
-  unlinkSync(sqlitePath);
-
-  const gzSize = statSync(sqliteGzPath).size;
-  const ratio = ((1 - gzSize / sqliteSize) * 100).toFixed(1);
-  const elapsed = ((Date.now() - t0) / 1000).toFixed(1);
-
-  console.log(`\n✓ Built ${regionId}.sqlite.gz`);
-  console.log(`  Rows: ${tcCount} tc + ${raCount} ra + ${surfaceCount} surfaces + ${wayCount} ways`);
-  console.log(`  SQLite: ${(sqliteSize / 1024 / 1024).toFixed(1)} MB → gzip: ${(gzSize / 1024 / 1024).toFixed(1)} MB (${ratio}% compression)`);
-  console.log(`  Time: ${elapsed}s`);
 }
 
 // =============================================================================
@@ -389,16 +251,53 @@ async function buildSqlite(regionId: string, outputDir: string): Promise<void> {
 const args = process.argv.slice(2);
 const regionIndex = args.indexOf('--region');
 const outputIndex = args.indexOf('--output');
-
-if (regionIndex === -1 || !args[regionIndex + 1]) {
-  console.error('Usage: npm run build-sqlite -- --region <region-id> [--output <dir>]');
+const encodingIndex = args.indexOf('--coord-encoding');
+const demIndex = args.indexOf('--dem');
+const demSourceIndex = args.indexOf('--dem-source');
+const workDirIndex = args.indexOf('--work-dir');
+const tilesIndex = args.indexOf('--tiles');
+
+if (
+  regionIndex === -1 ||
+  !args[regionIndex + 1] ||
+  (demIndex !== -1 && !args[demIndex + 1]) ||
+  (tilesIndex !== -1 && !args[tilesIndex + 1])
+) {
+  console.error(
+    'Usage: npm run build-sqlite -- --region <region-id> [--output <dir>] [--work-dir <dir>] ' +
+      '[--coord-encoding json|e7-delta-varint] ' +
+      `[--dem <tile-dir> [--dem-source <name>]] [--tiles <zoom ${MIN_TILE_ZOOM}-${MAX_TILE_ZOOM}>]`,
+  );
   process.exit(1);
 }
 
 const regionId = args[regionIndex + 1];
 const outputDir = outputIndex !== -1 && args[outputIndex + 1] ? args[outputIndex + 1] : './output';
+const workDir = workDirIndex !== -1 && args[workDirIndex + 1] ? args[workDirIndex + 1] : outputDir;
+let coordEncoding: CoordEncoding;
+try {
+  coordEncoding = parseCoordEncoding(encodingIndex !== -1 ? args[encodingIndex + 1] : undefined);
+} catch (err) {
+  console.error((err as Error).message);
+  process.exit(1);
+}
+
+// The DEM source name defaults to the tile directory's name (e.g. "srtm-gl1")
+const demOptions: DemOptions | undefined =
+  demIndex !== -1
+    ? {
+        dir: args[demIndex + 1],
+        source: demSourceIndex !== -1 && args[demSourceIndex + 1] ? args[demSourceIndex + 1] : basename(resolve(args[demIndex + 1])),
+      }
+    : undefined;
+
+const tileZoom = tilesIndex !== -1 ? Number(args[tilesIndex + 1]) : undefined;
+if (tileZoom !== undefined && !(Number.isInteger(tileZoom) && tileZoom >= MIN_TILE_ZOOM && tileZoom <= MAX_TILE_ZOOM)) {
+  console.error(`--tiles must be a zoom level from ${MIN_TILE_ZOOM} to ${MAX_TILE_ZOOM}, got ${args[tilesIndex + 1]}`);
+  process.exit(1);
+}
 
-buildSqlite(regionId, outputDir).catch((err) => {
+buildSqlite(regionId, outputDir, coordEncoding, demOptions, workDir, tileZoom).catch((err) => {
   console.error(`\n✗ Failed to build SQLite for ${regionId}:`, err);
   process.exit(1);
 });
@@ -0,0 +1,210 @@
+#!/usr/bin/env node
+/**
+ * Compare Stats Script
+ *
+ * PURPOSE: Gate a release on its data-quality stats: diff each region's {region}.stats.json
+ *          against the previous release's and fail when a configured threshold is crossed
+ * RESPONSIBILITY: Pair stats files by region, apply stats-thresholds.json, print and report the changes
+ * DEPENDENCIES: region-stats.ts, stats-thresholds.json, stats files written by build-sqlite.ts
+ * CONSUMERS: GitHub Actions workflow (before the release is created), manual checks
+ *
+ * Usage: npm run compare-stats -- --previous ./previous-stats --current ./output
+ *        [--thresholds stats-thresholds.json] [--report stats-report.json]
+ *
+ * --previous and --current are both stats files or both directories. With directories every
+ * region with a stats file in --current is compared; a region without a previous file (new
+ * region, first release with stats) is listed as not compared, one whose previous file has no
+ * current counterpart as a warning.
+ *
+ * Thresholds (stats-thresholds.json by default) bound the change of every table's row count
+ * (maxDropPercent, maxGrowthPercent, ignored below minRows, overridable per table), the drop
+ * of single type values (maxTypeDropPercent), the rise of the unknown road surface share in
+ * percentage points (maxUnknownSurfaceIncrease) and the rise of each geometry outlier count
+ * (maxOutlierIncrease). A table that disappears always fails.
+ * Exits 1 when any region crosses a threshold.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { basename, dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  compareRegionStats,
+  parseRegionStats,
+  statsFileName,
+  type RegionStats,
+  type StatsComparison,
+  type StatsThresholds,
+} from './region-stats.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface CompareReport {
+  previous: string;
+  current: string;
+  thresholds: StatsThresholds;
+  comparisons: StatsComparison[];
+  /** Regions with current stats but none from the previous release */
+  notCompared: string[];
+  /** Regions the previous release had stats for but the current one does not */
+  missing: string[];
+  ok: boolean;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const DEFAULT_THRESHOLDS = join(__dirname, 'stats-thresholds.json');
+
+const STATS_SUFFIX = statsFileName('');
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function loadThresholds(path: string): StatsThresholds {
+  const thresholds = JSON.parse(readFileSync(path, 'utf-8')) as Partial<StatsThresholds>;
+  const required = [
+    'maxDropPercent',
+    'maxGrowthPercent',
+    'minRows',
+    'maxTypeDropPercent',
+    'maxUnknownSurfaceIncrease',
+    'maxOutlierIncrease',
+  ] as const;
+  for (const key of required) {
+    if (typeof thresholds[key] !== 'number') throw new Error(`${path}: "${key}" must be a number`);
+  }
+  return thresholds as StatsThresholds;
+}
+
+/** Stats files by region id: every *.stats.json of a directory, or the one file given */
+function loadStats(path: string): Map<string, RegionStats> {
+  if (!existsSync(path)) throw new Error(`Not found: ${path}`);
+  const files = statSync(path).isDirectory()
+    ? readdirSync(path)
+        .filter((file) => file.endsWith(STATS_SUFFIX))
+        .sort()
+        .map((file) => join(path, file))
+    : [path];
+
+  const stats = new Map<string, RegionStats>();
+  for (const file of files) {
+    const parsed = parseRegionStats(readFileSync(file, 'utf-8'), basename(file));
+    stats.set(parsed.region, parsed);
+  }
+  return stats;
+}
+
+function formatChange(changePercent: number | null): string {
+  if (changePercent === null) return 'new';
+  return `${changePercent >= 0 ? '+' : ''}${changePercent.toFixed(1)}%`;
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+function main(previousPath: string, currentPath: string, thresholdsPath: string, reportPath: string | undefined): number {
+  console.log(`\n========================================`);
+  console.log(`Comparing region stats`);
+  console.log(`========================================\n`);
+
+  const thresholds = loadThresholds(thresholdsPath);
+  const previous = loadStats(previousPath);
+  const current = loadStats(currentPath);
+  const singleFiles = !statSync(previousPath).isDirectory() && !statSync(currentPath).isDirectory();
+  console.log(`Previous: ${previousPath} (${previous.size} regions)`);
+  console.log(`Current: ${currentPath} (${current.size} regions)`);
+  console.log(`Thresholds: ${thresholdsPath}\n`);
+
+  const report: CompareReport = {
+    previous: previousPath,
+    current: currentPath,
+    thresholds,
+    comparisons: [],
+    notCompared: [],
+    missing: [],
+    ok: true,
+  };
+
+  // Two single files are compared whatever their region ids
+  const pairs: [RegionStats | undefined, RegionStats][] = singleFiles
+    ? [[[...previous.values()][0], [...current.values()][0]]]
+    : [...current.values()].map((stats) => [previous.get(stats.region), stats]);
+
+  for (const [before, after] of pairs) {
+    if (!before) {
+      report.notCompared.push(after.region);
+      continue;
+    }
+    const comparison = compareRegionStats(before, after, thresholds);
+    report.comparisons.push(comparison);
+
+    const changed = Object.entries(comparison.tables)
+      .filter(([, change]) => change.current !== change.previous)
+      .map(([table, change]) => `${table} ${formatChange(change.changePercent)}`);
+    const label = `${after.region} (${comparison.previousVersion} → ${comparison.currentVersion})`;
+    if (comparison.violations.length === 0) {
+      console.log(`  ✓ ${label}${changed.length > 0 ? `: ${changed.join(', ')}` : ''}`);
+    } else {
+      console.log(`  ✗ ${label}`);
+      for (const violation of comparison.violations) console.log(`      ${violation.message}`);
+    }
+  }
+
+  if (!singleFiles) {
+    report.missing = [...previous.keys()].filter((region) => !current.has(region));
+  }
+  for (const region of report.notCompared) console.log(`  - ${region}: no previous stats, not compared`);
+  for (const region of report.missing) console.log(`  ⚠ ${region}: in the previous release but not built`);
+
+  const failed = report.comparisons.filter((comparison) => comparison.violations.length > 0);
+  report.ok = failed.length === 0;
+  if (reportPath) writeFileSync(reportPath, JSON.stringify(report, null, 2));
+
+  console.log(`\n----------------------------------------`);
+  console.log(`Compared: ${report.comparisons.length} regions, not compared: ${report.notCompared.length}`);
+
+  if (failed.length > 0) {
+    console.log(`\n✗ ${failed.length} regions crossed a threshold: ${failed.map((c) => c.region).join(', ')}\n`);
+    return 1;
+  }
+  console.log(`\n✓ All regions within thresholds\n`);
+  return 0;
+}
+
+// =============================================================================
+// CLI ENTRY POINT
+// =============================================================================
+
+const args = process.argv.slice(2);
+const previousIndex = args.indexOf('--previous');
+const currentIndex = args.indexOf('--current');
+const thresholdsIndex = args.indexOf('--thresholds');
+const reportIndex = args.indexOf('--report');
+
+if (previousIndex === -1 || !args[previousIndex + 1] || currentIndex === -1 || !args[currentIndex + 1]) {
+  console.error(
+    'Usage: npm run compare-stats -- --previous <file|dir> --current <file|dir> ' +
+      '[--thresholds <stats-thresholds.json>] [--report <file>]',
+  );
+  process.exit(1);
+}
+
+try {
+  process.exitCode = main(
+    args[previousIndex + 1],
+    args[currentIndex + 1],
+    thresholdsIndex !== -1 && args[thresholdsIndex + 1] ? args[thresholdsIndex + 1] : DEFAULT_THRESHOLDS,
+    reportIndex !== -1 && args[reportIndex + 1] ? args[reportIndex + 1] : undefined,
+  );
+} catch (err) {
+  console.error('\n✗ Failed to compare stats:', err);
+  process.exit(1);
+}
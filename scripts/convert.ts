@@ -0,0 +1,739 @@
+/**
+ * OSM Feature Conversion
+ *
+ * PURPOSE: Turn filtered OSM nodes and ways into the bundled layer formats
+ * RESPONSIBILITY: Tag filters per layer, traffic calming/roundabout/bridge conversion,
+ *                 road way and surface conversion, surface normalization, speed limits,
+ *                 turn restriction relations, intersection controls, road curves
+ * DEPENDENCIES: pbf-reader.ts (element types, tag filters), extraction-profile.ts, geometry.ts, speed-limits.ts
+ * CONSUMERS: extract-single.ts, region-build.ts (curves), update-region.ts
+ *
+ * Which elements each layer takes and how tag values map (traffic calming types, surfaces,
+ * restriction values, kept tags, excluded highways) come from extraction-profile.json.
+ */
+
+import {
+  type OsmElement,
+  type OsmNode,
+  type OsmRelation,
+  type OsmRelationMember,
+  type OsmWay,
+  tagKeyMatcher,
+} from './pbf-reader.js';
+import {
+  calculateAreaCentroid,
+  calculateCentroid,
+  calculateMaxRadius,
+  calculateMeanRadius,
+  detectCurves,
+} from './geometry.js';
+import { resolveSpeedLimit, type SpeedLimitSource } from './speed-limits.js';
+import { EXTRACTION_PROFILE, extractFilter, isExcluded, layerFilter } from './extraction-profile.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TrafficCalmingPoint {
+  lat: number;
+  lon: number;
+  type: string;
+  tags?: Record<string, string>;
+  /** Second endpoint for linear features (bridges, tunnels) - enables route traversal verification */
+  endLat?: number;
+  endLon?: number;
+  /** OSM way ID for bridges/tunnels - enables deduplication of multi-segment features */
+  wayId?: number;
+  /** OSM node ID for point features - enables incremental updates */
+  nodeId?: number;
+}
+
+export interface RoundaboutInfo {
+  /** Area-weighted centroid for rings, node location for mini roundabouts */
+  lat: number;
+  lon: number;
+  /** Maximum center-to-ring distance in meters */
+  radius?: number;
+  /** Length-weighted mean center-to-ring distance in meters (rings only) */
+  meanRadius?: number;
+  /** The junction=* value of a ring (roundabout, circular), or mini_roundabout */
+  type: string;
+  /** Source OSM element: nodeId for mini roundabouts, lowest member wayId for rings */
+  nodeId?: number;
+  wayId?: number;
+  /** All OSM ways assembled into the ring */
+  wayIds?: number[];
+  /** Ring node IDs in way (driving) order — arms are matched against these */
+  nodeIds?: number[];
+}
+
+export interface BundledRoadWay {
+  /** Flat array: [lon1, lat1, lon2, lat2, ...] — FULL OSM node density */
+  coords: number[];
+  /** Road classification for priority matching */
+  highway: string;
+  /** Normalized surface type, when the way is tagged with a known surface */
+  surface?: string;
+  /** OSM way ID */
+  wayId: number;
+  /** OSM node IDs parallel to coords — lets updates relocate moved vertices */
+  nodeIds: number[];
+  /** Speed limit in km/h along / against the way direction (maxspeed, maxspeed:forward/backward) */
+  maxspeedForward?: number;
+  maxspeedBackward?: number;
+  /** Present whenever a limit was tagged: sign, zone (country default) or none (unlimited) */
+  maxspeedSource?: SpeedLimitSource;
+  /** 1 = one-way in node order, -1 = one-way against node order; absent = two-way */
+  oneway?: 1 | -1;
+  lanes?: number;
+  lanesForward?: number;
+  lanesBackward?: number;
+  /** junction=* (roundabout, circular, jughandle, ...) */
+  junction?: string;
+  /** Set when bridge / tunnel is tagged with anything other than "no" */
+  bridge?: true;
+  tunnel?: true;
+  /** bridge=* / tunnel=* value other than yes (viaduct, cantilever, building_passage, avalanche_protector, ...) */
+  structure?: string;
+  /** bridge:name / tunnel:name */
+  structureName?: string;
+  /** Vertical layer; absent = ground level (0) */
+  layer?: number;
+  ref?: string;
+  name?: string;
+}
+
+export interface BundledRoadSurface {
+  /** Normalized surface type (asphalt, gravel, etc.) */
+  surface: string;
+  /** Flat array: [lon1, lat1, lon2, lat2, ...] */
+  coords: number[];
+  /** OSM way ID */
+  wayId: number;
+}
+
+export interface TurnRestriction {
+  /** OSM relation ID — one relation can yield several rows */
+  relationId: number;
+  /** no_left_turn, only_straight_on, ... */
+  restriction: string;
+  /** Vehicle class of a restriction:<vehicle> tag (hgv, bus, ...); absent = all vehicles */
+  vehicle?: string;
+  /** Condition of a restriction:conditional value, e.g. "Mo-Fr 07:00-09:00" */
+  condition?: string;
+  /** Raw except tag — vehicles exempt from the restriction (e.g. "bicycle;psv") */
+  except?: string;
+  fromWayId: number;
+  /** Exactly one of viaNodeId / viaWayIds is set */
+  viaNodeId?: number;
+  viaWayIds?: number[];
+  toWayId: number;
+  /** Location of the via node, or of the node where the from-way meets the via ways */
+  lat: number;
+  lon: number;
+  /** Flat arrays: [lon1, lat1, lon2, lat2, ...] — full geometry of the from- and to-way */
+  fromCoords: number[];
+  toCoords: number[];
+}
+
+export interface IntersectionControl {
+  lat: number;
+  lon: number;
+  /** stop, give_way, traffic_signals or crossing */
+  type: string;
+  /** crossing=* detail (traffic_signals, uncontrolled, marked, zebra, ...) */
+  crossing?: string;
+  /** direction / traffic_signals:direction — forward, backward, both, or a bearing */
+  direction?: string;
+  /** OSM node ID */
+  nodeId: number;
+}
+
+export interface RoadCurve {
+  /** OSM way ID the curve lies on */
+  wayId: number;
+  startLat: number;
+  startLon: number;
+  endLat: number;
+  endLon: number;
+  /** Tightest three-point radius along the curve (meters) */
+  minRadius: number;
+  /** Turn direction in way (node) order */
+  direction: 'left' | 'right';
+  /** Total heading change (degrees) */
+  deflection: number;
+  /** Suggested comfortable speed (km/h) */
+  advisorySpeed: number;
+}
+
+export interface CoreFeatures {
+  trafficCalming: TrafficCalmingPoint[];
+  roundabouts: RoundaboutInfo[];
+}
+
+export interface BundledOSMData extends CoreFeatures {
+  version: string;
+  region: string;
+  /** Replication sequence of the source extract, when the PBF header carries one */
+  replicationSequence?: number;
+  /** ISO 3166-1 alpha-2 code of the region, used to resolve implicit speed limits */
+  countryCode?: string;
+  /** extractionProfileHash() of the profile the data was extracted with */
+  profileHash?: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Layer filters (same expression syntax as `osmium tags-filter`), from the extraction profile
+export const CORE_FILTER = layerFilter(EXTRACTION_PROFILE, 'core');
+export const HIGHWAY_FILTER = layerFilter(EXTRACTION_PROFILE, 'highways');
+export const CONTROL_FILTER = layerFilter(EXTRACTION_PROFILE, 'controls');
+export const RESTRICTION_FILTER = layerFilter(EXTRACTION_PROFILE, 'restrictions');
+export const EXTRACT_FILTER = extractFilter(EXTRACTION_PROFILE);
+
+// Which term of the core and control filters selected an element; the converters branch on
+// these instead of repeating the tag values the profile declares
+const isTrafficCalmingNode = tagKeyMatcher(CORE_FILTER, 'node', 'traffic_calming');
+const isCoreHighwayNode = tagKeyMatcher(CORE_FILTER, 'node', 'highway');
+const isEnforcementNode = tagKeyMatcher(CORE_FILTER, 'node', 'enforcement');
+const isBridgeWay = tagKeyMatcher(CORE_FILTER, 'way', 'bridge');
+const isTunnelWay = tagKeyMatcher(CORE_FILTER, 'way', 'tunnel');
+const isJunctionWay = tagKeyMatcher(CORE_FILTER, 'way', 'junction');
+const isControlNode = tagKeyMatcher(CONTROL_FILTER, 'node', 'highway');
+
+// junction=* values of ring ways in the order of the core filter (roundabout, circular)
+const RING_JUNCTIONS = CORE_FILTER.ways.flatMap((matcher) =>
+  matcher.key === 'junction' && matcher.values ? [...matcher.values] : [],
+);
+
+// Turn restriction values we export; anything else (e.g. no_entry on a node-less via) is skipped
+const RESTRICTION_TYPES = new Set(EXTRACTION_PROFILE.restrictions);
+
+// restriction, restriction:hgv, restriction:conditional, restriction:hgv:conditional
+const RESTRICTION_KEY = /^restriction(?::([a-z_]+))?(?::(conditional))?$/;
+
+// =============================================================================
+// CONVERTERS
+// =============================================================================
+
+/**
+ * Convert filtered core elements to our optimized bundled format, all in memory.
+ * extract-single.ts streams the same output element by element (createCoreWriter).
+ */
+export function convertToBundledFormat(
+  elements: OsmElement[],
+  regionId: string
+): BundledOSMData {
+  const features: CoreFeatures = { trafficCalming: [], roundabouts: [] };
+  const ringWays: OsmWay[] = [];
+
+  for (const element of elements) {
+    convertCoreElement(element, features);
+    if (element.type === 'way' && isRoundaboutWay(element.tags)) ringWays.push(element);
+  }
+  features.roundabouts.push(...convertRoundabouts(ringWays));
+
+  return {
+    version: new Date().toISOString().split('T')[0],
+    region: regionId,
+    ...features,
+  };
+}
+
+/**
+ * Convert one core element, appending any traffic calming points and roundabouts it yields.
+ * Roundabout ways are skipped: a ring is often split across several ways, so callers
+ * collect them and pass them to convertRoundabouts together.
+ */
+export function convertCoreElement(element: OsmElement, features: CoreFeatures): void {
+  const { trafficCalming, roundabouts } = features;
+  const props = element.tags;
+
+  // Handle nodes
+  if (element.type === 'node') {
+    const { lat, lon } = element;
+    const nodeId = element.id;
+
+    // Traffic calming nodes — handle semicolon-separated values (e.g. "chicane;choker")
+    if (isTrafficCalmingNode(props)) {
+      const tcValues = props.traffic_calming.split(';');
+      for (const tcValue of tcValues) {
+        const trimmed = tcValue.trim();
+        const type = mapTrafficCalmingType(trimmed);
+        if (type) {
+          trafficCalming.push({
+            lat,
+            lon,
+            type,
+            tags: extractRelevantTags(props),
+            nodeId,
+          });
+        }
+      }
+    }
+
+    // Speed cameras
+    if ((isCoreHighwayNode(props) && props.highway === 'speed_camera') || isEnforcementNode(props)) {
+      trafficCalming.push({
+        lat,
+        lon,
+        type: 'speed_camera',
+        tags: extractRelevantTags(props),
+        nodeId,
+      });
+    }
+
+    // Mini roundabouts (nodes)
+    if (isCoreHighwayNode(props) && props.highway === 'mini_roundabout') {
+      roundabouts.push({
+        lat,
+        lon,
+        type: 'mini_roundabout',
+        radius: 3, // Mini roundabouts are typically < 4m
+        nodeId,
+      });
+    }
+  }
+
+  // Handle ways (open and closed)
+  if (element.type === 'way') {
+    const coords = element.coords;
+
+    // Bridge and tunnel ways - store BOTH endpoints for route traversal verification
+    // This enables the same endpoint-matching logic used by the Overpass API query
+    const bridge = isBridgeWay(props);
+    if (bridge || isTunnelWay(props)) {
+      const [startLon, startLat] = coords[0];
+      const [endLon, endLat] = coords[coords.length - 1];
+
+      trafficCalming.push({
+        lat: startLat,
+        lon: startLon,
+        type: bridge ? 'bridge' : 'tunnel',
+        tags: extractRelevantTags(props),
+        // Store second endpoint for route traversal verification
+        endLat: endLat,
+        endLon: endLon,
+        // Store way ID for deduplication of multi-segment features
+        wayId: element.id,
+      });
+    }
+  }
+}
+
+/**
+ * True for ways that form (part of) a roundabout ring: a junction=* value the core filter
+ * selects (roundabout, circular)
+ */
+export function isRoundaboutWay(props: Record<string, string>): boolean {
+  return isJunctionWay(props);
+}
+
+/**
+ * Stitch roundabout ways into rings by shared end nodes, following way direction first and
+ * falling back to reversed ways. Rings cut by the extract boundary stay open.
+ */
+function assembleRings(ways: Pick<OsmWay, 'id' | 'nodeIds' | 'coords'>[]): {
+  wayIds: number[];
+  nodeIds: number[];
+  coords: [number, number][];
+}[] {
+  type RingWay = (typeof ways)[number];
+  const sorted = ways.filter((way) => way.coords.length >= 2).sort((a, b) => a.id - b.id);
+  const used = new Set<number>();
+  const rings: { wayIds: number[]; nodeIds: number[]; coords: [number, number][] }[] = [];
+
+  // Unused ways by first and by last node, each list in id order
+  const byFirst = new Map<number, RingWay[]>();
+  const byLast = new Map<number, RingWay[]>();
+  const addTo = (index: Map<number, RingWay[]>, nodeId: number, way: RingWay) => {
+    const list = index.get(nodeId);
+    if (list) list.push(way);
+    else index.set(nodeId, [way]);
+  };
+  const removeFrom = (index: Map<number, RingWay[]>, nodeId: number, way: RingWay) => {
+    const list = index.get(nodeId)!;
+    list.splice(list.indexOf(way), 1);
+    if (list.length === 0) index.delete(nodeId);
+  };
+  for (const way of sorted) {
+    addTo(byFirst, way.nodeIds[0], way);
+    addTo(byLast, way.nodeIds[way.nodeIds.length - 1], way);
+  }
+
+  const use = (way: RingWay) => {
+    used.add(way.id);
+    removeFrom(byFirst, way.nodeIds[0], way);
+    removeFrom(byLast, way.nodeIds[way.nodeIds.length - 1], way);
+  };
+  // The lowest-id unused way starting (or ending) at the node
+  const take = (index: Map<number, RingWay[]>, nodeId: number) => {
+    const way = index.get(nodeId)?.[0];
+    if (way) use(way);
+    return way;
+  };
+
+  for (const start of sorted) {
+    if (used.has(start.id)) continue;
+    use(start);
+    const ring = { wayIds: [start.id], nodeIds: [...start.nodeIds], coords: [...start.coords] };
+    const isClosed = () => ring.nodeIds.length > 2 && ring.nodeIds[0] === ring.nodeIds[ring.nodeIds.length - 1];
+
+    // Extend at the tail, then at the head
+    while (!isClosed()) {
+      const tail = ring.nodeIds[ring.nodeIds.length - 1];
+      const next = take(byFirst, tail) ?? take(byLast, tail);
+      if (!next) break;
+      const forward = next.nodeIds[0] === tail;
+      ring.wayIds.push(next.id);
+      ring.nodeIds.push(...(forward ? next.nodeIds : [...next.nodeIds].reverse()).slice(1));
+      ring.coords.push(...(forward ? next.coords : [...next.coords].reverse()).slice(1));
+    }
+    while (!isClosed()) {
+      const head = ring.nodeIds[0];
+      const previous = take(byLast, head) ?? take(byFirst, head);
+      if (!previous) break;
+      const forward = previous.nodeIds[previous.nodeIds.length - 1] === head;
+      ring.wayIds.unshift(previous.id);
+      ring.nodeIds.unshift(...(forward ? previous.nodeIds : [...previous.nodeIds].reverse()).slice(0, -1));
+      ring.coords.unshift(...(forward ? previous.coords : [...previous.coords].reverse()).slice(0, -1));
+    }
+    rings.push(ring);
+  }
+  return rings;
+}
+
+/**
+ * Assemble ring ways (isRoundaboutWay) into rings per junction value and convert each ring
+ * to one roundabout with an area-weighted centre and mean and max radius
+ */
+export function convertRoundabouts(ways: Pick<OsmWay, 'id' | 'tags' | 'nodeIds' | 'coords'>[]): RoundaboutInfo[] {
+  const roundabouts: RoundaboutInfo[] = [];
+
+  // A bare w/junction term selects values the filter does not list; they follow, sorted
+  const junctions = new Set(ways.map((way) => way.tags.junction));
+  const types = [
+    ...RING_JUNCTIONS.filter((junction) => junctions.has(junction)),
+    ...[...junctions].filter((junction) => !RING_JUNCTIONS.includes(junction)).sort(),
+  ];
+  for (const type of types) {
+    for (const ring of assembleRings(ways.filter((way) => way.tags.junction === type))) {
+      const closed = ring.nodeIds.length > 2 && ring.nodeIds[0] === ring.nodeIds[ring.nodeIds.length - 1];
+      const center = closed ? calculateAreaCentroid(ring.coords) : calculateCentroid(ring.coords);
+      roundabouts.push({
+        lat: center[1],
+        lon: center[0],
+        type,
+        radius: Math.round(calculateMaxRadius(ring.coords, center)),
+        meanRadius: Math.round(calculateMeanRadius(ring.coords, center)),
+        wayId: Math.min(...ring.wayIds),
+        wayIds: ring.wayIds,
+        nodeIds: ring.nodeIds,
+      });
+    }
+  }
+  return roundabouts;
+}
+
+/**
+ * Convert a node the control filter selects (stop, give_way, traffic_signals, crossing), or null for other nodes
+ */
+export function convertIntersectionControl(node: OsmNode): IntersectionControl | null {
+  const props = node.tags;
+  if (!isControlNode(props)) return null;
+  const type = props.highway;
+
+  const control: IntersectionControl = { lat: node.lat, lon: node.lon, type, nodeId: node.id };
+  if (type === 'crossing' && props.crossing) control.crossing = props.crossing;
+  // Signals are usually tagged with traffic_signals:direction, signs with direction
+  const direction = (type === 'traffic_signals' && props['traffic_signals:direction']) || props.direction;
+  if (direction) control.direction = direction;
+  return control;
+}
+
+/**
+ * Map OSM traffic_calming tag to our simplified types, or undefined for values the profile does not keep
+ */
+export function mapTrafficCalmingType(osmType: string): string | undefined {
+  return Object.hasOwn(EXTRACTION_PROFILE.trafficCalming, osmType) ? EXTRACTION_PROFILE.trafficCalming[osmType] : undefined;
+}
+
+/**
+ * Extract only relevant tags (the profile's keptTags) from properties
+ */
+export function extractRelevantTags(props: Record<string, string>): Record<string, string> | undefined {
+  const tags: Record<string, string> = {};
+
+  for (const key of EXTRACTION_PROFILE.keptTags) {
+    if (props[key]) {
+      tags[key] = props[key];
+    }
+  }
+
+  return Object.keys(tags).length > 0 ? tags : undefined;
+}
+
+/**
+ * Normalize raw OSM surface tag to a standardized type (the profile's surface mapping).
+ * services/osm/roadSurface.ts must apply the same mapping.
+ */
+export function normalizeSurfaceType(osmSurface: string): string {
+  const { values, fallback } = EXTRACTION_PROFILE.surfaces;
+  return Object.hasOwn(values, osmSurface) ? values[osmSurface] : fallback;
+}
+
+/**
+ * Skip highways the profile excludes, such as service subtypes that are never the driving
+ * road (driveways, parking aisles). These cause surface contamination when their
+ * paving_stones/cobblestone surface gets attributed to the adjacent main road via proximity matching.
+ */
+export function isExcludedRoadWay(props: Record<string, string>): boolean {
+  return isExcluded(EXTRACTION_PROFILE, 'highways', props);
+}
+
+/**
+ * Flatten [lon, lat] pairs to [lon1, lat1, lon2, lat2, ...] at FULL OSM node density
+ */
+export function flattenCoords(coords: [number, number][]): number[] {
+  const flatCoords: number[] = [];
+  for (const [lon, lat] of coords) {
+    flatCoords.push(lon, lat);
+  }
+  return flatCoords;
+}
+
+/**
+ * Parse an integer tag value ("2", "-1"); anything else (e.g. "2;3", "1.5") is undefined
+ */
+function parseIntegerTag(value: string | undefined): number | undefined {
+  if (value === undefined || !/^-?\d+$/.test(value.trim())) return undefined;
+  return Number(value.trim());
+}
+
+/**
+ * Normalize oneway to 1 / -1, or undefined for two-way.
+ * Motorways and roundabouts are one-way unless tagged otherwise (OSM implied defaults).
+ */
+export function normalizeOneway(props: Record<string, string>): 1 | -1 | undefined {
+  const oneway = props.oneway;
+  if (oneway === 'yes' || oneway === 'true' || oneway === '1') return 1;
+  if (oneway === '-1' || oneway === 'reverse') return -1;
+  if (oneway !== undefined) return undefined;
+  if (props.junction === 'roundabout' || props.junction === 'circular') return 1;
+  if (props.highway === 'motorway' || props.highway === 'motorway_link') return 1;
+  return undefined;
+}
+
+/**
+ * Copy lane, oneway, junction, structure, layer and naming attributes onto a road way
+ */
+function applyRoadAttributes(roadWay: BundledRoadWay, props: Record<string, string>): void {
+  const oneway = normalizeOneway(props);
+  if (oneway !== undefined) roadWay.oneway = oneway;
+
+  const lanes = parseIntegerTag(props.lanes);
+  if (lanes !== undefined && lanes > 0) roadWay.lanes = lanes;
+  const lanesForward = parseIntegerTag(props['lanes:forward']);
+  if (lanesForward !== undefined && lanesForward >= 0) roadWay.lanesForward = lanesForward;
+  const lanesBackward = parseIntegerTag(props['lanes:backward']);
+  if (lanesBackward !== undefined && lanesBackward >= 0) roadWay.lanesBackward = lanesBackward;
+
+  if (props.junction) roadWay.junction = props.junction;
+  if (props.bridge && props.bridge !== 'no') roadWay.bridge = true;
+  if (props.tunnel && props.tunnel !== 'no') roadWay.tunnel = true;
+  const structureKey = roadWay.bridge ? 'bridge' : roadWay.tunnel ? 'tunnel' : undefined;
+  if (structureKey) {
+    if (props[structureKey] !== 'yes') roadWay.structure = props[structureKey];
+    if (props[`${structureKey}:name`]) roadWay.structureName = props[`${structureKey}:name`];
+  }
+  const layer = parseIntegerTag(props.layer);
+  if (layer !== undefined && layer !== 0) roadWay.layer = layer;
+
+  if (props.ref) roadWay.ref = props.ref;
+  if (props.name) roadWay.name = props.name;
+}
+
+/**
+ * Convert a highway way to optimized road geometry, or null if it is not a driving road.
+ * countryCode resolves bare implicit speed limits ("urban") and maxspeed=walk.
+ */
+export function convertRoadWay(way: OsmWay, countryCode?: string): BundledRoadWay | null {
+  const props = way.tags;
+  const highway = props.highway;
+  if (!highway) return null;
+  if (isExcludedRoadWay(props)) return null;
+  if (way.coords.length < 2) return null;
+
+  const roadWay: BundledRoadWay = {
+    coords: flattenCoords(way.coords),
+    highway,
+    wayId: way.id,
+    nodeIds: way.nodeIds,
+  };
+  // Include surface tag when present — enables primary-tier surface matching
+  // on road_ways without needing separate road_surface mediation
+  const surface = props.surface ? normalizeSurfaceType(props.surface) : undefined;
+  if (surface && surface !== EXTRACTION_PROFILE.surfaces.fallback) roadWay.surface = surface;
+
+  const speedLimit = resolveSpeedLimit(props, countryCode);
+  if (speedLimit) {
+    if (speedLimit.forward !== undefined) roadWay.maxspeedForward = speedLimit.forward;
+    if (speedLimit.backward !== undefined) roadWay.maxspeedBackward = speedLimit.backward;
+    roadWay.maxspeedSource = speedLimit.source;
+  }
+
+  applyRoadAttributes(roadWay, props);
+  return roadWay;
+}
+
+/**
+ * Convert a highway way with a surface tag to optimized surface format, or null
+ */
+export function convertRoadSurface(way: OsmWay): BundledRoadSurface | null {
+  const props = way.tags;
+  const surface = props.surface;
+  if (!surface) return null;
+  if (isExcludedRoadWay(props)) return null;
+  if (way.coords.length < 2) return null;
+
+  return {
+    surface: normalizeSurfaceType(surface),
+    coords: flattenCoords(way.coords),
+    wayId: way.id,
+  };
+}
+
+/**
+ * Detect the curve segments of a converted road way (flat [lon, lat, ...] coords)
+ */
+export function convertRoadCurves(wayId: number, coords: number[]): RoadCurve[] {
+  const pairs: [number, number][] = [];
+  for (let i = 0; i + 1 < coords.length; i += 2) pairs.push([coords[i], coords[i + 1]]);
+
+  return detectCurves(pairs).map((curve) => ({
+    wayId,
+    startLat: pairs[curve.startIndex][1],
+    startLon: pairs[curve.startIndex][0],
+    endLat: pairs[curve.endIndex][1],
+    endLon: pairs[curve.endIndex][0],
+    minRadius: curve.minRadius,
+    direction: curve.direction,
+    deflection: curve.deflection,
+    advisorySpeed: curve.advisorySpeed,
+  }));
+}
+
+/**
+ * Split a conditional restriction value into (restriction, condition) pairs:
+ * "no_left_turn @ (Mo-Fr 07:00-09:00); no_u_turn @ wet" → two entries.
+ * Semicolons inside parentheses belong to the condition.
+ */
+function parseConditionalRestrictions(value: string): { restriction: string; condition: string }[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (ch === '(') depth++;
+    else if (ch === ')') depth = Math.max(0, depth - 1);
+    else if (ch === ';' && depth === 0) {
+      parts.push(value.substring(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(value.substring(start));
+
+  const result: { restriction: string; condition: string }[] = [];
+  for (const part of parts) {
+    const at = part.indexOf('@');
+    if (at === -1) continue;
+    let condition = part.substring(at + 1).trim();
+    if (condition.startsWith('(') && condition.endsWith(')')) condition = condition.slice(1, -1).trim();
+    result.push({ restriction: part.substring(0, at).trim(), condition });
+  }
+  return result;
+}
+
+/**
+ * Convert a turn restriction relation into one row per (restriction tag, from-way, to-way).
+ * Returns an empty list when a from, via or to member is missing or has no geometry
+ * (typically members clipped at the extract boundary).
+ */
+export function convertTurnRestrictions(relation: Pick<OsmRelation, 'id' | 'tags' | 'members'>): TurnRestriction[] {
+  const props = relation.tags;
+
+  // Every restriction[:vehicle][:conditional] tag with a known value
+  const rules: { restriction: string; vehicle?: string; condition?: string }[] = [];
+  for (const [key, value] of Object.entries(props)) {
+    const match = key.match(RESTRICTION_KEY);
+    if (!match) continue;
+    const vehicle = match[1] && match[1] !== 'conditional' ? match[1] : undefined;
+    if (match[2] === 'conditional' || match[1] === 'conditional') {
+      for (const entry of parseConditionalRestrictions(value)) {
+        if (RESTRICTION_TYPES.has(entry.restriction)) rules.push({ ...entry, vehicle });
+      }
+    } else if (RESTRICTION_TYPES.has(value.trim())) {
+      rules.push({ restriction: value.trim(), vehicle });
+    }
+  }
+  if (rules.length === 0) return [];
+
+  const from = relation.members.filter((m) => m.role === 'from' && m.type === 'way');
+  const to = relation.members.filter((m) => m.role === 'to' && m.type === 'way');
+  const via = relation.members.filter((m) => m.role === 'via');
+  if (from.length === 0 || to.length === 0 || via.length === 0) return [];
+  if ([...from, ...to, ...via].some((m) => !m.coords || m.coords.length === 0)) return [];
+
+  // Via is a single node or a chain of ways
+  let viaNodeId: number | undefined;
+  let viaWayIds: number[] | undefined;
+  if (via.length === 1 && via[0].type === 'node') {
+    viaNodeId = via[0].ref;
+  } else if (via.every((m) => m.type === 'way')) {
+    viaWayIds = via.map((m) => m.ref);
+  } else {
+    return [];
+  }
+
+  const restrictions: TurnRestriction[] = [];
+  for (const fromWay of from) {
+    const [lon, lat] = viaNodeId !== undefined ? via[0].coords![0] : findJoint(fromWay, via);
+    for (const toWay of to) {
+      for (const rule of rules) {
+        const restriction: TurnRestriction = {
+          relationId: relation.id,
+          restriction: rule.restriction,
+          fromWayId: fromWay.ref,
+          toWayId: toWay.ref,
+          lat,
+          lon,
+          fromCoords: flattenCoords(fromWay.coords!),
+          toCoords: flattenCoords(toWay.coords!),
+        };
+        if (rule.vehicle) restriction.vehicle = rule.vehicle;
+        if (rule.condition) restriction.condition = rule.condition;
+        if (props.except) restriction.except = props.except;
+        if (viaNodeId !== undefined) restriction.viaNodeId = viaNodeId;
+        if (viaWayIds) restriction.viaWayIds = viaWayIds;
+        restrictions.push(restriction);
+      }
+    }
+  }
+  return restrictions;
+}
+
+/**
+ * [lon, lat] of the node shared by the from-way and a via way, or the first via vertex
+ */
+function findJoint(fromWay: OsmRelationMember, via: OsmRelationMember[]): [number, number] {
+  const fromNodes = new Set(fromWay.nodeIds ?? []);
+  for (const viaWay of via) {
+    const nodeIds = viaWay.nodeIds ?? [];
+    for (let i = 0; i < nodeIds.length; i++) {
+      if (fromNodes.has(nodeIds[i])) return viaWay.coords![i];
+    }
+  }
+  return via[0].coords![0];
+}
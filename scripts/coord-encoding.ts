@@ -0,0 +1,118 @@
+/**
+ * Coordinate Encoding
+ *
+ * PURPOSE: Reference encoder/decoder for the `coords` column of road_ways and road_surfaces
+ * RESPONSIBILITY: JSON text and compact binary (fixed-point, delta, zigzag varint) formats
+ * DEPENDENCIES: none
+ * CONSUMERS: region-db.ts, update-region.ts, region-stats.ts; clients port decodeCoords when reading BLOBs
+ *
+ * The active format is recorded in `metadata.coordEncoding`:
+ *
+ *   json             TEXT  `[lon1,lat1,lon2,lat2,...]` (default, readable by every client)
+ *   e7-delta-varint  BLOB  each value as an integer of 1e-7 degrees (OSM's own precision),
+ *                          minus the previous value of the same axis (lon from lon, lat from
+ *                          lat; the first pair is relative to 0), zigzag-mapped to unsigned
+ *                          and written as a little-endian base-128 varint.
+ *
+ * Example: [25.2797, 54.6872, 25.2798, 54.6871] → 252797000, 546872000, +1000, -1000.
+ */
+
+// =============================================================================
+// TYPES & CONSTANTS
+// =============================================================================
+
+export type CoordEncoding = 'json' | 'e7-delta-varint';
+
+export const COORD_ENCODINGS: readonly CoordEncoding[] = ['json', 'e7-delta-varint'];
+
+export const DEFAULT_COORD_ENCODING: CoordEncoding = 'json';
+
+const FIXED_POINT_SCALE = 1e7;
+
+// =============================================================================
+// BINARY CODEC
+// =============================================================================
+
+/**
+ * Encode a flat coords array [lon1, lat1, lon2, lat2, ...] as e7-delta-varint.
+ * Values fit in 34 bits after zigzag, so plain arithmetic is used instead of 32-bit bit ops.
+ */
+export function encodeCoords(coords: number[]): Buffer {
+  // Worst case 5 bytes per value
+  const out = Buffer.allocUnsafe(coords.length * 5);
+  let pos = 0;
+  let prevLon = 0;
+  let prevLat = 0;
+
+  for (let i = 0; i < coords.length; i++) {
+    const fixed = Math.round(coords[i] * FIXED_POINT_SCALE);
+    const isLon = i % 2 === 0;
+    const delta = fixed - (isLon ? prevLon : prevLat);
+    if (isLon) prevLon = fixed;
+    else prevLat = fixed;
+
+    let value = delta >= 0 ? delta * 2 : -delta * 2 - 1;
+    while (value >= 0x80) {
+      out[pos++] = (value % 0x80) | 0x80;
+      value = Math.floor(value / 0x80);
+    }
+    out[pos++] = value;
+  }
+
+  return out.subarray(0, pos);
+}
+
+/**
+ * Decode an e7-delta-varint BLOB back to a flat coords array [lon1, lat1, lon2, lat2, ...].
+ */
+export function decodeCoords(blob: Uint8Array): number[] {
+  const coords: number[] = [];
+  let pos = 0;
+  let prevLon = 0;
+  let prevLat = 0;
+
+  while (pos < blob.length) {
+    let value = 0;
+    let multiplier = 1;
+    let byte: number;
+    do {
+      if (pos >= blob.length) throw new Error('Truncated coordinate varint');
+      byte = blob[pos++];
+      value += (byte & 0x7f) * multiplier;
+      multiplier *= 0x80;
+    } while (byte & 0x80);
+
+    const delta = value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+    if (coords.length % 2 === 0) {
+      prevLon += delta;
+      coords.push(prevLon / FIXED_POINT_SCALE);
+    } else {
+      prevLat += delta;
+      coords.push(prevLat / FIXED_POINT_SCALE);
+    }
+  }
+
+  return coords;
+}
+
+// =============================================================================
+// COLUMN HELPERS
+// =============================================================================
+
+export function parseCoordEncoding(value: string | undefined): CoordEncoding {
+  if (value === undefined) return DEFAULT_COORD_ENCODING;
+  if (!(COORD_ENCODINGS as readonly string[]).includes(value)) {
+    throw new Error(`Unknown coordinate encoding: ${value} (expected ${COORD_ENCODINGS.join(' or ')})`);
+  }
+  return value as CoordEncoding;
+}
+
+/** Column value for a flat coords array in the given encoding */
+export function serializeCoords(coords: number[], encoding: CoordEncoding): string | Buffer {
+  return encoding === 'json' ? JSON.stringify(coords) : encodeCoords(coords);
+}
+
+/** Flat coords array from a column value; TEXT is JSON, BLOB is e7-delta-varint */
+export function deserializeCoords(value: string | Uint8Array): number[] {
+  return typeof value === 'string' ? (JSON.parse(value) as number[]) : decodeCoords(value);
+}
@@ -0,0 +1,430 @@
+#!/usr/bin/env node
+/**
+ * Dedupe Borders Script
+ *
+ * PURPOSE: Mark the features neighbouring region databases both carry, with the region owning each
+ * RESPONSIBILITY: Find neighbouring regions from regions.json bboxes, collect features near each
+ *                 border by OSM ID, pick an owner per shared feature, write border_duplicates and
+ *                 metadata.borderOverlap into the databases, write the overlap summary
+ * DEPENDENCIES: better-sqlite3, regions.json, region-db.ts, manifest.ts, build-sqlite.ts databases
+ * CONSUMERS: GitHub Actions workflow (monthly release), osm-extract.ts (borders),
+ *            generate-manifest.ts (--border-overlap)
+ *
+ * Usage: npm run dedupe-borders -- [--input ./output] [--work-dir /tmp] [--summary <work-dir>/border-overlap.json]
+ *
+ * Input: {region-id}.sqlite.gz of every built region in --input
+ * Output: the same databases, rewritten in place; the summary JSON (region → neighbour → overlap)
+ *
+ * Geofabrik extracts overlap at borders, so a border bridge, roundabout or speed camera is in
+ * both neighbours' databases, and a way crossing the extract boundary may be cut short in one
+ * of them. Two regions are neighbours when their regions.json bboxes touch; a derived region is
+ * not a neighbour of the region it is cut from. A feature is shared when both databases carry
+ * the same OSM node, way or relation. Its owner is the region with the longer copy (largest
+ * bbox extent, so an intact way wins over a cut one), then the region whose bbox centre is
+ * nearest to the feature, then the lower region id. The order is the same for every pair, so
+ * whichever regions a client has loaded, exactly one of them keeps the feature.
+ *
+ * Each database is decompressed twice, one at a time: once to copy its features near a
+ * neighbour into a candidate index in --work-dir, once to write the result.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { execSync } from 'child_process';
+import { createRequire } from 'module';
+import type BetterSqlite3 from 'better-sqlite3';
+import { BORDER_DUPLICATES_SQL } from './region-db.js';
+import type { BorderOverlapSummary } from './manifest.js';
+const require = createRequire(import.meta.url);
+
+const Database = require('better-sqlite3');
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+type Db = BetterSqlite3.Database;
+
+type Bbox = [minLon: number, minLat: number, maxLon: number, maxLat: number];
+
+interface Region {
+  id: string;
+  name: string;
+  bbox: Bbox;
+  geofabrikPath?: string;
+  source?: { region?: string; pbf?: string };
+}
+
+interface RegionsFile {
+  regions: Region[];
+}
+
+type OsmType = 'node' | 'way' | 'relation';
+
+/** A table column naming an OSM element, with SQL for the extent of the row */
+interface FeatureSource {
+  table: string;
+  type: OsmType;
+  column: string;
+  minLat: string;
+  maxLat: string;
+  minLon: string;
+  maxLon: string;
+}
+
+/** One region's copy of a shared element */
+interface Copy {
+  region: string;
+  span: number;
+  lat: number;
+  lon: number;
+}
+
+type Duplicate = [osmType: OsmType, osmId: number, neighbour: string, owner: string];
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Slack when testing bboxes for contact and features for lying near a border
+// (regions.json bboxes are rounded to 0.01°, extracts reach a little beyond them)
+const BORDER_MARGIN = 0.05;
+
+// Extents are compared at this many decimals, so coordinate noise does not decide ownership
+const SPAN_DECIMALS = 6;
+
+const lineSource = (table: string, type: OsmType, column: string): FeatureSource => ({
+  table,
+  type,
+  column,
+  minLat: 'min_lat',
+  maxLat: 'max_lat',
+  minLon: 'min_lon',
+  maxLon: 'max_lon',
+});
+
+const pointSource = (table: string, type: OsmType, column: string): FeatureSource => ({
+  table,
+  type,
+  column,
+  minLat: 'lat',
+  maxLat: 'lat',
+  minLon: 'lon',
+  maxLon: 'lon',
+});
+
+// Tables whose rows come from one OSM element. Derived tables (road_curves, structures, graph,
+// road_elevation, roundabout_arms) follow their ways or roundabout; graph_nodes merge by node_id.
+const FEATURE_SOURCES: FeatureSource[] = [
+  lineSource('road_ways', 'way', 'way_id'),
+  lineSource('road_surfaces', 'way', 'way_id'),
+  pointSource('traffic_calming', 'node', 'node_id'),
+  {
+    table: 'traffic_calming',
+    type: 'way',
+    column: 'way_id',
+    minLat: 'min(lat, coalesce(end_lat, lat))',
+    maxLat: 'max(lat, coalesce(end_lat, lat))',
+    minLon: 'min(lon, coalesce(end_lon, lon))',
+    maxLon: 'max(lon, coalesce(end_lon, lon))',
+  },
+  pointSource('roundabouts', 'node', 'node_id'),
+  pointSource('roundabouts', 'way', 'way_id'),
+  pointSource('intersection_controls', 'node', 'node_id'),
+  pointSource('turn_restrictions', 'relation', 'relation_id'),
+];
+
+const CANDIDATES_SQL = `
+CREATE TABLE IF NOT EXISTS candidates (
+  region TEXT NOT NULL,
+  osm_type TEXT NOT NULL,
+  osm_id INTEGER NOT NULL,
+  span REAL NOT NULL,
+  lat REAL NOT NULL,
+  lon REAL NOT NULL,
+  PRIMARY KEY (region, osm_type, osm_id)
+) WITHOUT ROWID;
+`;
+
+// =============================================================================
+// NEIGHBOURS
+// =============================================================================
+
+function bboxesTouch(a: Bbox, b: Bbox): boolean {
+  return (
+    a[0] <= b[2] + BORDER_MARGIN && b[0] <= a[2] + BORDER_MARGIN && a[1] <= b[3] + BORDER_MARGIN && b[1] <= a[3] + BORDER_MARGIN
+  );
+}
+
+/**
+ * Neighbours of every region, among the regions given: bboxes touch and neither is cut
+ * from the other's extract
+ */
+function findNeighbours(regions: Region[]): Map<string, Region[]> {
+  const neighbours = new Map<string, Region[]>(regions.map((region) => [region.id, []]));
+  for (let i = 0; i < regions.length; i++) {
+    for (let j = i + 1; j < regions.length; j++) {
+      const a = regions[i];
+      const b = regions[j];
+      if (a.source?.region === b.id || b.source?.region === a.id) continue;
+      if (!bboxesTouch(a.bbox, b.bbox)) continue;
+      neighbours.get(a.id)!.push(b);
+      neighbours.get(b.id)!.push(a);
+    }
+  }
+  return neighbours;
+}
+
+/**
+ * Where two regions' bboxes meet, widened by the margin: features both extracts carry lie in it
+ */
+function borderZone(a: Bbox, b: Bbox): Bbox {
+  return [
+    Math.max(a[0], b[0]) - BORDER_MARGIN,
+    Math.max(a[1], b[1]) - BORDER_MARGIN,
+    Math.min(a[2], b[2]) + BORDER_MARGIN,
+    Math.min(a[3], b[3]) + BORDER_MARGIN,
+  ];
+}
+
+// =============================================================================
+// CANDIDATES
+// =============================================================================
+
+/**
+ * Copy the features of one region database that reach into any of its border zones to the
+ * candidate index (attached as `idx`). A feature found in several tables keeps its largest extent.
+ */
+function collectCandidates(db: Db, regionId: string, zones: Bbox[]): number {
+  const tables = new Set(
+    (db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as { name: string }[]).map((row) => row.name),
+  );
+  const before = db.prepare('SELECT count(*) FROM idx.candidates WHERE region = ?').pluck().get(regionId) as number;
+
+  for (const source of FEATURE_SOURCES) {
+    if (!tables.has(source.table)) continue;
+    const { minLat, maxLat, minLon, maxLon } = source;
+    const inZone = zones.map(() => `(${maxLat} >= ? AND ${minLat} <= ? AND ${maxLon} >= ? AND ${minLon} <= ?)`).join(' OR ');
+    db.prepare(
+      `INSERT INTO idx.candidates (region, osm_type, osm_id, span, lat, lon)
+       SELECT ?, ?, ${source.column}, round((${maxLat}) - (${minLat}) + (${maxLon}) - (${minLon}), ${SPAN_DECIMALS}),
+         ((${minLat}) + (${maxLat})) / 2, ((${minLon}) + (${maxLon})) / 2
+       FROM ${source.table} WHERE ${source.column} IS NOT NULL AND (${inZone})
+       ON CONFLICT (region, osm_type, osm_id) DO UPDATE SET span = excluded.span, lat = excluded.lat, lon = excluded.lon
+       WHERE excluded.span > candidates.span`,
+    ).run(regionId, source.type, ...zones.flatMap(([west, south, east, north]) => [south, north, west, east]));
+  }
+
+  return (db.prepare('SELECT count(*) FROM idx.candidates WHERE region = ?').pluck().get(regionId) as number) - before;
+}
+
+// =============================================================================
+// OWNERSHIP
+// =============================================================================
+
+/**
+ * Order two copies of the same element: negative when `a`'s region owns it. `lat`/`lon` is
+ * the element's position, the same for every pair so the order is consistent.
+ */
+function compareCopies(a: Copy, b: Copy, lat: number, lon: number, bboxes: Map<string, Bbox>): number {
+  if (a.span !== b.span) return b.span - a.span;
+  const distance = (region: string) => {
+    const [west, south, east, north] = bboxes.get(region)!;
+    const dx = (lon - (west + east) / 2) * Math.cos((lat * Math.PI) / 180);
+    const dy = lat - (south + north) / 2;
+    return dx * dx + dy * dy;
+  };
+  const byDistance = distance(a.region) - distance(b.region);
+  if (byDistance !== 0) return byDistance;
+  return a.region < b.region ? -1 : 1;
+}
+
+/**
+ * Walk the elements more than one region carries and record, for each pair of neighbours
+ * holding one, which of the two owns it
+ */
+function assignOwners(
+  index: Db,
+  neighbours: Map<string, Region[]>,
+  bboxes: Map<string, Bbox>,
+): { duplicates: Map<string, Duplicate[]>; summary: BorderOverlapSummary } {
+  const duplicates = new Map<string, Duplicate[]>();
+  const summary: BorderOverlapSummary = {};
+  for (const [regionId, regionNeighbours] of neighbours) {
+    if (regionNeighbours.length === 0) continue;
+    duplicates.set(regionId, []);
+    summary[regionId] = Object.fromEntries(regionNeighbours.map((n) => [n.id, { shared: 0, owned: 0 }]));
+  }
+
+  const record = (type: OsmType, id: number, copies: Copy[]) => {
+    // The longest copy (ties: lowest region id) places the element
+    const placed = copies.reduce((best, copy) => (copy.span > best.span ? copy : best));
+    for (let i = 0; i < copies.length; i++) {
+      for (let j = i + 1; j < copies.length; j++) {
+        const a = copies[i];
+        const b = copies[j];
+        const overlapA = summary[a.region]?.[b.region];
+        if (!overlapA) continue; // not neighbours
+        const owner = compareCopies(a, b, placed.lat, placed.lon, bboxes) < 0 ? a.region : b.region;
+        const overlapB = summary[b.region][a.region];
+        overlapA.shared++;
+        overlapB.shared++;
+        (owner === a.region ? overlapA : overlapB).owned++;
+        duplicates.get(a.region)!.push([type, id, b.region, owner]);
+        duplicates.get(b.region)!.push([type, id, a.region, owner]);
+      }
+    }
+  };
+
+  index.exec('CREATE INDEX IF NOT EXISTS idx_candidates_element ON candidates(osm_type, osm_id, region)');
+  const shared = index.prepare(
+    `SELECT osm_type, osm_id, region, span, lat, lon FROM candidates
+     WHERE (osm_type, osm_id) IN (SELECT osm_type, osm_id FROM candidates GROUP BY osm_type, osm_id HAVING count(*) > 1)
+     ORDER BY osm_type, osm_id, region`,
+  );
+
+  let current: { type: OsmType; id: number; copies: Copy[] } | undefined;
+  for (const row of shared.iterate() as Iterable<{ osm_type: OsmType; osm_id: number } & Copy>) {
+    if (!current || current.type !== row.osm_type || current.id !== row.osm_id) {
+      if (current) record(current.type, current.id, current.copies);
+      current = { type: row.osm_type, id: row.osm_id, copies: [] };
+    }
+    current.copies.push({ region: row.region, span: row.span, lat: row.lat, lon: row.lon });
+  }
+  if (current) record(current.type, current.id, current.copies);
+
+  return { duplicates, summary };
+}
+
+// =============================================================================
+// WRITE BACK
+// =============================================================================
+
+/**
+ * Replace border_duplicates and metadata.borderOverlap of an open region database
+ */
+function writeBorderDuplicates(db: Db, rows: Duplicate[], overlap: BorderOverlapSummary[string]): void {
+  db.exec('BEGIN TRANSACTION');
+  db.exec('DROP TABLE IF EXISTS border_duplicates');
+  db.exec(BORDER_DUPLICATES_SQL);
+  const insert = db.prepare('INSERT INTO border_duplicates (osm_type, osm_id, neighbour, owner) VALUES (?, ?, ?, ?)');
+  for (const row of rows) insert.run(...row);
+  db.prepare("INSERT OR REPLACE INTO metadata (key, value) VALUES ('borderOverlap', ?)").run(JSON.stringify(overlap));
+  db.exec('COMMIT');
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+async function dedupeBorders(inputDir: string, workDir: string, summaryPath: string): Promise<void> {
+  const t0 = Date.now();
+  console.log(`\n========================================`);
+  console.log(`Deduplicating border features`);
+  console.log(`========================================\n`);
+
+  const regionsData: RegionsFile = JSON.parse(readFileSync(join(__dirname, 'regions.json'), 'utf-8'));
+  const built = regionsData.regions.filter((region) => existsSync(join(inputDir, `${region.id}.sqlite.gz`)));
+  const bboxes = new Map(built.map((region) => [region.id, region.bbox]));
+  const neighbours = findNeighbours(built);
+  const bordering = built.filter((region) => neighbours.get(region.id)!.length > 0);
+  const pairs = bordering.reduce((sum, region) => sum + neighbours.get(region.id)!.length, 0) / 2;
+  console.log(`Regions: ${built.length} built, ${bordering.length} with neighbours (${pairs} pairs)`);
+
+  const sqlitePath = (regionId: string) => join(workDir, `${regionId}.borders.sqlite`);
+  const indexPath = join(workDir, 'border-candidates.sqlite');
+  mkdirSync(workDir, { recursive: true });
+  if (existsSync(indexPath)) unlinkSync(indexPath);
+
+  try {
+    // Pass 1: features near a border, per region
+    console.log('\nCollecting border features...');
+    const index: Db = new Database(indexPath);
+    index.exec(CANDIDATES_SQL);
+    index.close();
+    for (const region of bordering) {
+      const gzPath = join(inputDir, `${region.id}.sqlite.gz`);
+      execSync(`gunzip -c "${gzPath}" > "${sqlitePath(region.id)}"`, { stdio: 'inherit' });
+      // Writable: an attached database inherits the connection's read-only flag
+      const db: Db = new Database(sqlitePath(region.id));
+      try {
+        db.prepare('ATTACH DATABASE ? AS idx').run(indexPath);
+        const zones = neighbours.get(region.id)!.map((neighbour) => borderZone(region.bbox, neighbour.bbox));
+        const count = collectCandidates(db, region.id, zones);
+        console.log(`  ${region.id}: ${count} features near ${zones.length} neighbours`);
+      } finally {
+        db.close();
+        unlinkSync(sqlitePath(region.id));
+      }
+    }
+
+    // Owners
+    const candidates: Db = new Database(indexPath);
+    let result: ReturnType<typeof assignOwners>;
+    try {
+      result = assignOwners(candidates, neighbours, bboxes);
+    } finally {
+      candidates.close();
+    }
+    const { duplicates, summary } = result;
+
+    // Pass 2: write the result into each database
+    console.log('\nWriting border_duplicates...');
+    for (const region of bordering) {
+      const gzPath = join(inputDir, `${region.id}.sqlite.gz`);
+      execSync(`gunzip -c "${gzPath}" > "${sqlitePath(region.id)}"`, { stdio: 'inherit' });
+      try {
+        const db: Db = new Database(sqlitePath(region.id));
+        try {
+          writeBorderDuplicates(db, duplicates.get(region.id)!, summary[region.id]);
+        } finally {
+          db.close();
+        }
+        execSync(`gzip -9 -c "${sqlitePath(region.id)}" > "${gzPath}.tmp"`, { stdio: 'inherit' });
+        renameSync(`${gzPath}.tmp`, gzPath);
+      } finally {
+        unlinkSync(sqlitePath(region.id));
+      }
+      const overlaps = Object.entries(summary[region.id])
+        .filter(([, overlap]) => overlap.shared > 0)
+        .map(([neighbourId, overlap]) => `${neighbourId} ${overlap.owned}/${overlap.shared}`);
+      console.log(`  ${region.id}: ${overlaps.length > 0 ? `owns ${overlaps.join(', ')}` : 'nothing shared'}`);
+    }
+
+    writeFileSync(summaryPath, JSON.stringify(summary, null, 2));
+  } finally {
+    if (existsSync(indexPath)) unlinkSync(indexPath);
+  }
+
+  const elapsed = ((Date.now() - t0) / 1000).toFixed(1);
+  console.log(`\n✓ Border overlap written to ${bordering.length} databases, summary: ${summaryPath}`);
+  console.log(`  Time: ${elapsed}s`);
+}
+
+// =============================================================================
+// CLI ENTRY POINT
+// =============================================================================
+
+const args = process.argv.slice(2);
+const inputIndex = args.indexOf('--input');
+const workDirIndex = args.indexOf('--work-dir');
+const summaryIndex = args.indexOf('--summary');
+
+if (args.includes('--help')) {
+  console.error('Usage: npm run dedupe-borders -- [--input <dir>] [--work-dir <dir>] [--summary <file>]');
+  process.exit(1);
+}
+
+const inputDir = inputIndex !== -1 && args[inputIndex + 1] ? args[inputIndex + 1] : './output';
+const workDir = workDirIndex !== -1 && args[workDirIndex + 1] ? args[workDirIndex + 1] : '/tmp';
+const summaryPath =
+  summaryIndex !== -1 && args[summaryIndex + 1] ? args[summaryIndex + 1] : join(workDir, 'border-overlap.json');
+
+dedupeBorders(inputDir, workDir, summaryPath).catch((err) => {
+  console.error('\n✗ Failed to deduplicate borders:', err);
+  process.exit(1);
+});
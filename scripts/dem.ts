@@ -0,0 +1,538 @@
+/**
+ * DEM Reader
+ *
+ * PURPOSE: Sample terrain elevation from a local directory of SRTM / Copernicus tiles
+ * RESPONSIBILITY: Index .hgt and GeoTIFF tiles by extent, decode rasters on demand (small
+ *                 cache), bilinear elevation lookup
+ * DEPENDENCIES: none (zlib from Node.js for Deflate-compressed GeoTIFFs)
+ * CONSUMERS: region-build.ts, update-region.ts, road-elevation.ts
+ *
+ * Format references:
+ *   SRTM .hgt   https://www.usgs.gov/centers/eros/science/usgs-eros-archive-digital-elevation-shuttle-radar-topography-mission-srtm-1
+ *   TIFF 6.0    https://www.itu.int/itudoc/itu-t/com16/tiff-fx/docs/tiff6.pdf
+ *   GeoTIFF 1.1 https://docs.ogc.org/is/19-008r4/19-008r4.html
+ *
+ * .hgt tiles are named after their south-west corner (N50E010.hgt) and hold a square grid of
+ * big-endian int16 meters, rows north to south, 1201² (3 arc-second) or 3601² (1 arc-second).
+ * GeoTIFFs must be single-band, in geographic coordinates (WGS84 lat/lon, as SRTM and
+ * Copernicus GLO-30/90 are distributed), classic (not Big) TIFF, uncompressed, LZW or Deflate,
+ * striped or tiled, with any of the standard predictors.
+ */
+
+import { closeSync, openSync, readFileSync, readSync, readdirSync, statSync } from 'fs';
+import { basename, join } from 'path';
+import { inflateSync } from 'zlib';
+
+// =============================================================================
+// TYPES & CONSTANTS
+// =============================================================================
+
+export type DemFormat = 'hgt' | 'geotiff';
+
+interface Raster {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+interface DemTile {
+  path: string;
+  format: DemFormat;
+  /** Geographic position of pixel (0, 0)'s centre and the pixel size in degrees */
+  originLon: number;
+  originLat: number;
+  stepLon: number;
+  stepLat: number;
+  /** Covered extent: pixel centres, widened to the outer pixel edges for PixelIsArea rasters */
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+  load(): Raster;
+}
+
+const HGT_NAME = /^([NS])(\d{2})([EW])(\d{3})\.hgt$/i;
+const HGT_VOID = -32768;
+
+// Decoded rasters kept in memory at once (a 1 arc-second tile is ~50 MB as float32)
+const RASTER_CACHE_SIZE = 4;
+
+// TIFF tags
+const TAG_WIDTH = 256;
+const TAG_HEIGHT = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_ROWS_PER_STRIP = 278;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_PREDICTOR = 317;
+const TAG_TILE_WIDTH = 322;
+const TAG_TILE_LENGTH = 323;
+const TAG_TILE_OFFSETS = 324;
+const TAG_TILE_BYTE_COUNTS = 325;
+const TAG_SAMPLE_FORMAT = 339;
+const TAG_MODEL_PIXEL_SCALE = 33550;
+const TAG_MODEL_TIEPOINT = 33922;
+const TAG_GEO_KEY_DIRECTORY = 34735;
+const TAG_GDAL_NODATA = 42113;
+
+// GeoKeys
+const GEOKEY_MODEL_TYPE = 1024;
+const GEOKEY_RASTER_TYPE = 1025;
+const MODEL_TYPE_GEOGRAPHIC = 2;
+const RASTER_PIXEL_IS_POINT = 2;
+
+// Byte size per TIFF field type (BYTE, ASCII, SHORT, LONG, RATIONAL, SBYTE, UNDEFINED,
+// SSHORT, SLONG, SRATIONAL, FLOAT, DOUBLE)
+const FIELD_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+// =============================================================================
+// SRTM .hgt
+// =============================================================================
+
+function indexHgt(path: string, size: number): DemTile | null {
+  const match = basename(path).match(HGT_NAME);
+  if (!match) return null;
+  const samples = Math.round(Math.sqrt(size / 2));
+  if (samples * samples * 2 !== size || samples < 2) {
+    throw new Error(`Unexpected .hgt size ${size} bytes: ${path}`);
+  }
+
+  const south = (match[1].toUpperCase() === 'S' ? -1 : 1) * Number(match[2]);
+  const west = (match[3].toUpperCase() === 'W' ? -1 : 1) * Number(match[4]);
+  const step = 1 / (samples - 1);
+  return {
+    path,
+    format: 'hgt',
+    originLon: west,
+    originLat: south + 1,
+    stepLon: step,
+    stepLat: -step,
+    west,
+    south,
+    east: west + 1,
+    north: south + 1,
+    load() {
+      const bytes = readFileSync(path);
+      const data = new Float32Array(samples * samples);
+      for (let i = 0; i < data.length; i++) {
+        const value = bytes.readInt16BE(i * 2);
+        data[i] = value === HGT_VOID ? NaN : value;
+      }
+      return { width: samples, height: samples, data };
+    },
+  };
+}
+
+// =============================================================================
+// GEOTIFF
+// =============================================================================
+
+/**
+ * Random-access reader over a TIFF file in either byte order
+ */
+class TiffFile {
+  private littleEndian = true;
+  readonly entries = new Map<number, { type: number; count: number; valueOffset: number }>();
+
+  constructor(
+    private readonly fd: number,
+    private readonly path: string,
+  ) {
+    const header = this.read(0, 8);
+    const order = header.toString('latin1', 0, 2);
+    if (order !== 'II' && order !== 'MM') throw new Error(`Not a TIFF file: ${path}`);
+    this.littleEndian = order === 'II';
+    const magic = this.u16(header, 2);
+    if (magic === 43) throw new Error(`BigTIFF is not supported: ${path}`);
+    if (magic !== 42) throw new Error(`Not a TIFF file: ${path}`);
+
+    // First IFD only — overviews and masks live in later ones
+    const ifdOffset = this.u32(header, 4);
+    const count = this.u16(this.read(ifdOffset, 2), 0);
+    const table = this.read(ifdOffset + 2, count * 12);
+    for (let i = 0; i < count; i++) {
+      const at = i * 12;
+      const tag = this.u16(table, at);
+      const type = this.u16(table, at + 2);
+      const valueCount = this.u32(table, at + 4);
+      const size = (FIELD_TYPE_SIZES[type] ?? 1) * valueCount;
+      // Values of up to 4 bytes are stored inline in the entry
+      const valueOffset = size <= 4 ? ifdOffset + 2 + at + 8 : this.u32(table, at + 8);
+      this.entries.set(tag, { type, count: valueCount, valueOffset });
+    }
+  }
+
+  read(offset: number, length: number): Buffer {
+    const buffer = Buffer.alloc(length);
+    const bytesRead = readSync(this.fd, buffer, 0, length, offset);
+    if (bytesRead < length) throw new Error(`Truncated TIFF file: ${this.path}`);
+    return buffer;
+  }
+
+  u16(buffer: Buffer, at: number): number {
+    return this.littleEndian ? buffer.readUInt16LE(at) : buffer.readUInt16BE(at);
+  }
+
+  u32(buffer: Buffer, at: number): number {
+    return this.littleEndian ? buffer.readUInt32LE(at) : buffer.readUInt32BE(at);
+  }
+
+  get isLittleEndian(): boolean {
+    return this.littleEndian;
+  }
+
+  /**
+   * Numeric values of a tag (SHORT, LONG, FLOAT or DOUBLE), or undefined when absent
+   */
+  numbers(tag: number): number[] | undefined {
+    const entry = this.entries.get(tag);
+    if (!entry) return undefined;
+    const size = FIELD_TYPE_SIZES[entry.type] ?? 1;
+    const raw = this.read(entry.valueOffset, size * entry.count);
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      const at = i * size;
+      switch (entry.type) {
+        case 3:
+          values.push(this.u16(raw, at));
+          break;
+        case 4:
+          values.push(this.u32(raw, at));
+          break;
+        case 11:
+          values.push(this.littleEndian ? raw.readFloatLE(at) : raw.readFloatBE(at));
+          break;
+        case 12:
+          values.push(this.littleEndian ? raw.readDoubleLE(at) : raw.readDoubleBE(at));
+          break;
+        default:
+          throw new Error(`Unsupported TIFF field type ${entry.type} for tag ${tag}: ${this.path}`);
+      }
+    }
+    return values;
+  }
+
+  text(tag: number): string | undefined {
+    const entry = this.entries.get(tag);
+    if (!entry) return undefined;
+    return this.read(entry.valueOffset, entry.count).toString('latin1').replace(/\0+$/, '');
+  }
+}
+
+/**
+ * Decode a TIFF LZW stream (MSB-first codes with early change, as written by libtiff)
+ */
+function decodeLzw(input: Uint8Array, expectedLength: number): Uint8Array {
+  const output = new Uint8Array(expectedLength);
+  let outPos = 0;
+  const prefixes = new Int32Array(4096);
+  const suffixes = new Uint8Array(4096);
+  for (let i = 0; i < 256; i++) suffixes[i] = i;
+
+  let bitPos = 0;
+  let codeWidth = 9;
+  let next = 258;
+  let previous = -1;
+  const stack = new Uint8Array(4096);
+
+  const readCode = () => {
+    let code = 0;
+    for (let i = 0; i < codeWidth; i++) {
+      const byte = input[bitPos >> 3] ?? 0;
+      code = (code << 1) | ((byte >> (7 - (bitPos & 7))) & 1);
+      bitPos++;
+    }
+    return code;
+  };
+
+  while (bitPos + codeWidth <= input.length * 8 && outPos < expectedLength) {
+    const code = readCode();
+    if (code === 257) break;
+    if (code === 256) {
+      codeWidth = 9;
+      next = 258;
+      previous = -1;
+      continue;
+    }
+
+    // Unwind the code into the stack (KwKwK case: code not yet in the table)
+    if (code > next || (code === next && previous === -1)) throw new Error('Corrupt LZW data in GeoTIFF');
+    let current = code < next ? code : previous;
+    let depth = 0;
+    while (current >= 256) {
+      stack[depth++] = suffixes[current];
+      current = prefixes[current];
+    }
+    stack[depth++] = current;
+    const first = current;
+    for (let i = depth - 1; i >= 0 && outPos < expectedLength; i--) output[outPos++] = stack[i];
+    if (code >= next && outPos < expectedLength) output[outPos++] = first;
+
+    if (previous !== -1 && next < 4096) {
+      prefixes[next] = previous;
+      suffixes[next] = first;
+      next++;
+    }
+    previous = code;
+    if (next + 1 >= 1 << codeWidth && codeWidth < 12) codeWidth++;
+  }
+  return output;
+}
+
+/**
+ * Undo the floating point predictor (3): bytes of each row were split into planes
+ * (most significant first) and then byte-differenced
+ */
+function undoFloatPredictor(bytes: Uint8Array, width: number, rows: number, sampleSize: number, littleEndian: boolean) {
+  const rowBytes = width * sampleSize;
+  const row = new Uint8Array(rowBytes);
+  for (let r = 0; r < rows; r++) {
+    const start = r * rowBytes;
+    if (start + rowBytes > bytes.length) break;
+    for (let i = 1; i < rowBytes; i++) bytes[start + i] = (bytes[start + i] + bytes[start + i - 1]) & 0xff;
+    row.set(bytes.subarray(start, start + rowBytes));
+    for (let k = 0; k < width; k++) {
+      for (let b = 0; b < sampleSize; b++) {
+        const target = littleEndian ? sampleSize - 1 - b : b;
+        bytes[start + k * sampleSize + target] = row[b * width + k];
+      }
+    }
+  }
+}
+
+function indexGeoTiff(path: string): DemTile {
+  const fd = openSync(path, 'r');
+  try {
+    const tiff = new TiffFile(fd, path);
+    const width = tiff.numbers(TAG_WIDTH)?.[0];
+    const height = tiff.numbers(TAG_HEIGHT)?.[0];
+    const scale = tiff.numbers(TAG_MODEL_PIXEL_SCALE);
+    const tiepoint = tiff.numbers(TAG_MODEL_TIEPOINT);
+    if (!width || !height || !scale || !tiepoint) {
+      throw new Error(`GeoTIFF lacks size or georeferencing tags: ${path}`);
+    }
+
+    const geoKeys = tiff.numbers(TAG_GEO_KEY_DIRECTORY) ?? [];
+    const geoKey = (id: number) => {
+      for (let i = 4; i + 3 < geoKeys.length; i += 4) {
+        if (geoKeys[i] === id && geoKeys[i + 1] === 0) return geoKeys[i + 3];
+      }
+      return undefined;
+    };
+    const modelType = geoKey(GEOKEY_MODEL_TYPE);
+    if (modelType !== undefined && modelType !== MODEL_TYPE_GEOGRAPHIC) {
+      throw new Error(`GeoTIFF is not in geographic (lat/lon) coordinates: ${path}`);
+    }
+
+    // Tiepoint maps raster (I, J) to model (X, Y); with PixelIsArea it names the pixel corner
+    const [tieI, tieJ, , tieX, tieY] = tiepoint;
+    const [stepLon, stepLatAbs] = scale;
+    const halfPixel = geoKey(GEOKEY_RASTER_TYPE) === RASTER_PIXEL_IS_POINT ? 0 : 0.5;
+    const originLon = tieX + (halfPixel - tieI) * stepLon;
+    const originLat = tieY - (halfPixel - tieJ) * stepLatAbs;
+    const endLon = originLon + (width - 1) * stepLon;
+    const endLat = originLat - (height - 1) * stepLatAbs;
+    // Positions between the outermost centres and the raster edge sample the edge pixels
+    const marginLon = halfPixel * Math.abs(stepLon);
+    const marginLat = halfPixel * stepLatAbs;
+
+    const noDataText = tiff.text(TAG_GDAL_NODATA);
+    const noData = noDataText !== undefined && noDataText.trim() !== '' ? Number(noDataText) : undefined;
+
+    return {
+      path,
+      format: 'geotiff',
+      originLon,
+      originLat,
+      stepLon,
+      stepLat: -stepLatAbs,
+      west: Math.min(originLon, endLon) - marginLon,
+      east: Math.max(originLon, endLon) + marginLon,
+      south: Math.min(originLat, endLat) - marginLat,
+      north: Math.max(originLat, endLat) + marginLat,
+      load: () => decodeGeoTiff(path, width, height, noData),
+    };
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function decodeGeoTiff(path: string, width: number, height: number, noData: number | undefined): Raster {
+  const fd = openSync(path, 'r');
+  try {
+    const tiff = new TiffFile(fd, path);
+    const littleEndian = tiff.isLittleEndian;
+    const bits = tiff.numbers(TAG_BITS_PER_SAMPLE)?.[0] ?? 1;
+    const format = tiff.numbers(TAG_SAMPLE_FORMAT)?.[0] ?? 1;
+    const compression = tiff.numbers(TAG_COMPRESSION)?.[0] ?? 1;
+    const predictor = tiff.numbers(TAG_PREDICTOR)?.[0] ?? 1;
+    if ((tiff.numbers(TAG_SAMPLES_PER_PIXEL)?.[0] ?? 1) !== 1) {
+      throw new Error(`Only single-band GeoTIFFs are supported: ${path}`);
+    }
+    if (![8, 16, 32, 64].includes(bits)) throw new Error(`Unsupported GeoTIFF sample size ${bits} bits: ${path}`);
+    const sampleSize = bits / 8;
+
+    const tiled = tiff.entries.has(TAG_TILE_OFFSETS);
+    const blockWidth = tiled ? tiff.numbers(TAG_TILE_WIDTH)![0] : width;
+    const blockHeight = tiled ? tiff.numbers(TAG_TILE_LENGTH)![0] : (tiff.numbers(TAG_ROWS_PER_STRIP)?.[0] ?? height);
+    const offsets = tiff.numbers(tiled ? TAG_TILE_OFFSETS : TAG_STRIP_OFFSETS)!;
+    const byteCounts = tiff.numbers(tiled ? TAG_TILE_BYTE_COUNTS : TAG_STRIP_BYTE_COUNTS)!;
+    const blocksAcross = Math.ceil(width / Math.min(blockWidth, width));
+
+    const readSample = (view: DataView, at: number): number => {
+      if (format === 3) return bits === 32 ? view.getFloat32(at, littleEndian) : view.getFloat64(at, littleEndian);
+      const signed = format === 2;
+      switch (bits) {
+        case 8:
+          return signed ? view.getInt8(at) : view.getUint8(at);
+        case 16:
+          return signed ? view.getInt16(at, littleEndian) : view.getUint16(at, littleEndian);
+        case 32:
+          return signed ? view.getInt32(at, littleEndian) : view.getUint32(at, littleEndian);
+        default:
+          throw new Error(`Unsupported 64-bit integer GeoTIFF samples: ${path}`);
+      }
+    };
+
+    const data = new Float32Array(width * height).fill(NaN);
+    const blockBytes = blockWidth * blockHeight * sampleSize;
+    for (let b = 0; b < offsets.length; b++) {
+      const raw = tiff.read(offsets[b], byteCounts[b]);
+      let bytes: Uint8Array;
+      if (compression === 1) bytes = new Uint8Array(raw);
+      else if (compression === 5) bytes = decodeLzw(raw, blockBytes);
+      else if (compression === 8 || compression === 32946) bytes = new Uint8Array(inflateSync(raw));
+      else throw new Error(`Unsupported GeoTIFF compression ${compression}: ${path}`);
+
+      const blockX = tiled ? (b % blocksAcross) * blockWidth : 0;
+      const blockY = tiled ? Math.floor(b / blocksAcross) * blockHeight : b * blockHeight;
+      const rows = Math.min(blockHeight, Math.floor(bytes.length / (blockWidth * sampleSize)));
+
+      if (predictor === 3) undoFloatPredictor(bytes, blockWidth, rows, sampleSize, littleEndian);
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+      for (let r = 0; r < rows; r++) {
+        const y = blockY + r;
+        if (y >= height) break;
+        // Horizontal differencing (predictor 2) accumulates in the integer domain
+        let accumulated = 0;
+        for (let c = 0; c < blockWidth; c++) {
+          let value = readSample(view, (r * blockWidth + c) * sampleSize);
+          if (predictor === 2) {
+            accumulated = c === 0 ? value : wrapInteger(accumulated + value, bits, format === 2);
+            value = accumulated;
+          }
+          const x = blockX + c;
+          if (x >= width) continue;
+          data[y * width + x] = value === noData ? NaN : value;
+        }
+      }
+    }
+    return { width, height, data };
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function wrapInteger(value: number, bits: number, signed: boolean): number {
+  const range = 2 ** bits;
+  let wrapped = ((value % range) + range) % range;
+  if (signed && wrapped >= range / 2) wrapped -= range;
+  return wrapped;
+}
+
+// =============================================================================
+// TILE SET
+// =============================================================================
+
+/**
+ * All DEM tiles found in one directory, sampled by geographic position
+ */
+export class DemTileSet {
+  private readonly cache = new Map<DemTile, Raster>();
+
+  private constructor(
+    private readonly tiles: DemTile[],
+    readonly formats: DemFormat[],
+  ) {}
+
+  /**
+   * Index every .hgt / .tif / .tiff file in a directory (rasters are decoded on first use)
+   */
+  static open(dir: string): DemTileSet {
+    const tiles: DemTile[] = [];
+    for (const name of readdirSync(dir).sort()) {
+      const path = join(dir, name);
+      const lower = name.toLowerCase();
+      if (lower.endsWith('.hgt')) {
+        const tile = indexHgt(path, statSync(path).size);
+        if (tile) tiles.push(tile);
+      } else if (lower.endsWith('.tif') || lower.endsWith('.tiff')) {
+        tiles.push(indexGeoTiff(path));
+      }
+    }
+    if (tiles.length === 0) throw new Error(`No .hgt or GeoTIFF tiles in DEM directory: ${dir}`);
+    const formats = [...new Set(tiles.map((tile) => tile.format))];
+    return new DemTileSet(tiles, formats);
+  }
+
+  get tileCount(): number {
+    return this.tiles.length;
+  }
+
+  /**
+   * Bilinear elevation in meters, or null outside coverage or on void cells
+   */
+  elevationAt(lat: number, lon: number): number | null {
+    for (const tile of this.tiles) {
+      if (lat < tile.south || lat > tile.north || lon < tile.west || lon > tile.east) continue;
+      const value = this.sample(tile, lat, lon);
+      if (value !== null) return value;
+    }
+    return null;
+  }
+
+  private raster(tile: DemTile): Raster {
+    let raster = this.cache.get(tile);
+    if (raster) {
+      // Refresh recency
+      this.cache.delete(tile);
+      this.cache.set(tile, raster);
+      return raster;
+    }
+    raster = tile.load();
+    this.cache.set(tile, raster);
+    if (this.cache.size > RASTER_CACHE_SIZE) this.cache.delete(this.cache.keys().next().value!);
+    return raster;
+  }
+
+  private sample(tile: DemTile, lat: number, lon: number): number | null {
+    const { width, height, data } = this.raster(tile);
+    const x = Math.min(Math.max((lon - tile.originLon) / tile.stepLon, 0), width - 1);
+    const y = Math.min(Math.max((lat - tile.originLat) / tile.stepLat, 0), height - 1);
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const x1 = Math.min(x0 + 1, width - 1);
+    const y1 = Math.min(y0 + 1, height - 1);
+    const fx = x - x0;
+    const fy = y - y0;
+
+    const corners = [
+      [data[y0 * width + x0], (1 - fx) * (1 - fy)],
+      [data[y0 * width + x1], fx * (1 - fy)],
+      [data[y1 * width + x0], (1 - fx) * fy],
+      [data[y1 * width + x1], fx * fy],
+    ];
+    // Renormalise over the non-void corners so a single void cell doesn't punch a hole
+    let sum = 0;
+    let weight = 0;
+    for (const [value, w] of corners) {
+      if (Number.isNaN(value) || w === 0) continue;
+      sum += value * w;
+      weight += w;
+    }
+    return weight > 0 ? sum / weight : null;
+  }
+}
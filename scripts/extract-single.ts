@@ -3,19 +3,69 @@
  * OSM Data Extraction Script - Single Region
  *
  * PURPOSE: Extract traffic calming and roundabout data from a single Geofabrik region
- * RESPONSIBILITY: Download PBF, filter to relevant tags, convert to JSON, compress
- * DEPENDENCIES: osmium-tool (must be installed on system), regions.json
+ * RESPONSIBILITY: Download PBF, filter to relevant tags, convert to JSON and compress, or build the database directly
+ * DEPENDENCIES: pbf-reader.ts, convert.ts, extraction-profile.ts, region-clip.ts, region-stats.ts, region-build.ts,
+ *               coord-encoding.ts, region-tiles.ts, curl, regions.json
  * CONSUMERS: GitHub Actions workflow, manual extraction
  *
- * Usage: npm run extract-single -- --region europe-great-britain
+ * Usage: npm run extract-single -- --region europe-great-britain [--output ./output] [--work-dir /tmp]
+ *        [--build [--legacy-json] [--coord-encoding e7-delta-varint] [--dem ./dem/srtm --dem-source "SRTM GL1"] [--tiles 8]]
+ *
+ * The PBF is downloaded into --work-dir and removed once read. Derived regions (a `source`
+ * and a `clip` instead of a `geofabrikPath`, see region-clip.ts) download their parent
+ * region's extract, or read a local PBF in place, and cut their area out while reading.
+ *
+ * Without --build the region is written as JSON for build-sqlite.ts: the core, ways and
+ * surfaces .json.gz (also the legacy release assets), restrictions and controls .json.gz, and
+ * {region}-extract-stats.json counting the raw surface tags that normalize to `unknown`.
+ *
+ * With --build every converted row goes straight into the region's database (region-build.ts)
+ * while the PBF is read, and {region}.sqlite.gz, {region}.stats.json and with --tiles
+ * {region}.tiles are written in the same run. None of the JSON is written, unless --legacy-json
+ * asks for the three legacy release files as well; the build options are build-sqlite.ts's.
  */
 
 import { execSync } from 'child_process';
-import { existsSync, mkdirSync, readFileSync, writeFileSync, unlinkSync, statSync, createReadStream, createWriteStream } from 'fs';
-import { gzipSync } from 'zlib';
-import { join, dirname } from 'path';
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+  unlinkSync,
+  statSync,
+  createReadStream,
+  createWriteStream,
+} from 'fs';
+import { once } from 'events';
+import { finished, pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import { basename, join, dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
-import { createInterface } from 'readline';
+import { readOsmPbf, readPbfHeader, matchesTagFilter, type OsmElement } from './pbf-reader.js';
+import {
+  CORE_FILTER,
+  HIGHWAY_FILTER,
+  CONTROL_FILTER,
+  RESTRICTION_FILTER,
+  EXTRACT_FILTER,
+  convertCoreElement,
+  convertRoundabouts,
+  isRoundaboutWay,
+  convertRoadWay,
+  convertRoadSurface,
+  convertTurnRestrictions,
+  convertIntersectionControl,
+  type BundledOSMData,
+  type CoreFeatures,
+  type RoundaboutInfo,
+  type TrafficCalmingPoint,
+} from './convert.js';
+import { resolveRegionExtract, type RegionClip, type RegionExtract, type RegionSource } from './region-clip.js';
+import { extractStatsFileName, sortCounts, type ExtractStats } from './region-stats.js';
+import { EXTRACTION_PROFILE, EXTRACTION_PROFILE_HASH } from './extraction-profile.js';
+import { openRegionBuild, type DemOptions, type RegionBuild } from './region-build.js';
+import { DEFAULT_COORD_ENCODING, parseCoordEncoding, type CoordEncoding } from './coord-encoding.js';
+import { MAX_TILE_ZOOM, MIN_TILE_ZOOM } from './region-tiles.js';
 
 // =============================================================================
 // TYPES
@@ -25,8 +75,13 @@ interface Region {
   id: string;
   name: string;
   continent: string;
+  /** ISO 3166-1 alpha-2; the dominant country for multi-country extracts */
+  countryCode?: string;
   bbox: [number, number, number, number];
-  geofabrikPath: string;
+  /** Absent for derived regions, which have a source and a clip instead */
+  geofabrikPath?: string;
+  source?: RegionSource;
+  clip?: RegionClip;
   estimatedSize: number;
 }
 
@@ -34,71 +89,39 @@ interface RegionsFile {
   regions: Region[];
 }
 
-interface GeoJSONFeature {
-  type: 'Feature';
-  id?: string;
-  properties: Record<string, unknown>;
-  geometry: {
-    type: string;
-    coordinates: unknown;
-  };
-}
-
-interface GeoJSONFeatureCollection {
-  type: 'FeatureCollection';
-  features: GeoJSONFeature[];
+interface ExtractOptions {
+  /** Insert rows straight into {region}.sqlite.gz instead of writing build-sqlite.ts inputs */
+  build: boolean;
+  /** With build, also write the legacy core, ways and surfaces .json.gz files */
+  legacyJson: boolean;
+  coordEncoding: CoordEncoding;
+  dem?: DemOptions;
+  tileZoom?: number;
 }
 
-interface TrafficCalmingPoint {
-  lat: number;
-  lon: number;
-  type: string;
-  tags?: Record<string, string>;
-  /** Second endpoint for linear features (bridges, tunnels) - enables route traversal verification */
-  endLat?: number;
-  endLon?: number;
-  /** OSM way ID for bridges/tunnels - enables deduplication of multi-segment features */
-  wayId?: number;
+/** Incremental writer for a `{ version, region, <arrayKey>: [...] }` bundle */
+interface BundledArrayWriter {
+  write(item: unknown): Promise<void>;
+  /** Close the document and resolve with the number of items written */
+  end(): Promise<number>;
 }
 
-interface RoundaboutInfo {
-  lat: number;
-  lon: number;
-  radius?: number;
-  type: 'roundabout' | 'mini_roundabout';
-}
-
-interface BundledRoadWay {
-  /** Flat array: [lon1, lat1, lon2, lat2, ...] — FULL OSM node density */
-  coords: number[];
-  /** Road classification for priority matching */
-  highway: string;
-}
+/** Fields written after the feature arrays of the core bundle, in this order */
+type CoreTrailer = Pick<BundledOSMData, 'countryCode' | 'replicationSequence' | 'profileHash'>;
 
-interface BundledWayData {
-  version: string;
-  region: string;
-  roadWays: BundledRoadWay[];
+/** Incremental conversion of the core layer, shared by the core bundle and the database build */
+interface CoreConverter {
+  /** Convert one core element, returning its traffic calming points */
+  add(element: OsmElement): TrafficCalmingPoint[];
+  /** Mini roundabouts, then the rings assembled from every roundabout way */
+  roundabouts(): RoundaboutInfo[];
 }
 
-interface BundledRoadSurface {
-  /** Normalized surface type (asphalt, gravel, etc.) */
-  surface: string;
-  /** Flat array: [lon1, lat1, lon2, lat2, ...] */
-  coords: number[];
-}
-
-interface BundledSurfaceData {
-  version: string;
-  region: string;
-  roadSurfaces: BundledRoadSurface[];
-}
-
-interface BundledOSMData {
-  version: string;
-  region: string;
-  trafficCalming: TrafficCalmingPoint[];
-  roundabouts: RoundaboutInfo[];
+/** Incremental writer for the core bundle ({@link BundledOSMData}) */
+interface CoreWriter {
+  writeTrafficCalming(point: TrafficCalmingPoint): Promise<void>;
+  /** Write the roundabouts and trailing fields and close the document */
+  end(roundabouts: RoundaboutInfo[], trailer: CoreTrailer): Promise<void>;
 }
 
 // =============================================================================
@@ -109,28 +132,14 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 const GEOFABRIK_BASE = 'https://download.geofabrik.de';
-const OUTPUT_DIR = join(__dirname, 'output');
-
-// Traffic calming types we care about
-const TRAFFIC_CALMING_TYPES = new Set([
-  'bump',
-  'mini_bumps',
-  'hump',
-  'table',
-  'cushion',
-  'dynamic_bump',
-  'dip',
-  'double_dip',
-  'chicane',
-  'choker',
-  'island',
-]);
+const DEFAULT_OUTPUT_DIR = join(__dirname, 'output');
+const DEFAULT_WORK_DIR = '/tmp';
 
 // =============================================================================
 // MAIN FUNCTIONS
 // =============================================================================
 
-async function extractRegion(regionId: string): Promise<void> {
+async function extractRegion(regionId: string, outputDir: string, workDir: string, options: ExtractOptions): Promise<void> {
   // Load regions config
   const regionsPath = join(__dirname, 'regions.json');
   const regionsData: RegionsFile = JSON.parse(readFileSync(regionsPath, 'utf-8'));
@@ -142,701 +151,411 @@ async function extractRegion(regionId: string): Promise<void> {
   }
 
   console.log(`\n========================================`);
-  console.log(`Processing: ${region.name} (${region.id})`);
+  console.log(`Processing: ${region.name} (${region.id})${options.build ? ' → SQLite' : ''}`);
   console.log(`========================================\n`);
 
-  const pbfUrl = `${GEOFABRIK_BASE}/${region.geofabrikPath}`;
-  const localPbf = `/tmp/${regionId}.osm.pbf`;
-  const filteredPbf = `/tmp/${regionId}-filtered.osm.pbf`;
-  const outputJson = join(OUTPUT_DIR, `${regionId}.json`);
-  const outputGz = join(OUTPUT_DIR, `${regionId}.json.gz`);
+  let extract: RegionExtract;
+  try {
+    extract = resolveRegionExtract(region, regionsData.regions, __dirname);
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+  const pbfUrl = extract.geofabrikPath ? `${GEOFABRIK_BASE}/${extract.geofabrikPath}` : undefined;
+  // A local source PBF is read in place and must survive the run
+  const localPbf = extract.localPbf ?? join(workDir, `${regionId}.osm.pbf`);
+  const downloadedPbf = pbfUrl ? localPbf : undefined;
+  const outputJson = join(outputDir, `${regionId}.json`);
+  const outputGz = join(outputDir, `${regionId}.json.gz`);
+  const wayOutputJson = join(outputDir, `${regionId}-ways.json`);
+  const wayOutputGz = join(outputDir, `${regionId}-ways.json.gz`);
+  const surfaceOutputJson = join(outputDir, `${regionId}-surfaces.json`);
+  const surfaceOutputGz = join(outputDir, `${regionId}-surfaces.json.gz`);
+  const restrictionOutputJson = join(outputDir, `${regionId}-restrictions.json`);
+  const restrictionOutputGz = join(outputDir, `${regionId}-restrictions.json.gz`);
+  const controlOutputJson = join(outputDir, `${regionId}-controls.json`);
+  const controlOutputGz = join(outputDir, `${regionId}-controls.json.gz`);
+  const extractStatsOutput = join(outputDir, extractStatsFileName(regionId));
+
+  // Without --build every file is written for build-sqlite.ts. With --build rows go straight
+  // into the database; the legacy release files only with --legacy-json, the build-only
+  // inputs (restrictions, controls, extract stats) never.
+  const legacyJson = !options.build || options.legacyJson;
+  const buildInputs = !options.build;
+  const totalSteps = 2 + (legacyJson ? 3 : 0) + (buildInputs ? 2 : 0) + (options.build ? 1 : 0);
+  let step = 0;
+  const logStep = (label: string): void => console.log(`[${++step}/${totalSteps}] ${label}`);
+
+  // Ensure output and work directories exist
+  for (const dir of [outputDir, workDir]) {
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+  }
 
-  // Ensure output directory exists
-  if (!existsSync(OUTPUT_DIR)) {
-    mkdirSync(OUTPUT_DIR, { recursive: true });
+  // Files this run does not write would be left over from an earlier one
+  const skipped = [
+    ...(legacyJson ? [] : [outputGz, wayOutputGz, surfaceOutputGz]),
+    ...(buildInputs ? [] : [restrictionOutputGz, controlOutputGz, extractStatsOutput]),
+  ];
+  for (const file of skipped) {
+    if (existsSync(file)) unlinkSync(file);
   }
 
+  // Outside the try so a failure can close and remove the half-written database
+  let regionBuild: RegionBuild | undefined;
   try {
-    // Step 1: Download PBF from Geofabrik
-    console.log(`[1/11] Downloading from Geofabrik...`);
-    console.log(`      URL: ${pbfUrl}`);
-    // Use curl (available on macOS) instead of wget
-    execSync(`curl -L --progress-bar -o "${localPbf}" "${pbfUrl}"`, {
-      stdio: 'inherit',
-    });
+    // Opened first so a bad DEM directory fails before the download
+    const version = new Date().toISOString().split('T')[0];
+    regionBuild = options.build
+      ? openRegionBuild({ regionId, outputDir, workDir, coordEncoding: options.coordEncoding, dem: options.dem, tileZoom: options.tileZoom })
+      : undefined;
+
+    // Step 1: Download PBF from Geofabrik (derived regions: their parent's extract or a local file)
+    if (pbfUrl) {
+      logStep('Downloading from Geofabrik...');
+      console.log(`      URL: ${pbfUrl}`);
+      // Use curl (available on macOS) instead of wget
+      execSync(`curl -L --progress-bar -o "${localPbf}" "${pbfUrl}"`, {
+        stdio: 'inherit',
+      });
+    } else {
+      logStep('Using local PBF...');
+      if (!existsSync(localPbf)) throw new Error(`Source PBF not found: ${localPbf}`);
+    }
 
     const pbfSize = statSync(localPbf).size / (1024 * 1024);
-    console.log(`      Downloaded: ${pbfSize.toFixed(1)} MB\n`);
-
-    // Step 2: Filter to only relevant tags
-    console.log(`[2/11] Filtering to traffic calming features...`);
-    // Use osmium tags-filter to extract only what we need:
-    // - n/traffic_calming (nodes with traffic calming)
-    // - n/highway=speed_camera (speed camera nodes)
-    // - n/enforcement=maxspeed (speed enforcement nodes)
-    // - w/bridge=yes (bridge ways)
-    // - w/tunnel=yes (tunnel ways)
-    // - nw/junction=roundabout (roundabout nodes and ways)
-    // - n/highway=mini_roundabout (mini roundabout nodes)
-    execSync(
-      `osmium tags-filter "${localPbf}" ` +
-        `n/traffic_calming ` +
-        `n/highway=speed_camera ` +
-        `n/enforcement=maxspeed ` +
-        `w/bridge=yes ` +
-        `w/tunnel=yes ` +
-        `nw/junction=roundabout ` +
-        `n/highway=mini_roundabout ` +
-        `-o "${filteredPbf}"`,
-      { stdio: 'inherit' }
-    );
-
-    const filteredSize = statSync(filteredPbf).size / (1024 * 1024);
-    console.log(`      Filtered size: ${filteredSize.toFixed(2)} MB\n`);
-
-    // Step 3: Export to GeoJSON
-    // Use --add-unique-id type_id to include OSM IDs (e.g., "way/12345") for deduplication
-    console.log(`[3/11] Converting to GeoJSON...`);
-    execSync(`osmium export "${filteredPbf}" -f geojson --add-unique-id=type_id -o "${outputJson}"`, {
-      stdio: 'inherit',
-    });
-
-    // Step 4: Parse GeoJSON and convert to our optimized format
-    console.log(`[4/11] Converting to optimized format...`);
-    const geojson: GeoJSONFeatureCollection = JSON.parse(
-      readFileSync(outputJson, 'utf-8')
-    );
-
-    const bundledData = convertToBundledFormat(geojson, regionId);
-
-    console.log(`      Traffic calming points: ${bundledData.trafficCalming.length}`);
-    console.log(`      Roundabouts: ${bundledData.roundabouts.length}`);
-
-    // Write the optimized JSON
-    const optimizedJson = JSON.stringify(bundledData);
-    writeFileSync(outputJson, optimizedJson);
-
-    // Step 5: Compress with gzip
-    console.log(`[5/11] Compressing with gzip...`);
-    const jsonContent = readFileSync(outputJson);
-    const compressed = gzipSync(jsonContent, { level: 9 });
-    writeFileSync(outputGz, compressed);
-
-    const jsonSize = statSync(outputJson).size / 1024;
-    const gzSize = statSync(outputGz).size / 1024;
-    console.log(`      JSON size: ${jsonSize.toFixed(1)} KB`);
-    console.log(`      Compressed size: ${gzSize.toFixed(1)} KB`);
-    console.log(`      Compression ratio: ${((1 - gzSize / jsonSize) * 100).toFixed(1)}%\n`);
-
-    // Clean up intermediate files for core data
-    unlinkSync(filteredPbf);
-    unlinkSync(outputJson); // Keep only the compressed version
-
-    console.log(`\n✓ ${region.name} core data complete: ${outputGz}`);
-    console.log(`  Final size: ${(gzSize / 1024).toFixed(2)} MB\n`);
-
-    // Step 6: Extract highway ways for dense road geometry
-    console.log(`[6/11] Filtering highway ways for road geometry...`);
-    const wayFilteredPbf = `/tmp/${regionId}-ways-filtered.osm.pbf`;
-    const wayOutputJson = join(OUTPUT_DIR, `${regionId}-ways.json`);
-    const wayOutputGz = join(OUTPUT_DIR, `${regionId}-ways.json.gz`);
-
-    execSync(
-      `osmium tags-filter "${localPbf}" ` +
-        `w/highway=motorway,motorway_link,trunk,trunk_link,` +
-        `primary,primary_link,secondary,secondary_link,tertiary,tertiary_link,` +
-        `residential,unclassified,living_street,service,track,road ` +
-        `-o "${wayFilteredPbf}"`,
-      { stdio: 'inherit' }
-    );
-
-    const wayFilteredSize = statSync(wayFilteredPbf).size / (1024 * 1024);
-    console.log(`      Filtered way size: ${wayFilteredSize.toFixed(2)} MB\n`);
-
-    // Step 7: Export ways to GeoJSON sequence (one feature per line — avoids string size limit)
-    console.log(`[7/11] Converting ways to GeoJSON sequence...`);
-    execSync(`osmium export "${wayFilteredPbf}" -f geojsonseq -o "${wayOutputJson}"`, {
-      stdio: 'inherit',
-    });
-
-    // Step 8: Convert to optimized way format (streaming read + streaming write)
-    console.log(`[8/11] Converting ways to optimized format...`);
-    const wayTmpOutput = `${wayOutputJson}.tmp`;
-    const wayCount = await streamConvertWays(wayOutputJson, wayTmpOutput, regionId);
-    console.log(`      Road ways: ${wayCount}`);
-
-    // Compress from the streamed JSON file (avoid loading into memory)
-    execSync(`gzip -9 -c "${wayTmpOutput}" > "${wayOutputGz}"`, { stdio: 'inherit' });
-    const wayJsonSize = statSync(wayTmpOutput).size / 1024;
-    const wayGzSize = statSync(wayOutputGz).size / 1024;
-    unlinkSync(wayTmpOutput);
-    console.log(`      Way JSON size: ${(wayJsonSize / 1024).toFixed(1)} MB`);
-    console.log(`      Way compressed size: ${(wayGzSize / 1024).toFixed(1)} MB`);
-    console.log(`      Compression ratio: ${((1 - wayGzSize / wayJsonSize) * 100).toFixed(1)}%\n`);
-
-    // Step 9: Extract road surfaces (highway ways with surface=* tag)
-    console.log(`[9/11] Filtering highway ways with surface tags...`);
-    const surfaceFilteredPbf = `/tmp/${regionId}-surfaces-filtered.osm.pbf`;
-    const surfaceOutputJson = join(OUTPUT_DIR, `${regionId}-surfaces.json`);
-    const surfaceOutputGz = join(OUTPUT_DIR, `${regionId}-surfaces.json.gz`);
-
-    // Two-step filter: first get highway ways, then narrow to those with surface tag.
-    // Reuse the wayFilteredPbf (already filtered to highway types) and narrow to surface=*
-    execSync(
-      `osmium tags-filter "${wayFilteredPbf}" w/surface -o "${surfaceFilteredPbf}"`,
-      { stdio: 'inherit' }
-    );
-
-    const surfaceFilteredSize = statSync(surfaceFilteredPbf).size / (1024 * 1024);
-    console.log(`      Filtered surface size: ${surfaceFilteredSize.toFixed(2)} MB\n`);
-
-    // Step 10: Export surfaces to GeoJSON sequence (one feature per line)
-    console.log(`[10/11] Converting surface ways to GeoJSON sequence...`);
-    execSync(`osmium export "${surfaceFilteredPbf}" -f geojsonseq -o "${surfaceOutputJson}"`, {
-      stdio: 'inherit',
-    });
-
-    // Step 11: Convert to optimized surface format (streaming read + streaming write)
-    console.log(`[11/11] Converting surfaces to optimized format...`);
-    const surfaceTmpOutput = `${surfaceOutputJson}.tmp`;
-    const surfaceCount = await streamConvertSurfaces(surfaceOutputJson, surfaceTmpOutput, regionId);
-    console.log(`      Road surfaces: ${surfaceCount}`);
-
-    // Compress from the streamed JSON file (avoid loading into memory)
-    execSync(`gzip -9 -c "${surfaceTmpOutput}" > "${surfaceOutputGz}"`, { stdio: 'inherit' });
-    const surfaceJsonSize = statSync(surfaceTmpOutput).size / 1024;
-    const surfaceGzSize = statSync(surfaceOutputGz).size / 1024;
-    unlinkSync(surfaceTmpOutput);
-    console.log(`      Surface JSON size: ${(surfaceJsonSize / 1024).toFixed(1)} MB`);
-    console.log(`      Surface compressed size: ${(surfaceGzSize / 1024).toFixed(1)} MB`);
-    console.log(`      Compression ratio: ${((1 - surfaceGzSize / surfaceJsonSize) * 100).toFixed(1)}%\n`);
-
-    // Clean up all remaining intermediate files
-    unlinkSync(localPbf);
-    unlinkSync(wayFilteredPbf);
-    unlinkSync(wayOutputJson);
-    unlinkSync(surfaceFilteredPbf);
-    unlinkSync(surfaceOutputJson);
-
-    console.log(`\n✓ ${region.name} complete: core + ways + surfaces`);
-    console.log(`  Core: ${(gzSize / 1024).toFixed(2)} MB, Ways: ${(wayGzSize / 1024).toFixed(2)} MB, Surfaces: ${(surfaceGzSize / 1024).toFixed(2)} MB\n`);
-  } catch (error) {
-    console.error(`\n✗ Error processing ${region.name}:`, error);
-
-    // Clean up any partial files
-    const wayFilteredPbf = `/tmp/${regionId}-ways-filtered.osm.pbf`;
-    const wayOutputJson = join(OUTPUT_DIR, `${regionId}-ways.json`);
-    const surfaceFilteredPbf = `/tmp/${regionId}-surfaces-filtered.osm.pbf`;
-    const surfaceOutputJson = join(OUTPUT_DIR, `${regionId}-surfaces.json`);
-    const wayTmpOutput = `${wayOutputJson}.tmp`;
-    const surfaceTmpOutput = `${surfaceOutputJson}.tmp`;
-    [localPbf, filteredPbf, outputJson, wayFilteredPbf, wayOutputJson, surfaceFilteredPbf, surfaceOutputJson, wayTmpOutput, surfaceTmpOutput].forEach((file) => {
-      if (existsSync(file)) {
-        try {
-          unlinkSync(file);
-        } catch {
-          // Ignore cleanup errors
+    console.log(`      ${pbfUrl ? 'Downloaded' : 'Size'}: ${pbfSize.toFixed(1)} MB`);
+    if (extract.clip) console.log(`      Source: ${extract.description}`);
+    console.log(`      Profile: ${EXTRACTION_PROFILE.name} (${EXTRACTION_PROFILE_HASH.slice(0, 12)})`);
+
+    // Replication state lets update-region.ts pick up diffs from where this extract was cut
+    const pbfHeader = await readPbfHeader(localPbf);
+    if (pbfHeader.replicationSequence !== undefined) {
+      console.log(`      Replication sequence: ${pbfHeader.replicationSequence}`);
+    }
+    console.log('');
+
+    // Step 2: Decode the PBF once, dispatching each filtered element to its layer.
+    // Every layer is streamed straight to disk or into the database; only roundabouts are
+    // held until the end, as rings are assembled from all their ways.
+    logStep(options.build ? 'Reading PBF and building the database...' : 'Reading PBF and converting features...');
+    const coreConverter = createCoreConverter();
+    const coreWriter = legacyJson ? createCoreWriter(outputJson, regionId) : undefined;
+    const wayWriter = legacyJson ? createBundledArrayWriter(wayOutputJson, regionId, 'roadWays') : undefined;
+    const surfaceWriter = legacyJson ? createBundledArrayWriter(surfaceOutputJson, regionId, 'roadSurfaces') : undefined;
+    const restrictionWriter = buildInputs ? createBundledArrayWriter(restrictionOutputJson, regionId, 'turnRestrictions') : undefined;
+    const controlWriter = buildInputs ? createBundledArrayWriter(controlOutputJson, regionId, 'intersectionControls') : undefined;
+    const unknownSurfaces: Record<string, number> = {};
+    let trafficCalmingCount = 0;
+    let wayCount = 0;
+    let surfaceCount = 0;
+    let restrictionCount = 0;
+    let controlCount = 0;
+
+    for await (const element of readOsmPbf(localPbf, EXTRACT_FILTER, extract.clip)) {
+      if (matchesTagFilter(CORE_FILTER, element)) {
+        for (const point of coreConverter.add(element)) {
+          await coreWriter?.writeTrafficCalming(point);
+          regionBuild?.trafficCalming(point);
+          trafficCalmingCount++;
         }
       }
-    });
-
-    process.exit(1);
-  }
-}
 
-/**
- * Convert GeoJSON to our optimized bundled format
- */
-function convertToBundledFormat(
-  geojson: GeoJSONFeatureCollection,
-  regionId: string
-): BundledOSMData {
-  const trafficCalming: TrafficCalmingPoint[] = [];
-  const roundabouts: RoundaboutInfo[] = [];
-
-  for (const feature of geojson.features) {
-    const props = feature.properties as Record<string, string>;
-    const geometry = feature.geometry;
-
-    // Handle Point features (nodes)
-    if (geometry.type === 'Point') {
-      const [lon, lat] = geometry.coordinates as [number, number];
-
-      // Traffic calming nodes — handle semicolon-separated values (e.g. "chicane;choker")
-      if (props.traffic_calming) {
-        const tcValues = props.traffic_calming.split(';');
-        for (const tcValue of tcValues) {
-          const trimmed = tcValue.trim();
-          if (TRAFFIC_CALMING_TYPES.has(trimmed)) {
-            trafficCalming.push({
-              lat,
-              lon,
-              type: mapTrafficCalmingType(trimmed),
-              tags: extractRelevantTags(props),
-            });
-          }
-        }
+      if (element.type === 'node') {
+        if (!matchesTagFilter(CONTROL_FILTER, element)) continue;
+        const control = convertIntersectionControl(element);
+        if (!control) continue;
+        await controlWriter?.write(control);
+        regionBuild?.intersectionControl(control);
+        controlCount++;
+        continue;
       }
 
-      // Speed cameras
-      if (props.highway === 'speed_camera' || props.enforcement === 'maxspeed') {
-        trafficCalming.push({
-          lat,
-          lon,
-          type: 'speed_camera',
-          tags: extractRelevantTags(props),
-        });
+      if (element.type === 'relation') {
+        if (!matchesTagFilter(RESTRICTION_FILTER, element)) continue;
+        for (const restriction of convertTurnRestrictions(element)) {
+          await restrictionWriter?.write(restriction);
+          regionBuild?.turnRestriction(restriction);
+          restrictionCount++;
+        }
+        continue;
       }
 
-      // Mini roundabouts (nodes)
-      if (props.highway === 'mini_roundabout') {
-        roundabouts.push({
-          lat,
-          lon,
-          type: 'mini_roundabout',
-          radius: 3, // Mini roundabouts are typically < 4m
-        });
-      }
-    }
+      if (element.type !== 'way' || !matchesTagFilter(HIGHWAY_FILTER, element)) continue;
 
-    // Handle LineString features (ways)
-    if (geometry.type === 'LineString') {
-      const coords = geometry.coordinates as [number, number][];
-
-      // Roundabout ways
-      if (props.junction === 'roundabout') {
-        const center = calculateCentroid(coords);
-        const radius = calculateMaxRadius(coords, center);
-        roundabouts.push({
-          lat: center[1],
-          lon: center[0],
-          type: 'roundabout',
-          radius: Math.round(radius),
-        });
+      const roadWay = convertRoadWay(element, region.countryCode);
+      if (roadWay) {
+        await wayWriter?.write(roadWay);
+        regionBuild?.way(roadWay);
+        wayCount++;
       }
 
-      // Bridge and tunnel ways - store BOTH endpoints for route traversal verification
-      // This enables the same endpoint-matching logic used by the Overpass API query
-      if (props.bridge === 'yes' || props.tunnel === 'yes') {
-        const [startLon, startLat] = coords[0];
-        const [endLon, endLat] = coords[coords.length - 1];
-
-        // Extract OSM way ID from feature.id
-        // osmium exports with --add-unique-id=type_id as "w12345" (w=way, n=node, r=relation)
-        // This enables deduplication of multi-segment bridges/tunnels
-        let wayId: number | undefined;
-        if (feature.id && typeof feature.id === 'string') {
-          // Handle osmium format: "w12345" or "way/12345"
-          if (feature.id.startsWith('w')) {
-            wayId = parseInt(feature.id.substring(1), 10);
-          } else if (feature.id.startsWith('way/')) {
-            wayId = parseInt(feature.id.split('/')[1], 10);
-          }
-        }
-
-        trafficCalming.push({
-          lat: startLat,
-          lon: startLon,
-          type: props.bridge === 'yes' ? 'bridge' : 'tunnel',
-          tags: extractRelevantTags(props),
-          // Store second endpoint for route traversal verification
-          endLat: endLat,
-          endLon: endLon,
-          // Store way ID for deduplication of multi-segment features
-          wayId,
-        });
+      const roadSurface = convertRoadSurface(element);
+      if (roadSurface) {
+        await surfaceWriter?.write(roadSurface);
+        regionBuild?.surface(roadSurface);
+        surfaceCount++;
       }
-    }
-
-    // Handle Polygon features (closed ways like roundabouts)
-    if (geometry.type === 'Polygon') {
-      const coords = (geometry.coordinates as [number, number][][])[0];
-
-      if (props.junction === 'roundabout') {
-        const center = calculateCentroid(coords);
-        const radius = calculateMaxRadius(coords, center);
-        roundabouts.push({
-          lat: center[1],
-          lon: center[0],
-          type: 'roundabout',
-          radius: Math.round(radius),
-        });
+      if (roadSurface?.surface === EXTRACTION_PROFILE.surfaces.fallback) {
+        const raw = element.tags.surface;
+        unknownSurfaces[raw] = (unknownSurfaces[raw] ?? 0) + 1;
       }
     }
-  }
 
-  return {
-    version: new Date().toISOString().split('T')[0],
-    region: regionId,
-    trafficCalming,
-    roundabouts,
-  };
-}
-
-/**
- * Map OSM traffic_calming tag to our simplified types
- */
-function mapTrafficCalmingType(osmType: string): string {
-  const bumpTypes = ['bump', 'mini_bumps', 'hump', 'table', 'cushion', 'dynamic_bump'];
-  const dipTypes = ['dip', 'double_dip'];
-
-  if (bumpTypes.includes(osmType)) return 'speed_bump';
-  if (dipTypes.includes(osmType)) return 'dip';
-  if (osmType === 'choker') return 'narrowing';
-  return osmType;
-}
-
-/**
- * Extract only relevant tags from properties
- */
-function extractRelevantTags(props: Record<string, string>): Record<string, string> | undefined {
-  const relevantKeys = ['name', 'maxspeed', 'surface', 'highway', 'ref'];
-  const tags: Record<string, string> = {};
-
-  for (const key of relevantKeys) {
-    if (props[key]) {
-      tags[key] = props[key];
+    await wayWriter?.end();
+    await surfaceWriter?.end();
+    await restrictionWriter?.end();
+    await controlWriter?.end();
+    if (downloadedPbf) unlinkSync(downloadedPbf);
+
+    const roundabouts = coreConverter.roundabouts();
+    for (const roundabout of roundabouts) regionBuild?.roundabout(roundabout);
+    const trailer: CoreTrailer = {
+      countryCode: region.countryCode || undefined,
+      replicationSequence: pbfHeader.replicationSequence,
+      profileHash: EXTRACTION_PROFILE_HASH,
+    };
+    const unknownTotal = Object.values(unknownSurfaces).reduce((sum, n) => sum + n, 0);
+    if (!legacyJson) {
+      console.log(`      Traffic calming points: ${trafficCalmingCount}`);
+      console.log(`      Roundabouts: ${roundabouts.length}`);
+      console.log(`      Road ways: ${wayCount}, road surfaces: ${surfaceCount}`);
+      console.log(`      Turn restrictions: ${restrictionCount}, intersection controls: ${controlCount}\n`);
     }
-  }
 
-  return Object.keys(tags).length > 0 ? tags : undefined;
-}
+    const sizes: string[] = [];
 
-/**
- * Calculate centroid of a polygon/linestring
- */
-function calculateCentroid(coords: [number, number][]): [number, number] {
-  let sumLon = 0;
-  let sumLat = 0;
+    if (coreWriter) {
+      // Step 3: Finish the core features (roundabouts, trailing fields) and compress with gzip
+      logStep('Converting core features to optimized format...');
+      await coreWriter.end(roundabouts, trailer);
 
-  for (const [lon, lat] of coords) {
-    sumLon += lon;
-    sumLat += lat;
-  }
+      console.log(`      Traffic calming points: ${trafficCalmingCount}`);
+      console.log(`      Roundabouts: ${roundabouts.length}`);
 
-  return [sumLon / coords.length, sumLat / coords.length];
-}
+      await pipeline(createReadStream(outputJson), createGzip({ level: 9 }), createWriteStream(outputGz));
 
-/**
- * Calculate maximum radius from center to any point (in meters)
- */
-function calculateMaxRadius(
-  coords: [number, number][],
-  center: [number, number]
-): number {
-  let maxDistance = 0;
-
-  for (const [lon, lat] of coords) {
-    const distance = haversineDistance(center[1], center[0], lat, lon);
-    if (distance > maxDistance) {
-      maxDistance = distance;
+      const jsonSize = statSync(outputJson).size / 1024;
+      const gzSize = statSync(outputGz).size / 1024;
+      unlinkSync(outputJson); // Keep only the compressed version
+      console.log(`      JSON size: ${jsonSize.toFixed(1)} KB`);
+      console.log(`      Compressed size: ${gzSize.toFixed(1)} KB`);
+      console.log(`      Compression ratio: ${((1 - gzSize / jsonSize) * 100).toFixed(1)}%\n`);
+      sizes.push(`Core: ${(gzSize / 1024).toFixed(2)} MB`);
     }
-  }
-
-  return maxDistance;
-}
-
-/**
- * Calculate total length of a way (in meters)
- */
-function calculateWayLength(coords: [number, number][]): number {
-  let totalLength = 0;
-
-  for (let i = 0; i < coords.length - 1; i++) {
-    const [lon1, lat1] = coords[i];
-    const [lon2, lat2] = coords[i + 1];
-    totalLength += haversineDistance(lat1, lon1, lat2, lon2);
-  }
-
-  return totalLength;
-}
-
-/**
- * Calculate distance between two points using Haversine formula
- */
-function haversineDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371000; // Earth's radius in meters
-  const dLat = toRadians(lat2 - lat1);
-  const dLon = toRadians(lon2 - lon1);
-
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRadians(lat1)) *
-      Math.cos(toRadians(lat2)) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c;
-}
-
-function toRadians(degrees: number): number {
-  return (degrees * Math.PI) / 180;
-}
-
-/**
- * Convert GeoJSON highway ways to optimized format with full node density
- */
-function convertToWayFormat(
-  geojson: GeoJSONFeatureCollection,
-  regionId: string
-): BundledWayData {
-  const roadWays: BundledRoadWay[] = [];
-
-  for (const feature of geojson.features) {
-    const props = feature.properties as Record<string, string>;
-    const geometry = feature.geometry;
-
-    // Only LineString ways (skip any Point or Polygon features)
-    if (geometry.type !== 'LineString') continue;
 
-    const highway = props.highway;
-    if (!highway) continue;
-
-    const coords = geometry.coordinates as [number, number][];
-    if (coords.length < 2) continue;
-
-    // Store as flat array [lon1, lat1, lon2, lat2, ...] at FULL OSM node density
-    const flatCoords: number[] = [];
-    for (const [lon, lat] of coords) {
-      flatCoords.push(lon, lat);
+    if (wayWriter) {
+      // Step 4: Compress road ways from the streamed JSON file (avoid loading into memory)
+      logStep('Compressing road ways...');
+      console.log(`      Road ways: ${wayCount}`);
+      execSync(`gzip -9 -c "${wayOutputJson}" > "${wayOutputGz}"`, { stdio: 'inherit' });
+      const wayJsonSize = statSync(wayOutputJson).size / 1024;
+      const wayGzSize = statSync(wayOutputGz).size / 1024;
+      unlinkSync(wayOutputJson);
+      console.log(`      Way JSON size: ${(wayJsonSize / 1024).toFixed(1)} MB`);
+      console.log(`      Way compressed size: ${(wayGzSize / 1024).toFixed(1)} MB`);
+      console.log(`      Compression ratio: ${((1 - wayGzSize / wayJsonSize) * 100).toFixed(1)}%\n`);
+      sizes.push(`Ways: ${(wayGzSize / 1024).toFixed(2)} MB`);
     }
 
-    roadWays.push({
-      coords: flatCoords,
-      highway,
-    });
-  }
-
-  return {
-    version: new Date().toISOString().split('T')[0],
-    region: regionId,
-    roadWays,
-  };
-}
-
-/**
- * Normalize raw OSM surface tag to a standardized type.
- * Must stay in sync with services/osm/roadSurface.ts normalization.
- */
-function normalizeSurfaceType(osmSurface: string): string {
-  const map: Record<string, string> = {
-    // Paved
-    'asphalt': 'asphalt',
-    'concrete': 'concrete',
-    'concrete:plates': 'concrete',
-    'concrete:lanes': 'concrete',
-    'paved': 'paved',
-    'cobblestone': 'cobblestone',
-    'cobblestone:flattened': 'cobblestone',
-    'paving_stones': 'cobblestone',
-    'sett': 'cobblestone',
-    // Unpaved
-    'gravel': 'gravel',
-    'fine_gravel': 'gravel',
-    'pebblestone': 'gravel',
-    'compacted': 'compacted',
-    'dirt': 'dirt',
-    'earth': 'dirt',
-    'mud': 'dirt',
-    'sand': 'dirt',
-    'grass': 'grass',
-    'grass_paver': 'grass',
-    'unpaved': 'unpaved',
-    'ground': 'unpaved',
-  };
-  return map[osmSurface] ?? 'unknown';
-}
-
-/**
- * Convert GeoJSON highway ways (with surface tags) to optimized surface format
- */
-function convertToSurfaceFormat(
-  geojson: GeoJSONFeatureCollection,
-  regionId: string
-): BundledSurfaceData {
-  const roadSurfaces: BundledRoadSurface[] = [];
+    if (surfaceWriter) {
+      // Step 5: Compress road surfaces from the streamed JSON file
+      logStep('Compressing road surfaces...');
+      console.log(`      Road surfaces: ${surfaceCount}`);
+      execSync(`gzip -9 -c "${surfaceOutputJson}" > "${surfaceOutputGz}"`, { stdio: 'inherit' });
+      const surfaceJsonSize = statSync(surfaceOutputJson).size / 1024;
+      const surfaceGzSize = statSync(surfaceOutputGz).size / 1024;
+      unlinkSync(surfaceOutputJson);
+      console.log(`      Surface JSON size: ${(surfaceJsonSize / 1024).toFixed(1)} MB`);
+      console.log(`      Surface compressed size: ${(surfaceGzSize / 1024).toFixed(1)} MB`);
+      console.log(`      Compression ratio: ${((1 - surfaceGzSize / surfaceJsonSize) * 100).toFixed(1)}%\n`);
+      sizes.push(`Surfaces: ${(surfaceGzSize / 1024).toFixed(2)} MB`);
+    }
 
-  for (const feature of geojson.features) {
-    const props = feature.properties as Record<string, string>;
-    const geometry = feature.geometry;
+    if (restrictionWriter) {
+      // Step 6: Compress turn restrictions (input to build-sqlite, not a release asset)
+      logStep('Compressing turn restrictions...');
+      console.log(`      Turn restrictions: ${restrictionCount}`);
+      execSync(`gzip -9 -c "${restrictionOutputJson}" > "${restrictionOutputGz}"`, { stdio: 'inherit' });
+      const restrictionGzSize = statSync(restrictionOutputGz).size / 1024;
+      unlinkSync(restrictionOutputJson);
+      console.log(`      Restriction compressed size: ${(restrictionGzSize / 1024).toFixed(1)} MB\n`);
+      sizes.push(`Restrictions: ${(restrictionGzSize / 1024).toFixed(2)} MB`);
+    }
 
-    // Only LineString ways
-    if (geometry.type !== 'LineString') continue;
+    if (controlWriter) {
+      // Step 7: Compress intersection controls (input to build-sqlite, not a release asset)
+      logStep('Compressing intersection controls...');
+      console.log(`      Intersection controls: ${controlCount}`);
+      execSync(`gzip -9 -c "${controlOutputJson}" > "${controlOutputGz}"`, { stdio: 'inherit' });
+      const controlGzSize = statSync(controlOutputGz).size / 1024;
+      unlinkSync(controlOutputJson);
+      console.log(`      Control compressed size: ${(controlGzSize / 1024).toFixed(1)} MB\n`);
+      sizes.push(`Controls: ${(controlGzSize / 1024).toFixed(2)} MB`);
+    }
 
-    const surface = props.surface;
-    if (!surface) continue;
+    if (buildInputs) {
+      // Unmapped surface values for build-sqlite.ts's stats report (not a release asset)
+      const extractStats: ExtractStats = {
+        region: regionId,
+        version,
+        unknownSurfaces: sortCounts(unknownSurfaces),
+      };
+      writeFileSync(extractStatsOutput, JSON.stringify(extractStats, null, 2) + '\n');
+    }
+    if (unknownTotal > 0) {
+      console.log(`      Unmapped surface values: ${unknownTotal} ways, ${Object.keys(unknownSurfaces).length} distinct\n`);
+    }
 
-    const coords = geometry.coordinates as [number, number][];
-    if (coords.length < 2) continue;
+    if (regionBuild) {
+      logStep('Finishing the database...');
+      await regionBuild.finish({ version, region: regionId, ...trailer }, sortCounts(unknownSurfaces));
+    }
 
-    const normalized = normalizeSurfaceType(surface);
+    const outputs = [
+      ...(legacyJson ? ['core', 'ways', 'surfaces'] : []),
+      ...(buildInputs ? ['restrictions', 'controls'] : []),
+      ...(options.build ? ['sqlite'] : []),
+    ];
+    console.log(`\n✓ ${region.name} complete: ${outputs.join(' + ')}`);
+    if (sizes.length > 0) console.log(`  ${sizes.join(', ')}\n`);
+  } catch (error) {
+    console.error(`\n✗ Error processing ${region.name}:`, error);
 
-    // Store as flat array [lon1, lat1, lon2, lat2, ...]
-    const flatCoords: number[] = [];
-    for (const [lon, lat] of coords) {
-      flatCoords.push(lon, lat);
+    // Clean up any partial files
+    try {
+      regionBuild?.abort();
+    } catch {
+      // Ignore cleanup errors
     }
-
-    roadSurfaces.push({
-      surface: normalized,
-      coords: flatCoords,
+    [downloadedPbf, outputJson, wayOutputJson, surfaceOutputJson, restrictionOutputJson, controlOutputJson].forEach((file) => {
+      if (file && existsSync(file)) {
+        try {
+          unlinkSync(file);
+        } catch {
+          // Ignore cleanup errors
+        }
+      }
     });
-  }
 
-  return {
-    version: new Date().toISOString().split('T')[0],
-    region: regionId,
-    roadSurfaces,
-  };
+    process.exit(1);
+  }
 }
 
 // =============================================================================
-// STREAMING CONVERTERS (for large files that exceed Node.js string limit)
+// STREAMING WRITERS (for large files that exceed Node.js string limit)
 // =============================================================================
 
 /**
- * Stream-read a GeoJSON sequence file and stream-write optimized way JSON.
- * Never holds all ways in memory — reads one feature at a time and writes immediately.
- * Returns the count of processed ways.
+ * Stream-write a bundled JSON document one array item at a time.
+ * Never holds the array in memory — each item is serialized and written immediately,
+ * waiting for the stream to drain when the OS buffers are full.
  */
-async function streamConvertWays(inputPath: string, outputPath: string, regionId: string): Promise<number> {
+function createBundledArrayWriter(
+  outputPath: string,
+  regionId: string,
+  arrayKey: string,
+): BundledArrayWriter {
   const ws = createWriteStream(outputPath, { encoding: 'utf-8' });
+  // Listen from the start: an 'error' without a listener would crash the process mid-pass,
+  // past the caller's cleanup. The next write or end() rethrows it instead.
+  let failure: Error | undefined;
+  ws.on('error', (err) => (failure = err));
   const version = new Date().toISOString().split('T')[0];
-  ws.write(`{"version":"${version}","region":"${regionId}","roadWays":[`);
+  ws.write(`{"version":"${version}","region":"${regionId}","${arrayKey}":[`);
 
   let count = 0;
 
-  const rl = createInterface({
-    input: createReadStream(inputPath, { encoding: 'utf-8' }),
-    crlfDelay: Infinity,
-  });
-
-  for await (const line of rl) {
-    const trimmed = line.trim().replace(/^\x1e/, '');
-    if (!trimmed) continue;
-
-    let feature: GeoJSONFeature;
-    try {
-      feature = JSON.parse(trimmed);
-    } catch {
-      continue; // Skip malformed lines
-    }
-
-    const props = feature.properties as Record<string, string>;
-    const geometry = feature.geometry;
-    if (geometry.type !== 'LineString') continue;
-
-    const highway = props.highway;
-    if (!highway) continue;
-
-    // Skip service subtypes that are never the driving road (driveways, parking aisles).
-    // These cause surface contamination when their paving_stones/cobblestone surface
-    // gets attributed to the adjacent main road via proximity matching.
-    const serviceType = props.service;
-    if (highway === 'service' && (serviceType === 'driveway' || serviceType === 'parking_aisle')) continue;
-
-    const coords = geometry.coordinates as [number, number][];
-    if (coords.length < 2) continue;
-
-    const flatCoords: number[] = [];
-    for (const [lon, lat] of coords) {
-      flatCoords.push(lon, lat);
-    }
-
-    if (count > 0) ws.write(',');
-    // Include surface tag when present — enables primary-tier surface matching
-    // on road_ways without needing separate road_surface mediation
-    const surface = props.surface ? normalizeSurfaceType(props.surface) : undefined;
-    const way: Record<string, unknown> = { coords: flatCoords, highway };
-    if (surface && surface !== 'unknown') way.surface = surface;
-    ws.write(JSON.stringify(way));
-    count++;
-  }
-
-  ws.write(']}');
-  ws.end();
+  return {
+    async write(item: unknown): Promise<void> {
+      if (failure) throw failure;
+      const ok = ws.write((count > 0 ? ',' : '') + JSON.stringify(item));
+      count++;
+      if (!ok) await once(ws, 'drain');
+    },
+
+    async end(): Promise<number> {
+      if (failure) throw failure;
+      ws.write(']}');
+      ws.end();
+
+      // Wait for the write stream to finish
+      await finished(ws);
+
+      return count;
+    },
+  };
+}
 
-  // Wait for the write stream to finish
-  await new Promise<void>((resolve, reject) => {
-    ws.on('finish', resolve);
-    ws.on('error', reject);
-  });
+/**
+ * Convert core elements as they arrive. Traffic calming points are returned at once; mini
+ * roundabouts and the geometry of roundabout ways are held, because rings are assembled
+ * from all their ways.
+ */
+function createCoreConverter(): CoreConverter {
+  // Scratch arrays for convertCoreElement; trafficCalming is drained after every element
+  const features: CoreFeatures = { trafficCalming: [], roundabouts: [] };
+  const ringWays: Parameters<typeof convertRoundabouts>[0] = [];
 
-  return count;
+  return {
+    add(element: OsmElement): TrafficCalmingPoint[] {
+      convertCoreElement(element, features);
+      if (element.type === 'way' && isRoundaboutWay(element.tags)) {
+        const { id, nodeIds, coords } = element;
+        ringWays.push({ id, tags: { junction: element.tags.junction }, nodeIds, coords });
+      }
+      const points = features.trafficCalming;
+      features.trafficCalming = [];
+      return points;
+    },
+
+    roundabouts(): RoundaboutInfo[] {
+      return [...features.roundabouts, ...convertRoundabouts(ringWays)];
+    },
+  };
 }
 
 /**
- * Stream-read a GeoJSON sequence file and stream-write optimized surface JSON.
- * Never holds all surfaces in memory — reads one feature at a time and writes immediately.
- * Returns the count of processed surfaces.
+ * Stream-write the core bundle, byte for byte what JSON.stringify(convertToBundledFormat(...))
+ * with the trailer fields set would produce. Traffic calming points are written as they are
+ * converted; the roundabouts array follows once every element has been read.
  */
-async function streamConvertSurfaces(inputPath: string, outputPath: string, regionId: string): Promise<number> {
+function createCoreWriter(outputPath: string, regionId: string): CoreWriter {
   const ws = createWriteStream(outputPath, { encoding: 'utf-8' });
+  // Errors are recorded as in createBundledArrayWriter
+  let failure: Error | undefined;
+  ws.on('error', (err) => (failure = err));
   const version = new Date().toISOString().split('T')[0];
-  ws.write(`{"version":"${version}","region":"${regionId}","roadSurfaces":[`);
-
-  let count = 0;
-
-  const rl = createInterface({
-    input: createReadStream(inputPath, { encoding: 'utf-8' }),
-    crlfDelay: Infinity,
-  });
-
-  for await (const line of rl) {
-    const trimmed = line.trim().replace(/^\x1e/, '');
-    if (!trimmed) continue;
-
-    let feature: GeoJSONFeature;
-    try {
-      feature = JSON.parse(trimmed);
-    } catch {
-      continue;
-    }
+  ws.write(`{"version":${JSON.stringify(version)},"region":${JSON.stringify(regionId)},"trafficCalming":[`);
 
-    const props = feature.properties as Record<string, string>;
-    const geometry = feature.geometry;
-    if (geometry.type !== 'LineString') continue;
+  let trafficCalmingCount = 0;
 
-    const surface = props.surface;
-    if (!surface) continue;
-
-    // Skip service subtypes that are never the driving road (driveways, parking aisles).
-    // These cause surface contamination when their paving_stones/cobblestone surface
-    // gets attributed to the adjacent main road via proximity matching.
-    const serviceType = props.service;
-    if (props.highway === 'service' && (serviceType === 'driveway' || serviceType === 'parking_aisle')) continue;
-
-    const coords = geometry.coordinates as [number, number][];
-    if (coords.length < 2) continue;
-
-    const normalized = normalizeSurfaceType(surface);
-    const flatCoords: number[] = [];
-    for (const [lon, lat] of coords) {
-      flatCoords.push(lon, lat);
-    }
-
-    if (count > 0) ws.write(',');
-    ws.write(JSON.stringify({ surface: normalized, coords: flatCoords }));
-    count++;
-  }
-
-  ws.write(']}');
-  ws.end();
+  const writeItem = async (item: unknown, index: number): Promise<void> => {
+    if (failure) throw failure;
+    const ok = ws.write((index > 0 ? ',' : '') + JSON.stringify(item));
+    if (!ok) await once(ws, 'drain');
+  };
 
-  // Wait for the write stream to finish
-  await new Promise<void>((resolve, reject) => {
-    ws.on('finish', resolve);
-    ws.on('error', reject);
-  });
+  return {
+    async writeTrafficCalming(point: TrafficCalmingPoint): Promise<void> {
+      await writeItem(point, trafficCalmingCount++);
+    },
+
+    async end(roundabouts: RoundaboutInfo[], trailer: CoreTrailer): Promise<void> {
+      ws.write('],"roundabouts":[');
+      for (let i = 0; i < roundabouts.length; i++) await writeItem(roundabouts[i], i);
+      ws.write(']');
+      for (const key of ['countryCode', 'replicationSequence', 'profileHash'] as const) {
+        if (trailer[key] !== undefined) ws.write(`,${JSON.stringify(key)}:${JSON.stringify(trailer[key])}`);
+      }
+      if (failure) throw failure;
+      ws.write('}');
+      ws.end();
 
-  return count;
+      await finished(ws);
+    },
+  };
 }
 
 // =============================================================================
@@ -845,12 +564,62 @@ async function streamConvertSurfaces(inputPath: string, outputPath: string, regi
 
 const args = process.argv.slice(2);
 const regionIndex = args.indexOf('--region');
-
-if (regionIndex === -1 || !args[regionIndex + 1]) {
-  console.error('Usage: npm run extract-single -- --region <region-id>');
+const outputIndex = args.indexOf('--output');
+const workDirIndex = args.indexOf('--work-dir');
+const encodingIndex = args.indexOf('--coord-encoding');
+const demIndex = args.indexOf('--dem');
+const demSourceIndex = args.indexOf('--dem-source');
+const tilesIndex = args.indexOf('--tiles');
+const build = args.includes('--build');
+const legacyJson = args.includes('--legacy-json');
+
+if (
+  regionIndex === -1 ||
+  !args[regionIndex + 1] ||
+  (demIndex !== -1 && !args[demIndex + 1]) ||
+  (tilesIndex !== -1 && !args[tilesIndex + 1])
+) {
+  console.error(
+    'Usage: npm run extract-single -- --region <region-id> [--output <dir>] [--work-dir <dir>] ' +
+      '[--build [--legacy-json] [--coord-encoding json|e7-delta-varint] ' +
+      `[--dem <tile-dir> [--dem-source <name>]] [--tiles <zoom ${MIN_TILE_ZOOM}-${MAX_TILE_ZOOM}>]]`,
+  );
   console.error('Example: npm run extract-single -- --region europe-great-britain');
   process.exit(1);
 }
 
+const buildOnlyOptions = ['--legacy-json', '--coord-encoding', '--dem', '--dem-source', '--tiles'].filter((name) =>
+  args.includes(name),
+);
+if (!build && buildOnlyOptions.length > 0) {
+  console.error(`${buildOnlyOptions.join(', ')} only apply with --build`);
+  process.exit(1);
+}
+
 const regionId = args[regionIndex + 1];
-extractRegion(regionId);
+const outputDir = outputIndex !== -1 && args[outputIndex + 1] ? args[outputIndex + 1] : DEFAULT_OUTPUT_DIR;
+const workDir = workDirIndex !== -1 && args[workDirIndex + 1] ? args[workDirIndex + 1] : DEFAULT_WORK_DIR;
+let coordEncoding: CoordEncoding;
+try {
+  coordEncoding = parseCoordEncoding(encodingIndex !== -1 ? args[encodingIndex + 1] : undefined);
+} catch (err) {
+  console.error((err as Error).message);
+  process.exit(1);
+}
+
+// The DEM source name defaults to the tile directory's name (e.g. "srtm-gl1")
+const dem: DemOptions | undefined =
+  demIndex !== -1
+    ? {
+        dir: args[demIndex + 1],
+        source: demSourceIndex !== -1 && args[demSourceIndex + 1] ? args[demSourceIndex + 1] : basename(resolve(args[demIndex + 1])),
+      }
+    : undefined;
+
+const tileZoom = tilesIndex !== -1 ? Number(args[tilesIndex + 1]) : undefined;
+if (tileZoom !== undefined && !(Number.isInteger(tileZoom) && tileZoom >= MIN_TILE_ZOOM && tileZoom <= MAX_TILE_ZOOM)) {
+  console.error(`--tiles must be a zoom level from ${MIN_TILE_ZOOM} to ${MAX_TILE_ZOOM}, got ${args[tilesIndex + 1]}`);
+  process.exit(1);
+}
+
+extractRegion(regionId, outputDir, workDir, { build, legacyJson, coordEncoding, dem, tileZoom });
@@ -0,0 +1,194 @@
+/**
+ * Extraction Profile
+ *
+ * PURPOSE: Single declaration of what is extracted from OSM and how tag values are mapped
+ * RESPONSIBILITY: Load and validate extraction-profile.json, compile its layer filters, profile hash
+ * DEPENDENCIES: extraction-profile.json, pbf-reader.ts (tag filter syntax)
+ * CONSUMERS: convert.ts (filters, value mappings, kept tags), extract-single.ts and update-region.ts
+ *            (profile hash into the core JSON and database metadata)
+ *
+ * extraction-profile.json declares:
+ *
+ *   layers          per layer, osmium tags-filter expressions selecting its elements; the PBF
+ *                   reader keeps the union of all filters. `highways` may add `exclude` rules
+ *                   (a way is excluded when every key of a rule has one of the listed values),
+ *                   which only its converter applies
+ *   trafficCalming  traffic_calming values to keep, mapped to the exported type
+ *   surfaces        surface values mapped to normalized types; anything else becomes `fallback`
+ *   restrictions    restriction values exported from turn restriction relations
+ *   keptTags        tags copied onto traffic calming points
+ *
+ * Every layer needs a converter in convert.ts, so the layer names are fixed; adding a layer
+ * means a converter plus its entry here. Converters test the tag keys they read (bridge,
+ * junction, highway, ...) against the layer's filter terms, so adding or removing a value
+ * within a term needs no converter change. The app's roadSurface.ts normalization should be
+ * generated from or checked against `surfaces`.
+ *
+ * The profile hash is the SHA-256 of the profile's canonical JSON (keys sorted, no
+ * whitespace), so formatting changes do not alter it. It is recorded as `profileHash` in the
+ * core JSON and in each database's metadata, telling apart data extracted under different rules.
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { parseTagFilter, type TagFilter } from './pbf-reader.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ProfileLayerName = 'core' | 'highways' | 'controls' | 'restrictions';
+
+/** Tag key → values; matches when every key has one of its values */
+export type ExcludeRule = Record<string, string[]>;
+
+export interface ProfileLayer {
+  description?: string;
+  /** osmium tags-filter expressions, e.g. `w/highway=primary,secondary` */
+  filter: string[];
+  /** Only on EXCLUDE_LAYERS; parseExtractionProfile() rejects it elsewhere */
+  exclude?: ExcludeRule[];
+}
+
+export interface ExtractionProfile {
+  formatVersion: 1;
+  name: string;
+  layers: Record<ProfileLayerName, ProfileLayer>;
+  /** OSM traffic_calming value → exported type; other values are dropped */
+  trafficCalming: Record<string, string>;
+  surfaces: { fallback: string; values: Record<string, string> };
+  restrictions: string[];
+  keptTags: string[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const PROFILE_LAYERS: readonly ProfileLayerName[] = ['core', 'highways', 'controls', 'restrictions'];
+
+// Layers whose converter applies exclude rules (isExcludedRoadWay in convert.ts)
+const EXCLUDE_LAYERS: readonly ProfileLayerName[] = ['highways'];
+
+export const DEFAULT_PROFILE_PATH = join(__dirname, 'extraction-profile.json');
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item !== '');
+}
+
+function isStringMap(value: unknown): value is Record<string, string> {
+  return isObject(value) && Object.values(value).every((item) => typeof item === 'string' && item !== '');
+}
+
+/**
+ * Parse and validate a profile; throws naming the first field that is wrong, an unknown
+ * layer, or a filter expression the tag filter cannot parse
+ */
+export function parseExtractionProfile(json: string, source: string): ExtractionProfile {
+  const profile = JSON.parse(json) as Record<string, unknown>;
+  const fail = (field: string, expected: string): never => {
+    throw new Error(`Invalid extraction profile ${source}: ${field} must be ${expected}`);
+  };
+
+  if (profile.formatVersion !== 1) fail('formatVersion', '1');
+  if (typeof profile.name !== 'string' || profile.name === '') fail('name', 'a non-empty string');
+  if (!isObject(profile.layers)) return fail('layers', 'an object');
+
+  for (const name of Object.keys(profile.layers)) {
+    if (!PROFILE_LAYERS.includes(name as ProfileLayerName)) {
+      throw new Error(`Invalid extraction profile ${source}: layer "${name}" has no converter (${PROFILE_LAYERS.join(', ')})`);
+    }
+  }
+  for (const name of PROFILE_LAYERS) {
+    const layer = profile.layers[name];
+    if (!isObject(layer)) return fail(`layers.${name}`, 'an object');
+    if (!isStringArray(layer.filter) || layer.filter.length === 0) fail(`layers.${name}.filter`, 'a non-empty string array');
+    parseTagFilter(layer.filter as string[]);
+    if (layer.exclude !== undefined) {
+      if (!EXCLUDE_LAYERS.includes(name)) {
+        throw new Error(
+          `Invalid extraction profile ${source}: layers.${name}.exclude is not applied (only ${EXCLUDE_LAYERS.join(', ')})`,
+        );
+      }
+      if (!Array.isArray(layer.exclude)) fail(`layers.${name}.exclude`, 'an array');
+      (layer.exclude as unknown[]).forEach((rule, i) => {
+        if (!isObject(rule) || Object.keys(rule).length === 0 || !Object.values(rule).every(isStringArray)) {
+          fail(`layers.${name}.exclude[${i}]`, 'an object of tag keys to value arrays');
+        }
+      });
+    }
+  }
+
+  if (!isStringMap(profile.trafficCalming)) fail('trafficCalming', 'an object of strings');
+  if (!isObject(profile.surfaces)) return fail('surfaces', 'an object');
+  if (typeof profile.surfaces.fallback !== 'string' || profile.surfaces.fallback === '') {
+    fail('surfaces.fallback', 'a non-empty string');
+  }
+  if (!isStringMap(profile.surfaces.values)) fail('surfaces.values', 'an object of strings');
+  if (!isStringArray(profile.restrictions)) fail('restrictions', 'a string array');
+  if (!isStringArray(profile.keptTags)) fail('keptTags', 'a string array');
+
+  return profile as unknown as ExtractionProfile;
+}
+
+export function loadExtractionProfile(path: string = DEFAULT_PROFILE_PATH): ExtractionProfile {
+  return parseExtractionProfile(readFileSync(path, 'utf-8'), path);
+}
+
+// =============================================================================
+// DERIVED VALUES
+// =============================================================================
+
+/** JSON with object keys sorted at every level, arrays in order */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (isObject(value)) {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Full lowercase hex SHA-256 of the profile's canonical JSON */
+export function extractionProfileHash(profile: ExtractionProfile): string {
+  return createHash('sha256').update(canonicalJson(profile)).digest('hex');
+}
+
+export function layerFilter(profile: ExtractionProfile, layer: ProfileLayerName): TagFilter {
+  return parseTagFilter(profile.layers[layer].filter);
+}
+
+/** Filter for the PBF reader: every element any layer needs */
+export function extractFilter(profile: ExtractionProfile): TagFilter {
+  return parseTagFilter(PROFILE_LAYERS.flatMap((layer) => profile.layers[layer].filter));
+}
+
+/** True when the tags match one of the layer's exclude rules */
+export function isExcluded(profile: ExtractionProfile, layer: ProfileLayerName, tags: Record<string, string>): boolean {
+  const rules = profile.layers[layer].exclude ?? [];
+  return rules.some((rule) => Object.entries(rule).every(([key, values]) => values.includes(tags[key])));
+}
+
+// =============================================================================
+// ACTIVE PROFILE
+// =============================================================================
+
+/** The profile every extraction and update runs with */
+export const EXTRACTION_PROFILE = loadExtractionProfile();
+
+export const EXTRACTION_PROFILE_HASH = extractionProfileHash(EXTRACTION_PROFILE);
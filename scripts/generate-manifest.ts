@@ -2,18 +2,52 @@
 /**
  * Generate Manifest Script
  *
- * PURPOSE: Generate manifest.json from extracted OSM data files
+ * PURPOSE: Generate manifest.json (and the signed manifest-v2.json) from extracted OSM data files
  * RESPONSIBILITY: Create a manifest with version, checksums, and file sizes for all regions
- * DEPENDENCIES: regions.json, extracted .json.gz files
+ * DEPENDENCIES: regions.json, region-db.ts, region-delta.ts, region-tiles.ts, region-stats.ts, manifest.ts,
+ *               extracted .json.gz files, databases, build-delta.ts patches, tile packs and stats reports,
+ *               dedupe-borders.ts summary
  * CONSUMERS: GitHub Actions workflow, osmDataUpdateService.ts
  *
  * Usage: npm run generate-manifest -- --input ./output --output ./output/manifest.json
+ *        [--output-v2 ./output/manifest-v2.json [--signing-key ./manifest-signing.pem]]
+ *        [--border-overlap /tmp/border-overlap.json]
+ *
+ * The v2 manifest is signed when a key is given with --signing-key or MANIFEST_SIGNING_KEY
+ * (PEM, Ed25519); the signature goes to <output-v2>.sig. --border-overlap takes the summary
+ * written by dedupe-borders.ts into each v2 region's borderOverlap.
+ *
+ * A region is any core {region}.json.gz or {region}.sqlite.gz in the input directory. Regions
+ * built without the legacy JSON (extract-single.ts --build without --legacy-json) have no core
+ * file, which every v1 entry requires; they are listed in manifest-v2.json only. The v2
+ * `assetKinds` names the kinds of asset found across all regions.
  */
 
-import { readdirSync, statSync, readFileSync, writeFileSync } from 'fs';
-import { createHash } from 'crypto';
-import { join, dirname } from 'path';
+import { existsSync, readdirSync, statSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { join, dirname, basename } from 'path';
 import { fileURLToPath } from 'url';
+import { SQLITE_LAYERS } from './region-db.js';
+import { parsePatchFileName } from './region-delta.js';
+import { readTilePackIndex, tilePackFileName } from './region-tiles.js';
+import { statsFileName } from './region-stats.js';
+import {
+  ASSET_KINDS,
+  MANIFEST_SCHEMA_VERSION,
+  SIGNING_KEY_ENV,
+  loadSigningKey,
+  publicKeyPem,
+  sha256File,
+  signManifest,
+  toV1Checksum,
+  verifyManifestV2,
+  type Manifest,
+  type ManifestAsset,
+  type ManifestAssetKind,
+  type BorderOverlapSummary,
+  type ManifestRegion,
+  type ManifestRegionV2,
+  type ManifestV2,
+} from './manifest.js';
 
 // =============================================================================
 // TYPES
@@ -24,7 +58,8 @@ interface Region {
   name: string;
   continent: string;
   bbox: [number, number, number, number];
-  geofabrikPath: string;
+  /** Absent for derived regions, which are cut from a source extract (region-clip.ts) */
+  geofabrikPath?: string;
   estimatedSize: number;
 }
 
@@ -32,22 +67,11 @@ interface RegionsFile {
   regions: Region[];
 }
 
-interface ManifestRegion {
-  name: string;
-  size: number;
-  checksum: string;
-  surfaceSize?: number;
-  surfaceChecksum?: string;
-  waySize?: number;
-  wayChecksum?: string;
-  sqliteSize?: number;
-  sqliteChecksum?: string;
-}
-
-interface Manifest {
-  version: string;
-  generatedAt: string;
-  regions: Record<string, ManifestRegion>;
+interface V2Options {
+  outputFile: string;
+  signingKeyFile?: string;
+  /** dedupe-borders.ts summary */
+  borderOverlapFile?: string;
 }
 
 // =============================================================================
@@ -57,21 +81,61 @@ interface Manifest {
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// Per-layer companion files of a region; a .json.gz without one of these suffixes is a core file
+const LAYER_FILE_SUFFIXES = ['-surfaces', '-ways', '-restrictions', '-controls'];
+
+const SQLITE_SUFFIX = '.sqlite.gz';
+
 // =============================================================================
 // FUNCTIONS
 // =============================================================================
 
-function computeChecksum(filePath: string): string {
-  const content = readFileSync(filePath);
-  return createHash('sha256').update(content).digest('hex').substring(0, 16);
+/**
+ * Size and full SHA-256 of a file in the input directory, or undefined when it is absent
+ */
+async function describeFile(inputDir: string, file: string): Promise<{ size: number; sha256: string } | undefined> {
+  const filePath = join(inputDir, file);
+  let size: number;
+  try {
+    size = statSync(filePath).size;
+  } catch {
+    return undefined;
+  }
+  return { size, sha256: await sha256File(filePath) };
 }
 
-function generateManifest(inputDir: string, outputFile: string, overrideVersion?: string): void {
+/**
+ * Write manifest-v2.json and, with a signing key, its detached signature. The signature
+ * is checked against the written bytes before returning.
+ */
+function writeManifestV2(manifest: ManifestV2, options: V2Options): void {
+  const bytes = Buffer.from(JSON.stringify(manifest, null, 2));
+  writeFileSync(options.outputFile, bytes);
+
+  const key = loadSigningKey(options.signingKeyFile);
+  if (!key) {
+    // A signature left over from an earlier run would not match the new manifest
+    if (existsSync(`${options.outputFile}.sig`)) unlinkSync(`${options.outputFile}.sig`);
+    console.log(`⚠ No signing key (--signing-key or ${SIGNING_KEY_ENV}); ${options.outputFile} is unsigned`);
+    return;
+  }
+  const signature = signManifest(bytes, key);
+  verifyManifestV2(bytes, signature, publicKeyPem(key));
+  writeFileSync(`${options.outputFile}.sig`, `${signature}\n`);
+  console.log(`✓ Signed: ${options.outputFile}.sig`);
+}
+
+async function generateManifest(
+  inputDir: string,
+  outputFile: string,
+  overrideVersion?: string,
+  v2Options?: V2Options,
+): Promise<void> {
   console.log(`\n========================================`);
   console.log(`Generating Manifest`);
   console.log(`========================================\n`);
   console.log(`Input directory: ${inputDir}`);
-  console.log(`Output file: ${outputFile}\n`);
+  console.log(`Output file: ${outputFile}${v2Options ? `, ${v2Options.outputFile}` : ''}\n`);
 
   // Load region names from regions.json
   const regionsPath = join(__dirname, 'regions.json');
@@ -82,93 +146,172 @@ function generateManifest(inputDir: string, outputFile: string, overrideVersion?
   });
 
   // Find all .json.gz files in input directory
-  const allFiles = readdirSync(inputDir).filter((f) => f.endsWith('.json.gz'));
-  // Core files are those that don't have a -surfaces or -ways suffix
+  const dirFiles = readdirSync(inputDir);
+  const allFiles = dirFiles.filter((f) => f.endsWith('.json.gz'));
+  const patchFiles = dirFiles.filter((f) => parsePatchFileName(f) !== null).sort();
+  // Core files are those without a layer suffix (-surfaces, -ways, ...)
   const coreFiles = allFiles.filter(
-    (f) => !f.includes('-surfaces') && !f.includes('-ways'),
+    (f) => !LAYER_FILE_SUFFIXES.some((suffix) => f.endsWith(`${suffix}.json.gz`)),
+  );
+  const sqliteFiles = dirFiles.filter((f) => f.endsWith(SQLITE_SUFFIX));
+  // Regions built without --legacy-json have a database but no core file
+  const regionIds = [
+    ...new Set([
+      ...coreFiles.map((f) => f.slice(0, -'.json.gz'.length)),
+      ...sqliteFiles.map((f) => f.slice(0, -SQLITE_SUFFIX.length)),
+    ]),
+  ].sort();
+  console.log(
+    `Found ${regionIds.length} regions: ${coreFiles.length} core files (${allFiles.length} total files), ${sqliteFiles.length} databases\n`,
   );
-  console.log(`Found ${coreFiles.length} core region files (${allFiles.length} total files)\n`);
 
   // Version defaults to today's date for fresh CI runs, but can be overridden
   // with --version when repairing a historical release. Repair MUST preserve the
   // original version string, otherwise all clients would see every region as
   // stale and trigger a mass re-download.
   const version = overrideVersion ?? new Date().toISOString().split('T')[0];
+  const generatedAt = new Date().toISOString();
+  const borderOverlap: BorderOverlapSummary = v2Options?.borderOverlapFile
+    ? JSON.parse(readFileSync(v2Options.borderOverlapFile, 'utf-8'))
+    : {};
   const manifest: Manifest = {
     version,
-    generatedAt: new Date().toISOString(),
+    generatedAt,
+    regions: {},
+  };
+  const manifestV2: ManifestV2 = {
+    schemaVersion: MANIFEST_SCHEMA_VERSION,
+    version,
+    generatedAt,
+    assetKinds: [],
     regions: {},
   };
 
   let totalSize = 0;
+  const v2OnlyRegions: string[] = [];
 
-  for (const file of coreFiles) {
-    const regionId = file.replace('.json.gz', '');
-    const filePath = join(inputDir, file);
-    const stats = statSync(filePath);
+  for (const regionId of regionIds) {
+    const assets: ManifestAsset[] = [];
+    const addAsset = (kind: ManifestAssetKind, assetFile: string, described: { size: number; sha256: string }) => {
+      assets.push({ kind, file: assetFile, size: described.size, sha256: described.sha256 });
+    };
 
+    // v1 entries need the core file; without it the region is listed in v2 only
+    const coreFile = `${regionId}.json.gz`;
+    const core = await describeFile(inputDir, coreFile);
     const region: ManifestRegion = {
       name: regionNames[regionId] || regionId,
-      size: stats.size,
-      checksum: computeChecksum(filePath),
+      size: core?.size ?? 0,
+      checksum: core ? toV1Checksum(core.sha256) : '',
     };
+    if (core) {
+      addAsset('core', coreFile, core);
+      totalSize += core.size;
+    }
 
-    totalSize += stats.size;
-
-    // Check for surface data file
+    // Check for surface data file — absent is fine
     const surfaceFile = `${regionId}-surfaces.json.gz`;
-    const surfacePath = join(inputDir, surfaceFile);
-    try {
-      const surfaceStats = statSync(surfacePath);
-      region.surfaceSize = surfaceStats.size;
-      region.surfaceChecksum = computeChecksum(surfacePath);
-      totalSize += surfaceStats.size;
-    } catch {
-      // No surface file — that's fine
+    const surface = await describeFile(inputDir, surfaceFile);
+    if (surface) {
+      region.surfaceSize = surface.size;
+      region.surfaceChecksum = toV1Checksum(surface.sha256);
+      addAsset('surfaces', surfaceFile, surface);
+      totalSize += surface.size;
     }
 
-    // Check for way data file
+    // Check for way data file — absent is fine
     const wayFile = `${regionId}-ways.json.gz`;
-    const wayPath = join(inputDir, wayFile);
-    try {
-      const wayStats = statSync(wayPath);
-      region.waySize = wayStats.size;
-      region.wayChecksum = computeChecksum(wayPath);
-      totalSize += wayStats.size;
-    } catch {
-      // No way file — that's fine
+    const way = await describeFile(inputDir, wayFile);
+    if (way) {
+      region.waySize = way.size;
+      region.wayChecksum = toV1Checksum(way.sha256);
+      addAsset('ways', wayFile, way);
+      totalSize += way.size;
     }
 
-    // Check for pre-built SQLite database
+    // Check for pre-built SQLite database — absent is fine, app falls back to JSON pipeline
     const sqliteFile = `${regionId}.sqlite.gz`;
-    const sqlitePath = join(inputDir, sqliteFile);
-    try {
-      const sqliteStats = statSync(sqlitePath);
-      region.sqliteSize = sqliteStats.size;
-      region.sqliteChecksum = computeChecksum(sqlitePath);
-    } catch {
-      // No SQLite file — that's fine, app falls back to JSON pipeline
+    const sqlite = await describeFile(inputDir, sqliteFile);
+    if (sqlite) {
+      region.sqliteSize = sqlite.size;
+      region.sqliteChecksum = toV1Checksum(sqlite.sha256);
+      region.sqliteLayers = SQLITE_LAYERS;
+      addAsset('sqlite', sqliteFile, sqlite);
+    }
+
+    // Patches only make sense on top of a SQLite database of the same release
+    if (sqlite) {
+      for (const patchFile of patchFiles) {
+        const patch = parsePatchFileName(patchFile)!;
+        if (patch.regionId !== regionId) continue;
+        const described = (await describeFile(inputDir, patchFile))!;
+        (region.patches ??= []).push({
+          fromVersion: patch.fromVersion,
+          toVersion: patch.toVersion,
+          file: patchFile,
+          size: described.size,
+          checksum: toV1Checksum(described.sha256),
+        });
+        assets.push({
+          kind: 'patch',
+          file: patchFile,
+          size: described.size,
+          sha256: described.sha256,
+          fromVersion: patch.fromVersion,
+          toVersion: patch.toVersion,
+        });
+      }
     }
 
-    manifest.regions[regionId] = region;
+    if (core) manifest.regions[regionId] = region;
+    else v2OnlyRegions.push(regionId);
+    const regionV2: ManifestRegionV2 = { name: region.name, assets, sqliteLayers: region.sqliteLayers };
+
+    // Tile packs are v2 only; shipped clients reading v1 download whole databases
+    const tilePackFile = tilePackFileName(regionId);
+    const tilePack = sqlite ? await describeFile(inputDir, tilePackFile) : undefined;
+    if (tilePack) {
+      const index = readTilePackIndex(join(inputDir, tilePackFile));
+      addAsset('tiles', tilePackFile, tilePack);
+      regionV2.tiles = {
+        zoom: index.zoom,
+        file: tilePackFile,
+        tiles: index.tiles.map(({ x, y, offset, size, sha256 }) => ({ x, y, offset, size, sha256 })),
+      };
+    }
+    // Stats reports are v2 only too; the next release's compare-stats.ts run reads them
+    const statsFile = statsFileName(regionId);
+    const stats = sqlite ? await describeFile(inputDir, statsFile) : undefined;
+    if (stats) addAsset('stats', statsFile, stats);
+    if (borderOverlap[regionId]) regionV2.borderOverlap = borderOverlap[regionId];
+    manifestV2.regions[regionId] = regionV2;
 
     const extras = [
       region.surfaceSize ? `surfaces: ${(region.surfaceSize / 1024).toFixed(1)} KB` : null,
       region.waySize ? `ways: ${(region.waySize / 1024).toFixed(1)} KB` : null,
       region.sqliteSize ? `sqlite: ${(region.sqliteSize / 1024 / 1024).toFixed(1)} MB` : null,
+      region.patches ? `${region.patches.length} patches` : null,
+      regionV2.tiles ? `${regionV2.tiles.tiles.length} zoom-${regionV2.tiles.zoom} tiles` : null,
     ].filter(Boolean).join(', ');
-    console.log(
-      `  ${regionId}: ${(stats.size / 1024).toFixed(1)} KB${extras ? ` (${extras})` : ''} - ${regionNames[regionId] || 'Unknown'}`
-    );
+    const coreSize = core ? `${(core.size / 1024).toFixed(1)} KB` : 'no legacy JSON, v2 only';
+    console.log(`  ${regionId}: ${coreSize}${extras ? ` (${extras})` : ''} - ${regionNames[regionId] || 'Unknown'}`);
   }
 
+  const kinds = new Set(Object.values(manifestV2.regions).flatMap((region) => region.assets.map((asset) => asset.kind)));
+  manifestV2.assetKinds = ASSET_KINDS.filter((kind) => kinds.has(kind));
+
   writeFileSync(outputFile, JSON.stringify(manifest, null, 2));
+  if (v2Options) writeManifestV2(manifestV2, v2Options);
 
   console.log(`\n----------------------------------------`);
-  console.log(`Total regions: ${Object.keys(manifest.regions).length}`);
+  console.log(`Total regions: ${regionIds.length}`);
+  if (v2OnlyRegions.length > 0) {
+    console.log(`⚠ ${v2OnlyRegions.length} regions without legacy JSON, left out of ${basename(outputFile)}: ${v2OnlyRegions.join(', ')}`);
+  }
+  console.log(`Asset kinds: ${manifestV2.assetKinds.join(', ')}`);
   console.log(`Total size: ${(totalSize / 1024 / 1024).toFixed(2)} MB`);
   console.log(`Version: ${manifest.version}`);
-  console.log(`\n✓ Manifest generated: ${outputFile}\n`);
+  console.log(`\n✓ Manifest generated: ${outputFile}${v2Options ? `, ${basename(v2Options.outputFile)}` : ''}\n`);
 }
 
 // =============================================================================
@@ -178,7 +321,10 @@ function generateManifest(inputDir: string, outputFile: string, overrideVersion?
 const args = process.argv.slice(2);
 const inputIndex = args.indexOf('--input');
 const outputIndex = args.indexOf('--output');
+const outputV2Index = args.indexOf('--output-v2');
+const signingKeyIndex = args.indexOf('--signing-key');
 const versionIndex = args.indexOf('--version');
+const borderOverlapIndex = args.indexOf('--border-overlap');
 
 const inputDir = inputIndex !== -1 && args[inputIndex + 1] ? args[inputIndex + 1] : './output';
 const outputFile =
@@ -187,5 +333,17 @@ const outputFile =
     : './output/manifest.json';
 const overrideVersion =
   versionIndex !== -1 && args[versionIndex + 1] ? args[versionIndex + 1] : undefined;
+const v2Options: V2Options | undefined =
+  outputV2Index !== -1 && args[outputV2Index + 1]
+    ? {
+        outputFile: args[outputV2Index + 1],
+        signingKeyFile: signingKeyIndex !== -1 && args[signingKeyIndex + 1] ? args[signingKeyIndex + 1] : undefined,
+        borderOverlapFile:
+          borderOverlapIndex !== -1 && args[borderOverlapIndex + 1] ? args[borderOverlapIndex + 1] : undefined,
+      }
+    : undefined;
 
-generateManifest(inputDir, outputFile, overrideVersion);
+generateManifest(inputDir, outputFile, overrideVersion, v2Options).catch((err) => {
+  console.error('\n✗ Failed to generate manifest:', err);
+  process.exit(1);
+});
@@ -23,7 +23,8 @@ interface ExtractionRegion {
   name: string;
   continent: string;
   bbox: [number, number, number, number];
-  geofabrikPath: string;
+  /** Absent for derived regions, which are cut from a source extract (region-clip.ts) */
+  geofabrikPath?: string;
   estimatedSize: number;
 }
 
@@ -0,0 +1,284 @@
+/**
+ * Geometry Helpers
+ *
+ * PURPOSE: Shared spherical geometry for OSM coordinates ([lon, lat] pairs, meters)
+ * RESPONSIBILITY: Distances, bearings, centroids, radii, way lengths and curve detection
+ * DEPENDENCIES: none
+ * CONSUMERS: convert.ts, road-graph.ts, structures.ts, roundabout-arms.ts, road-elevation.ts, region-stats.ts
+ */
+
+const EARTH_RADIUS = 6371000; // meters
+
+// Curve detection: a vertex is part of a curve when the circle through it and its
+// neighbours is tighter than CURVE_MAX_RADIUS; runs turning the same way are merged,
+// and runs turning less than CURVE_MIN_DEFLECTION in total are treated as noise.
+const CURVE_MAX_RADIUS = 500;
+const CURVE_MIN_DEFLECTION = 15;
+
+// Comfortable cornering speed v = sqrt(127 * R * (e + f)) km/h, with superelevation
+// plus side friction e + f = 0.2 (typical of advisory speed plates), rounded down to 5 km/h
+const CURVE_SIDE_FRICTION = 0.2;
+
+export interface CurveSegment {
+  /** Index of the first and last vertex of the curve within the way */
+  startIndex: number;
+  endIndex: number;
+  /** Tightest three-point radius along the curve (meters) */
+  minRadius: number;
+  direction: 'left' | 'right';
+  /** Total heading change across the curve (degrees) */
+  deflection: number;
+  /** Suggested comfortable speed (km/h) */
+  advisorySpeed: number;
+}
+
+/**
+ * Calculate centroid of a polygon/linestring
+ */
+export function calculateCentroid(coords: [number, number][]): [number, number] {
+  let sumLon = 0;
+  let sumLat = 0;
+
+  for (const [lon, lat] of coords) {
+    sumLon += lon;
+    sumLat += lat;
+  }
+
+  return [sumLon / coords.length, sumLat / coords.length];
+}
+
+/**
+ * Calculate area-weighted centroid of a closed ring (first point repeated last or not).
+ * Unlike the vertex average it is not pulled toward densely mapped sides. Falls back to
+ * the vertex average for degenerate (zero-area) rings.
+ */
+export function calculateAreaCentroid(coords: [number, number][]): [number, number] {
+  // Shoelace on coordinates relative to the first vertex keeps the products small
+  const [lon0, lat0] = coords[0];
+  const kx = Math.cos(toRadians(lat0));
+  let area2 = 0;
+  let cx = 0;
+  let cy = 0;
+
+  for (let i = 0; i < coords.length; i++) {
+    const [lonA, latA] = coords[i];
+    const [lonB, latB] = coords[(i + 1) % coords.length];
+    const xa = (lonA - lon0) * kx;
+    const ya = latA - lat0;
+    const xb = (lonB - lon0) * kx;
+    const yb = latB - lat0;
+    const cross = xa * yb - xb * ya;
+    area2 += cross;
+    cx += (xa + xb) * cross;
+    cy += (ya + yb) * cross;
+  }
+
+  if (Math.abs(area2) < 1e-18) return calculateCentroid(coords);
+  return [lon0 + cx / (3 * area2) / kx, lat0 + cy / (3 * area2)];
+}
+
+/**
+ * Calculate mean distance from center to a ring (in meters), weighted by segment length
+ * so vertex density does not bias it
+ */
+export function calculateMeanRadius(
+  coords: [number, number][],
+  center: [number, number]
+): number {
+  let weighted = 0;
+  let total = 0;
+
+  for (let i = 0; i < coords.length - 1; i++) {
+    const [lon1, lat1] = coords[i];
+    const [lon2, lat2] = coords[i + 1];
+    const length = haversineDistance(lat1, lon1, lat2, lon2);
+    weighted += length * haversineDistance(center[1], center[0], (lat1 + lat2) / 2, (lon1 + lon2) / 2);
+    total += length;
+  }
+
+  return total > 0 ? weighted / total : calculateMaxRadius(coords, center);
+}
+
+/**
+ * Calculate maximum radius from center to any point (in meters)
+ */
+export function calculateMaxRadius(
+  coords: [number, number][],
+  center: [number, number]
+): number {
+  let maxDistance = 0;
+
+  for (const [lon, lat] of coords) {
+    const distance = haversineDistance(center[1], center[0], lat, lon);
+    if (distance > maxDistance) {
+      maxDistance = distance;
+    }
+  }
+
+  return maxDistance;
+}
+
+/**
+ * Calculate total length of a way (in meters)
+ */
+export function calculateWayLength(coords: [number, number][]): number {
+  let totalLength = 0;
+
+  for (let i = 0; i < coords.length - 1; i++) {
+    const [lon1, lat1] = coords[i];
+    const [lon2, lat2] = coords[i + 1];
+    totalLength += haversineDistance(lat1, lon1, lat2, lon2);
+  }
+
+  return totalLength;
+}
+
+/**
+ * Calculate distance between two points using Haversine formula
+ */
+export function haversineDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const R = 6371000; // Earth's radius in meters
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return R * c;
+}
+
+/**
+ * Calculate initial bearing from the first point to the second (degrees clockwise from north, 0-360)
+ */
+export function calculateBearing(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const dLon = toRadians(lon2 - lon1);
+  const y = Math.sin(dLon) * Math.cos(toRadians(lat2));
+  const x =
+    Math.cos(toRadians(lat1)) * Math.sin(toRadians(lat2)) -
+    Math.sin(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.cos(dLon);
+
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+export function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Radius of the circle through three points (in meters), Infinity when they are collinear.
+ * Uses a local equirectangular projection around the middle point, exact enough at
+ * road-vertex spacing.
+ */
+export function calculateCircumradius(
+  a: [number, number],
+  b: [number, number],
+  c: [number, number]
+): number {
+  const [ax, ay, bx, by, cx, cy] = projectLocal(a, b, c);
+  const ab = Math.hypot(bx - ax, by - ay);
+  const bc = Math.hypot(cx - bx, cy - by);
+  const ca = Math.hypot(ax - cx, ay - cy);
+  const doubleArea = Math.abs((bx - ax) * (cy - ay) - (by - ay) * (cx - ax));
+  if (doubleArea === 0) return Infinity;
+  return (ab * bc * ca) / (2 * doubleArea);
+}
+
+/**
+ * Suggested comfortable speed (km/h) for a curve of the given radius (in meters)
+ */
+export function calculateAdvisorySpeed(radius: number): number {
+  return Math.max(5, Math.floor(Math.sqrt(127 * radius * CURVE_SIDE_FRICTION) / 5) * 5);
+}
+
+/**
+ * Find curves along a polyline: consecutive vertices with a tight three-point radius
+ * turning the same way are merged into one segment spanning from the vertex before the
+ * first to the vertex after the last.
+ */
+export function detectCurves(coords: [number, number][]): CurveSegment[] {
+  const curves: CurveSegment[] = [];
+  let current: CurveSegment | null = null;
+
+  const close = () => {
+    if (current && current.deflection >= CURVE_MIN_DEFLECTION) {
+      current.minRadius = Math.round(current.minRadius);
+      current.deflection = Math.round(current.deflection);
+      current.advisorySpeed = calculateAdvisorySpeed(current.minRadius);
+      curves.push(current);
+    }
+    current = null;
+  };
+
+  for (let i = 1; i < coords.length - 1; i++) {
+    const [ax, ay, bx, by, cx, cy] = projectLocal(coords[i - 1], coords[i], coords[i + 1]);
+    const inX = bx - ax;
+    const inY = by - ay;
+    const outX = cx - bx;
+    const outY = cy - by;
+    const radius = calculateCircumradius(coords[i - 1], coords[i], coords[i + 1]);
+    // Zero-length segments (duplicate vertices) carry no direction
+    if ((inX === 0 && inY === 0) || (outX === 0 && outY === 0) || radius > CURVE_MAX_RADIUS) {
+      close();
+      continue;
+    }
+
+    const cross = inX * outY - inY * outX;
+    const turn = (Math.atan2(cross, inX * outX + inY * outY) * 180) / Math.PI;
+    const direction = cross > 0 ? 'left' : 'right';
+
+    if (current && current.direction === direction && current.endIndex === i) {
+      current.endIndex = i + 1;
+      current.minRadius = Math.min(current.minRadius, radius);
+      current.deflection += Math.abs(turn);
+    } else {
+      close();
+      current = {
+        startIndex: i - 1,
+        endIndex: i + 1,
+        minRadius: radius,
+        direction,
+        deflection: Math.abs(turn),
+        advisorySpeed: 0,
+      };
+    }
+  }
+  close();
+
+  return curves;
+}
+
+/**
+ * Project three [lon, lat] points to local x/y meters around the middle one
+ */
+function projectLocal(
+  a: [number, number],
+  b: [number, number],
+  c: [number, number]
+): [number, number, number, number, number, number] {
+  const metersPerDegree = toRadians(1) * EARTH_RADIUS;
+  const kx = metersPerDegree * Math.cos(toRadians(b[1]));
+  return [
+    (a[0] - b[0]) * kx,
+    (a[1] - b[1]) * metersPerDegree,
+    0,
+    0,
+    (c[0] - b[0]) * kx,
+    (c[1] - b[1]) * metersPerDegree,
+  ];
+}
@@ -0,0 +1,309 @@
+/**
+ * Manifest Format
+ *
+ * PURPOSE: Shared definition of manifest.json (v1) and the signed manifest-v2.json
+ * RESPONSIBILITY: Manifest types, streamed SHA-256 of assets, Ed25519 signing and verification
+ * DEPENDENCIES: none (node:crypto)
+ * CONSUMERS: generate-manifest.ts; clients port verifyManifestV2
+ *
+ * v1 (manifest.json) is what shipped clients read: flat per-region size/checksum fields,
+ * checksums truncated to 16 hex characters. It is still written unchanged, for the regions
+ * that have the legacy core JSON its entries require.
+ *
+ * v2 (manifest-v2.json) lists every file of a region as an asset with its kind, full
+ * SHA-256 and size, and carries `schemaVersion: 2`; manifest-v2.schema.json is its JSON
+ * Schema. `assetKinds` lists the kinds of asset the release contains, so a client can tell a
+ * release without the legacy JSON (core, surfaces, ways) before looking at any region.
+ * It is signed with Ed25519: `manifest-v2.json.sig` holds the base64 signature
+ * over the exact bytes of manifest-v2.json. Clients verify the signature before parsing,
+ * so a tampered or truncated manifest is rejected as a whole.
+ *
+ * Regions built with `--tiles` also list a `tiles` asset (the tile pack)
+ * and a `tiles` index with every tile's byte range and SHA-256 inside it, so clients can
+ * fetch and check single tiles without trusting the pack's own index.
+ *
+ * A `stats` asset is the region's build report ({region}.stats.json, see region-stats.ts),
+ * which the next release's compare-stats.ts run diffs against.
+ *
+ * After dedupe-borders.ts has run, a region's `borderOverlap` counts, per neighbouring
+ * region, the features both databases carry and how many of them this region owns.
+ */
+
+import { createReadStream, readFileSync } from 'fs';
+import { createHash, createPrivateKey, createPublicKey, sign, verify, type KeyObject } from 'crypto';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ManifestPatch {
+  fromVersion: string;
+  toVersion: string;
+  file: string;
+  size: number;
+  checksum: string;
+}
+
+export interface ManifestRegion {
+  name: string;
+  size: number;
+  checksum: string;
+  surfaceSize?: number;
+  surfaceChecksum?: string;
+  waySize?: number;
+  wayChecksum?: string;
+  sqliteSize?: number;
+  sqliteChecksum?: string;
+  /** Tables present in the SQLite database (e.g. intersection_controls) */
+  sqliteLayers?: string[];
+  /** Row-level patches to the SQLite database from earlier versions (build-delta.ts) */
+  patches?: ManifestPatch[];
+}
+
+export interface Manifest {
+  version: string;
+  generatedAt: string;
+  regions: Record<string, ManifestRegion>;
+}
+
+export type ManifestAssetKind = 'core' | 'surfaces' | 'ways' | 'sqlite' | 'patch' | 'tiles' | 'stats';
+
+export interface ManifestAsset {
+  kind: ManifestAssetKind;
+  file: string;
+  size: number;
+  /** Full lowercase hex SHA-256 of the file */
+  sha256: string;
+  /** Patch assets only: the database version the patch applies to and produces */
+  fromVersion?: string;
+  toVersion?: string;
+}
+
+export interface ManifestTile {
+  x: number;
+  y: number;
+  /** Byte range of the gzipped tile database inside the pack */
+  offset: number;
+  size: number;
+  sha256: string;
+}
+
+/** Tile index of a region's tile pack (region-tiles.ts) */
+export interface ManifestTiles {
+  zoom: number;
+  /** File name of the pack, also listed as a `tiles` asset */
+  file: string;
+  tiles: ManifestTile[];
+}
+
+/** Features a region shares with one neighbouring region (dedupe-borders.ts) */
+export interface ManifestBorderOverlap {
+  /** OSM elements both region databases carry */
+  shared: number;
+  /** Of those, the ones this region owns (border_duplicates.owner) */
+  owned: number;
+}
+
+/** dedupe-borders.ts summary: region id → neighbour id → overlap */
+export type BorderOverlapSummary = Record<string, Record<string, ManifestBorderOverlap>>;
+
+export interface ManifestRegionV2 {
+  name: string;
+  assets: ManifestAsset[];
+  sqliteLayers?: string[];
+  tiles?: ManifestTiles;
+  borderOverlap?: Record<string, ManifestBorderOverlap>;
+}
+
+export interface ManifestV2 {
+  schemaVersion: 2;
+  version: string;
+  generatedAt: string;
+  /** Kinds of asset any region of the release has, in ASSET_KINDS order; absent in manifests before it was added */
+  assetKinds?: ManifestAssetKind[];
+  regions: Record<string, ManifestRegionV2>;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const MANIFEST_SCHEMA_VERSION = 2;
+
+/** Environment variable holding the PEM-encoded Ed25519 private signing key */
+export const SIGNING_KEY_ENV = 'MANIFEST_SIGNING_KEY';
+
+// Characters of the SHA-256 hex digest kept in v1 checksums
+const V1_CHECKSUM_LENGTH = 16;
+
+const ED25519_SIGNATURE_BYTES = 64;
+
+export const ASSET_KINDS: readonly ManifestAssetKind[] = ['core', 'surfaces', 'ways', 'sqlite', 'patch', 'tiles', 'stats'];
+
+// =============================================================================
+// CHECKSUMS
+// =============================================================================
+
+/**
+ * Full hex SHA-256 of a file, read as a stream so release-sized databases never sit in memory
+ */
+export function sha256File(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+/**
+ * v1 checksum: the first 16 hex characters of the SHA-256
+ */
+export function toV1Checksum(sha256: string): string {
+  return sha256.substring(0, V1_CHECKSUM_LENGTH);
+}
+
+// =============================================================================
+// SIGNING
+// =============================================================================
+
+/**
+ * Load the Ed25519 signing key from a PEM file, or from MANIFEST_SIGNING_KEY when no
+ * file is given. Returns undefined when neither is set.
+ */
+export function loadSigningKey(keyFile?: string): KeyObject | undefined {
+  const pem = keyFile ? readFileSync(keyFile, 'utf-8') : process.env[SIGNING_KEY_ENV];
+  if (!pem) return undefined;
+  const key = createPrivateKey(pem);
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`Manifest signing key must be Ed25519, got ${key.asymmetricKeyType}`);
+  }
+  return key;
+}
+
+/**
+ * Detached signature (base64) over the exact manifest bytes
+ */
+export function signManifest(manifestBytes: Buffer, privateKey: KeyObject): string {
+  return sign(null, manifestBytes, privateKey).toString('base64');
+}
+
+/**
+ * Public key of a signing key as SPKI PEM, the form clients embed
+ */
+export function publicKeyPem(privateKey: KeyObject): string {
+  return createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString();
+}
+
+// =============================================================================
+// VERIFICATION
+// =============================================================================
+
+/**
+ * Check the signature of manifest-v2.json bytes, then its structure. Throws on a bad or
+ * missing signature (tampered, truncated, signed by another key) and on anything that
+ * does not follow manifest-v2.schema.json; returns the parsed manifest otherwise.
+ */
+export function verifyManifestV2(
+  manifestBytes: Buffer,
+  signatureBase64: string,
+  publicKey: KeyObject | string,
+): ManifestV2 {
+  const signature = Buffer.from(signatureBase64.trim(), 'base64');
+  if (signature.length !== ED25519_SIGNATURE_BYTES) {
+    throw new Error(`Manifest signature must be ${ED25519_SIGNATURE_BYTES} bytes, got ${signature.length}`);
+  }
+  const key = typeof publicKey === 'string' ? createPublicKey(publicKey) : publicKey;
+  if (!verify(null, manifestBytes, key, signature)) {
+    throw new Error('Manifest signature does not match: the manifest was modified or truncated');
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(manifestBytes.toString('utf-8'));
+  } catch {
+    throw new Error('Manifest is not valid JSON');
+  }
+  assertManifestV2(manifest);
+  return manifest;
+}
+
+/**
+ * Structural check mirroring manifest-v2.schema.json
+ */
+export function assertManifestV2(value: unknown): asserts value is ManifestV2 {
+  const fail = (path: string, expected: string): never => {
+    throw new Error(`Invalid manifest: ${path} must be ${expected}`);
+  };
+  const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+  const isSize = (v: unknown) => Number.isInteger(v) && (v as number) >= 0;
+  const isSha256 = (v: unknown) => typeof v === 'string' && /^[0-9a-f]{64}$/.test(v);
+
+  if (!isObject(value)) return fail('manifest', 'an object');
+  if (value.schemaVersion !== MANIFEST_SCHEMA_VERSION) fail('schemaVersion', String(MANIFEST_SCHEMA_VERSION));
+  if (typeof value.version !== 'string') fail('version', 'a string');
+  if (typeof value.generatedAt !== 'string') fail('generatedAt', 'a string');
+  if (value.assetKinds !== undefined) {
+    if (!Array.isArray(value.assetKinds) || value.assetKinds.some((kind) => !ASSET_KINDS.includes(kind))) {
+      fail('assetKinds', `an array of ${ASSET_KINDS.join(' | ')}`);
+    }
+  }
+  if (!isObject(value.regions)) return fail('regions', 'an object');
+
+  for (const [regionId, region] of Object.entries(value.regions)) {
+    const at = `regions.${regionId}`;
+    if (!isObject(region)) return fail(at, 'an object');
+    if (typeof region.name !== 'string') fail(`${at}.name`, 'a string');
+    if (region.sqliteLayers !== undefined) {
+      if (!Array.isArray(region.sqliteLayers) || region.sqliteLayers.some((layer) => typeof layer !== 'string')) {
+        fail(`${at}.sqliteLayers`, 'an array of strings');
+      }
+    }
+    if (!Array.isArray(region.assets)) return fail(`${at}.assets`, 'an array');
+    region.assets.forEach((asset: unknown, i: number) => {
+      const assetAt = `${at}.assets[${i}]`;
+      if (!isObject(asset)) return fail(assetAt, 'an object');
+      if (!ASSET_KINDS.includes(asset.kind as ManifestAssetKind)) fail(`${assetAt}.kind`, ASSET_KINDS.join(' | '));
+      if (typeof asset.file !== 'string' || asset.file === '') fail(`${assetAt}.file`, 'a file name');
+      if (!isSize(asset.size)) fail(`${assetAt}.size`, 'a non-negative integer');
+      if (!isSha256(asset.sha256)) fail(`${assetAt}.sha256`, '64 lowercase hex characters');
+      if (asset.kind === 'patch' && (typeof asset.fromVersion !== 'string' || typeof asset.toVersion !== 'string')) {
+        fail(`${assetAt}.fromVersion/toVersion`, 'strings on patch assets');
+      }
+    });
+    if (region.tiles !== undefined) {
+      const tiles = region.tiles;
+      if (!isObject(tiles)) return fail(`${at}.tiles`, 'an object');
+      if (!isSize(tiles.zoom)) fail(`${at}.tiles.zoom`, 'a non-negative integer');
+      if (typeof tiles.file !== 'string' || tiles.file === '') fail(`${at}.tiles.file`, 'a file name');
+      if (!Array.isArray(tiles.tiles)) return fail(`${at}.tiles.tiles`, 'an array');
+      tiles.tiles.forEach((tile: unknown, i: number) => {
+        const tileAt = `${at}.tiles.tiles[${i}]`;
+        if (!isObject(tile)) return fail(tileAt, 'an object');
+        for (const field of ['x', 'y', 'offset', 'size']) {
+          if (!isSize(tile[field])) fail(`${tileAt}.${field}`, 'a non-negative integer');
+        }
+        if (!isSha256(tile.sha256)) fail(`${tileAt}.sha256`, '64 lowercase hex characters');
+      });
+    }
+    if (region.borderOverlap !== undefined) {
+      if (!isObject(region.borderOverlap)) return fail(`${at}.borderOverlap`, 'an object');
+      for (const [neighbourId, overlap] of Object.entries(region.borderOverlap)) {
+        const overlapAt = `${at}.borderOverlap.${neighbourId}`;
+        if (!isObject(overlap)) return fail(overlapAt, 'an object');
+        if (!isSize(overlap.shared)) fail(`${overlapAt}.shared`, 'a non-negative integer');
+        if (!isSize(overlap.owned)) fail(`${overlapAt}.owned`, 'a non-negative integer');
+      }
+    }
+  }
+
+  if (value.assetKinds !== undefined) {
+    const regions = Object.values(value.regions) as ManifestRegionV2[];
+    const listed = new Set(regions.flatMap((region) => region.assets.map((asset) => asset.kind)));
+    const declared = new Set(value.assetKinds as ManifestAssetKind[]);
+    if (listed.size !== declared.size || [...listed].some((kind) => !declared.has(kind))) {
+      fail('assetKinds', `the kinds of the listed assets (${ASSET_KINDS.filter((kind) => listed.has(kind)).join(', ')})`);
+    }
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * OsmChange Reader
+ *
+ * PURPOSE: Parse OsmChange replication diffs (.osc / .osc.gz) without an XML dependency
+ * RESPONSIBILITY: Tokenize osmChange XML, merge create/modify/delete actions across files
+ * DEPENDENCIES: none (zlib from Node.js for .gz input)
+ * CONSUMERS: update-region.ts
+ *
+ * Format reference: https://wiki.openstreetmap.org/wiki/OsmChange
+ *
+ * Diffs are machine-written (osmosis / osmium / the OSM API), so a small tag scanner is
+ * enough: `<create|modify|delete>` blocks containing `<node>`, `<way>` and `<relation>`
+ * elements with `<tag>`, `<nd>` and `<member>` children.
+ */
+
+import { createReadStream } from 'fs';
+import { createGunzip } from 'zlib';
+import type { OsmRelationMember, OsmTags } from './pbf-reader.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ChangeAction = 'create' | 'modify' | 'delete';
+
+export interface ChangedNode {
+  action: ChangeAction;
+  id: number;
+  /** Absent on deletes written without coordinates */
+  lat?: number;
+  lon?: number;
+  tags: OsmTags;
+}
+
+export interface ChangedWay {
+  action: ChangeAction;
+  id: number;
+  tags: OsmTags;
+  refs: number[];
+}
+
+export interface ChangedRelation {
+  action: ChangeAction;
+  id: number;
+  tags: OsmTags;
+  /** Members as listed in the diff — no geometry attached */
+  members: OsmRelationMember[];
+}
+
+/** Net effect of one or more diffs — the last action per element wins */
+export interface OsmChangeSet {
+  nodes: Map<number, ChangedNode>;
+  ways: Map<number, ChangedWay>;
+  relations: Map<number, ChangedRelation>;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const ACTIONS = new Set<string>(['create', 'modify', 'delete']);
+
+const MEMBER_TYPES = new Set<string>(['node', 'way', 'relation']);
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+const ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+// =============================================================================
+// XML HELPERS
+// =============================================================================
+
+function decodeXmlEntities(value: string): string {
+  if (!value.includes('&')) return value;
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.substring(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.substring(1), 10));
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_PATTERN.exec(source)) !== null) {
+    attrs[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? '');
+  }
+  return attrs;
+}
+
+/**
+ * Yield the inner text of every `<...>` markup token in a stream of XML text chunks.
+ * Comments, processing instructions and text content are dropped.
+ */
+async function* scanTags(chunks: AsyncIterable<string>): AsyncGenerator<string> {
+  let pending = '';
+  for await (const chunk of chunks) {
+    pending += chunk;
+    let start = pending.indexOf('<');
+    while (start !== -1) {
+      const end = pending.indexOf('>', start);
+      if (end === -1) break;
+      const token = pending.substring(start + 1, end);
+      if (!token.startsWith('?') && !token.startsWith('!')) yield token;
+      start = pending.indexOf('<', end);
+    }
+    pending = start === -1 ? '' : pending.substring(start);
+  }
+}
+
+function openText(path: string): AsyncIterable<string> {
+  const stream = createReadStream(path);
+  const source = path.endsWith('.gz') ? stream.pipe(createGunzip()) : stream;
+  source.setEncoding('utf-8');
+  return source;
+}
+
+// =============================================================================
+// PUBLIC READER
+// =============================================================================
+
+/**
+ * Read OsmChange files in order and merge them into one change set.
+ * Files must be passed oldest first; a later action on the same element replaces an earlier one.
+ */
+export async function readOsmChangeFiles(paths: string[]): Promise<OsmChangeSet> {
+  const changes: OsmChangeSet = { nodes: new Map(), ways: new Map(), relations: new Map() };
+
+  for (const path of paths) {
+    let action: ChangeAction | null = null;
+    let node: ChangedNode | null = null;
+    let way: ChangedWay | null = null;
+    let relation: ChangedRelation | null = null;
+
+    for await (const token of scanTags(openText(path))) {
+      const selfClosing = token.endsWith('/');
+      const body = selfClosing ? token.substring(0, token.length - 1) : token;
+
+      if (body.startsWith('/')) {
+        const name = body.substring(1).trim();
+        if (ACTIONS.has(name)) action = null;
+        else if (name === 'node' && node) {
+          changes.nodes.set(node.id, node);
+          node = null;
+        } else if (name === 'way' && way) {
+          changes.ways.set(way.id, way);
+          way = null;
+        } else if (name === 'relation' && relation) {
+          changes.relations.set(relation.id, relation);
+          relation = null;
+        }
+        continue;
+      }
+
+      const space = body.search(/\s/);
+      const name = space === -1 ? body : body.substring(0, space);
+
+      if (ACTIONS.has(name)) {
+        action = name as ChangeAction;
+        continue;
+      }
+      if (!action) continue;
+
+      if (name === 'node') {
+        const attrs = parseAttributes(body);
+        const parsed: ChangedNode = { action, id: Number(attrs.id), tags: {} };
+        if (attrs.lat !== undefined && attrs.lon !== undefined) {
+          parsed.lat = Number(attrs.lat);
+          parsed.lon = Number(attrs.lon);
+        }
+        if (selfClosing) changes.nodes.set(parsed.id, parsed);
+        else node = parsed;
+      } else if (name === 'way') {
+        const attrs = parseAttributes(body);
+        const parsed: ChangedWay = { action, id: Number(attrs.id), tags: {}, refs: [] };
+        if (selfClosing) changes.ways.set(parsed.id, parsed);
+        else way = parsed;
+      } else if (name === 'relation') {
+        const attrs = parseAttributes(body);
+        const parsed: ChangedRelation = { action, id: Number(attrs.id), tags: {}, members: [] };
+        if (selfClosing) changes.relations.set(parsed.id, parsed);
+        else relation = parsed;
+      } else if (name === 'tag') {
+        const attrs = parseAttributes(body);
+        const target = node ?? way ?? relation;
+        if (target && attrs.k !== undefined) target.tags[attrs.k] = attrs.v ?? '';
+      } else if (name === 'nd' && way) {
+        way.refs.push(Number(parseAttributes(body).ref));
+      } else if (name === 'member' && relation) {
+        const attrs = parseAttributes(body);
+        if (MEMBER_TYPES.has(attrs.type)) {
+          relation.members.push({
+            type: attrs.type as OsmRelationMember['type'],
+            ref: Number(attrs.ref),
+            role: attrs.role ?? '',
+          });
+        }
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Read the sequence number from an osmosis replication state.txt
+ * (`sequenceNumber=4123`, as published next to every Geofabrik diff).
+ */
+export async function readReplicationSequence(statePath: string): Promise<number> {
+  let text = '';
+  for await (const chunk of openText(statePath)) text += chunk;
+  const match = text.match(/^sequenceNumber=(\d+)/m);
+  if (!match) throw new Error(`No sequenceNumber in replication state file: ${statePath}`);
+  return Number(match[1]);
+}
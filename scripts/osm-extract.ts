@@ -0,0 +1,474 @@
+#!/usr/bin/env node
+/**
+ * OSM Extract CLI
+ *
+ * PURPOSE: One entry point for producing a full release on a single machine
+ * RESPONSIBILITY: Region selection, bounded per-region job pool, shared --output/--work-dir,
+ *                 summary and exit status of failed regions
+ * DEPENDENCIES: regions.json, region-clip.ts, extract-single.ts, build-sqlite.ts, dedupe-borders.ts,
+ *               generate-manifest.ts, verify-manifest.ts
+ * CONSUMERS: Local and manual release runs
+ *
+ * Usage: npm run osm-extract -- <command> [options]
+ *
+ *   regions   [selection] [--json]                 List the selected regions (all by default), largest first
+ *   extract   <selection> [--build [--legacy-json]] [pool] [build options]
+ *                                                  Download and convert each region (extract-single.ts);
+ *                                                  --build inserts straight into its SQLite database in the
+ *                                                  same pass, writing the legacy JSON files only with --legacy-json
+ *   build     <selection> [pool] [build options]   Build {region}.sqlite.gz from extracted files (build-sqlite.ts)
+ *   borders                                        Mark features shared with neighbouring regions in every
+ *                                                  database of the output directory (dedupe-borders.ts)
+ *   manifest  [--version YYYY-MM-DD] [--signing-key <pem>]
+ *                                                  manifest.json and manifest-v2.json for the output directory,
+ *                                                  with the border overlap of the last borders run
+ *   verify    [--manifest <file>] [--checksums] [--public-key <pem>] [--report <file>]
+ *                                                  Check the output directory against its manifest
+ *
+ *   selection:      --region <id>[,<id>...] and/or --continent <name>[,<name>...] (both repeatable), or --all
+ *   pool:           --concurrency <n> regions at a time (default 2)
+ *   build options:  --coord-encoding, --dem, --dem-source, --tiles (passed to build-sqlite.ts or extract-single.ts --build)
+ *   every command:  --output <dir> (default scripts/output), --work-dir <dir> (default scripts/work)
+ *
+ * A full release: extract --all --build (with --legacy-json while the legacy JSON assets are
+ * still published), then borders, then manifest, then verify.
+ *
+ * Each region runs in its own child process (extraction can need several GB of memory), writing
+ * to <work-dir>/logs/<region>.log. Regions start in order of estimatedSize, largest first, so
+ * the longest jobs do not trail at the end. A failed region does not stop the others; the run
+ * exits 1 after listing every failed region with the tail of its log.
+ */
+
+import { spawn, type StdioOptions } from 'child_process';
+import { closeSync, copyFileSync, existsSync, mkdirSync, openSync, readFileSync } from 'fs';
+import { join, dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { resolveRegionExtract, type RegionClip, type RegionSource } from './region-clip.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface Region {
+  id: string;
+  name: string;
+  continent: string;
+  bbox: [number, number, number, number];
+  /** Absent for derived regions (region-clip.ts) */
+  geofabrikPath?: string;
+  source?: RegionSource;
+  clip?: RegionClip;
+  estimatedSize: number;
+}
+
+interface RegionsFile {
+  regions: Region[];
+}
+
+type Command = 'regions' | 'extract' | 'build' | 'borders' | 'manifest' | 'verify';
+
+interface Directories {
+  outputDir: string;
+  workDir: string;
+}
+
+/** One script run for a region */
+interface RegionStep {
+  name: string;
+  script: string;
+  args: string[];
+}
+
+interface RegionResult {
+  regionId: string;
+  ok: boolean;
+  /** Step that failed, with its exit code */
+  failedStep?: string;
+  exitCode?: number | null;
+  seconds: number;
+  logFile: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const COMMANDS: readonly Command[] = ['regions', 'extract', 'build', 'borders', 'manifest', 'verify'];
+
+// Extraction keeps a region's way node locations, turn restrictions with their member ways and
+// roundabout ways in memory; two at a time fit a 16 GB machine
+const DEFAULT_CONCURRENCY = 2;
+
+// Options handed through to build-sqlite.ts, or extract-single.ts --build, unchanged
+const BUILD_OPTIONS = ['--coord-encoding', '--dem', '--dem-source', '--tiles'];
+
+const LOG_TAIL_LINES = 15;
+
+// =============================================================================
+// ARGUMENTS
+// =============================================================================
+
+function optionValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 && args[index + 1] && !args[index + 1].startsWith('--') ? args[index + 1] : undefined;
+}
+
+/**
+ * Every value of a repeatable option, with comma-separated lists split
+ */
+function optionValues(args: string[], name: string): string[] {
+  const values: string[] = [];
+  args.forEach((arg, i) => {
+    if (arg !== name) return;
+    const value = args[i + 1];
+    if (!value || value.startsWith('--')) throw new Error(`${name} needs a value`);
+    values.push(...value.split(',').map((v) => v.trim()).filter(Boolean));
+  });
+  return values;
+}
+
+/**
+ * The named options and their values as they appeared, for passing on to a script
+ */
+function passThrough(args: string[], names: string[]): string[] {
+  const forwarded: string[] = [];
+  for (const name of names) {
+    const value = optionValue(args, name);
+    if (value !== undefined) forwarded.push(name, value);
+  }
+  return forwarded;
+}
+
+// =============================================================================
+// REGION SELECTION
+// =============================================================================
+
+function loadRegions(): Region[] {
+  const regionsData: RegionsFile = JSON.parse(readFileSync(join(__dirname, 'regions.json'), 'utf-8'));
+  return regionsData.regions;
+}
+
+/**
+ * Regions named by --region / --continent (or all of them with --all), largest estimatedSize first.
+ * Without a selection, all regions when `defaultAll` is set and an error otherwise.
+ */
+function selectRegions(regions: Region[], args: string[], defaultAll: boolean): Region[] {
+  const regionIds = optionValues(args, '--region');
+  const continents = optionValues(args, '--continent');
+  const all = args.includes('--all');
+
+  if (all && (regionIds.length > 0 || continents.length > 0)) {
+    throw new Error('--all cannot be combined with --region or --continent');
+  }
+  if (!all && regionIds.length === 0 && continents.length === 0 && !defaultAll) {
+    throw new Error('Select regions with --region <id>, --continent <name> or --all');
+  }
+
+  const byId = new Map(regions.map((region) => [region.id, region]));
+  const unknownIds = regionIds.filter((id) => !byId.has(id));
+  if (unknownIds.length > 0) {
+    throw new Error(`Not in regions.json: ${unknownIds.join(', ')}`);
+  }
+  const knownContinents = new Set(regions.map((region) => region.continent));
+  const unknownContinents = continents.filter((continent) => !knownContinents.has(continent));
+  if (unknownContinents.length > 0) {
+    throw new Error(
+      `Unknown continent: ${unknownContinents.join(', ')} (known: ${[...knownContinents].sort().join(', ')})`,
+    );
+  }
+
+  const selected =
+    regionIds.length === 0 && continents.length === 0
+      ? regions
+      : regions.filter((region) => regionIds.includes(region.id) || continents.includes(region.continent));
+  return [...selected].sort((a, b) => b.estimatedSize - a.estimatedSize || a.id.localeCompare(b.id));
+}
+
+// =============================================================================
+// CHILD PROCESSES
+// =============================================================================
+
+/**
+ * Run one of the sibling scripts in a child process under the same TypeScript loader
+ * (process.execArgv carries tsx's hooks). Resolves with the exit code.
+ */
+function runScript(script: string, args: string[], stdio: StdioOptions): Promise<number | null> {
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn(process.execPath, [...process.execArgv, join(__dirname, script), ...args], { stdio });
+    child.on('error', reject);
+    child.on('close', (code) => resolvePromise(code));
+  });
+}
+
+function logTail(logFile: string): string[] {
+  if (!existsSync(logFile)) return [];
+  const lines = readFileSync(logFile, 'utf-8').trimEnd().split('\n');
+  return lines.slice(-LOG_TAIL_LINES);
+}
+
+// =============================================================================
+// REGION POOL
+// =============================================================================
+
+/**
+ * Run the steps of every region, at most `concurrency` regions at a time, in the given
+ * order. A region stops at its first failing step; other regions carry on.
+ */
+async function runRegions(
+  regions: Region[],
+  stepsFor: (region: Region) => RegionStep[],
+  concurrency: number,
+  dirs: Directories,
+): Promise<RegionResult[]> {
+  const logsDir = join(dirs.workDir, 'logs');
+  mkdirSync(logsDir, { recursive: true });
+  mkdirSync(dirs.outputDir, { recursive: true });
+
+  const results: RegionResult[] = new Array(regions.length);
+  let next = 0;
+  let finished = 0;
+
+  const runRegion = async (region: Region, index: number): Promise<void> => {
+    const t0 = Date.now();
+    const logFile = join(logsDir, `${region.id}.log`);
+    const log = openSync(logFile, 'w');
+    const result: RegionResult = { regionId: region.id, ok: true, seconds: 0, logFile };
+    console.log(`▸ ${region.id} started`);
+    try {
+      for (const step of stepsFor(region)) {
+        const exitCode = await runScript(step.script, step.args, ['ignore', log, log]);
+        if (exitCode !== 0) {
+          Object.assign(result, { ok: false, failedStep: step.name, exitCode });
+          break;
+        }
+      }
+    } catch (error) {
+      Object.assign(result, { ok: false, failedStep: 'spawn', exitCode: null });
+      console.error(`  ${(error as Error).message}`);
+    } finally {
+      closeSync(log);
+    }
+    result.seconds = (Date.now() - t0) / 1000;
+    results[index] = result;
+    finished++;
+
+    const progress = `[${finished}/${regions.length}]`;
+    if (result.ok) {
+      console.log(`${progress} ✓ ${region.id} (${result.seconds.toFixed(1)}s)`);
+    } else {
+      console.log(`${progress} ✗ ${region.id}: ${result.failedStep} failed (exit ${result.exitCode}), log: ${logFile}`);
+    }
+  };
+
+  const worker = async (): Promise<void> => {
+    while (next < regions.length) {
+      const index = next++;
+      await runRegion(regions[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, regions.length) }, worker));
+  return results;
+}
+
+/**
+ * Print the run summary; returns whether every region succeeded
+ */
+function printSummary(results: RegionResult[], t0: number): boolean {
+  const failed = results.filter((result) => !result.ok);
+  const elapsed = ((Date.now() - t0) / 1000 / 60).toFixed(1);
+
+  console.log(`\n----------------------------------------`);
+  console.log(`Regions: ${results.length - failed.length}/${results.length} succeeded in ${elapsed} min`);
+  if (failed.length === 0) {
+    console.log(`\n✓ All regions complete\n`);
+    return true;
+  }
+
+  console.log(`\n✗ ${failed.length} failed:`);
+  for (const result of failed) {
+    console.log(`\n  ${result.regionId} (${result.failedStep}, exit ${result.exitCode}) — ${result.logFile}`);
+    for (const line of logTail(result.logFile)) console.log(`    | ${line}`);
+  }
+  console.log('');
+  return false;
+}
+
+// =============================================================================
+// COMMANDS
+// =============================================================================
+
+/**
+ * Resolve the source of every region up front, so a broken derived region definition
+ * fails the run before any download starts
+ */
+function checkRegionSources(selected: Region[], regions: Region[]): void {
+  const problems: string[] = [];
+  for (const region of selected) {
+    try {
+      resolveRegionExtract(region, regions, __dirname);
+    } catch (error) {
+      problems.push((error as Error).message);
+    }
+  }
+  if (problems.length > 0) throw new Error(`Invalid region definitions:\n  ${problems.join('\n  ')}`);
+}
+
+function listRegions(args: string[]): number {
+  const regions = selectRegions(loadRegions(), args, true);
+  if (args.includes('--json')) {
+    const listed = regions.map(({ id, name, continent, estimatedSize, source }) => ({
+      id,
+      name,
+      continent,
+      estimatedSize,
+      ...(source ? { source } : {}),
+    }));
+    console.log(JSON.stringify(listed, null, 2));
+    return 0;
+  }
+  for (const region of regions) {
+    const source = region.source ? `  ← ${'region' in region.source ? region.source.region : region.source.pbf}` : '';
+    console.log(
+      `${region.id.padEnd(50)} ${region.continent.padEnd(18)} ${String(region.estimatedSize).padStart(9)}${source}`,
+    );
+  }
+  console.log(`\n${regions.length} regions`);
+  return 0;
+}
+
+async function processRegions(command: 'extract' | 'build', args: string[], dirs: Directories): Promise<number> {
+  const allRegions = loadRegions();
+  const regions = selectRegions(allRegions, args, false);
+  if (command === 'extract') checkRegionSources(regions, allRegions);
+  const concurrencyArg = optionValue(args, '--concurrency');
+  const concurrency = concurrencyArg !== undefined ? Number(concurrencyArg) : DEFAULT_CONCURRENCY;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`--concurrency must be a positive integer, got ${concurrencyArg}`);
+  }
+
+  const withBuild = command === 'build' || args.includes('--build');
+  const buildArgs = passThrough(args, BUILD_OPTIONS);
+  const legacyJson = args.includes('--legacy-json');
+  if (legacyJson && !(command === 'extract' && withBuild)) {
+    throw new Error('--legacy-json only applies to extract --build (plain extract always writes the JSON files)');
+  }
+  const stepsFor = (region: Region): RegionStep[] => {
+    const dirArgs = ['--region', region.id, '--output', dirs.outputDir, '--work-dir', dirs.workDir];
+    if (command === 'build') {
+      return [{ name: 'build', script: 'build-sqlite.ts', args: [...dirArgs, ...buildArgs] }];
+    }
+    // extract --build inserts into the database while reading the PBF, in the same step
+    const extractArgs = withBuild ? ['--build', ...(legacyJson ? ['--legacy-json'] : []), ...buildArgs] : [];
+    return [{ name: 'extract', script: 'extract-single.ts', args: [...dirArgs, ...extractArgs] }];
+  };
+
+  console.log(`\n========================================`);
+  console.log(`osm-extract ${command}${command === 'extract' && withBuild ? ' + build' : ''}`);
+  console.log(`========================================\n`);
+  console.log(`Regions: ${regions.length} (${concurrency} at a time, largest first)`);
+  console.log(`Output: ${dirs.outputDir}`);
+  console.log(`Work dir: ${dirs.workDir} (logs in ${join(dirs.workDir, 'logs')})\n`);
+
+  const t0 = Date.now();
+  const results = await runRegions(regions, stepsFor, concurrency, dirs);
+  return printSummary(results, t0) ? 0 : 1;
+}
+
+// dedupe-borders.ts summary, read by the manifest step; published next to the manifests, as in the release workflow
+function borderOverlapPath(dirs: Directories): string {
+  return join(dirs.outputDir, 'border-overlap.json');
+}
+
+async function dedupeBorders(dirs: Directories): Promise<number> {
+  const exitCode = await runScript(
+    'dedupe-borders.ts',
+    ['--input', dirs.outputDir, '--work-dir', dirs.workDir, '--summary', borderOverlapPath(dirs)],
+    'inherit',
+  );
+  return exitCode === 0 ? 0 : 1;
+}
+
+async function generateManifest(args: string[], dirs: Directories): Promise<number> {
+  // The schema is published next to manifest-v2.json, as in the release workflow
+  copyFileSync(join(__dirname, 'manifest-v2.schema.json'), join(dirs.outputDir, 'manifest-v2.schema.json'));
+  const borderOverlap = borderOverlapPath(dirs);
+  const exitCode = await runScript(
+    'generate-manifest.ts',
+    [
+      '--input', dirs.outputDir,
+      '--output', join(dirs.outputDir, 'manifest.json'),
+      '--output-v2', join(dirs.outputDir, 'manifest-v2.json'),
+      ...(existsSync(borderOverlap) ? ['--border-overlap', borderOverlap] : []),
+      ...passThrough(args, ['--version', '--signing-key']),
+    ],
+    'inherit',
+  );
+  return exitCode === 0 ? 0 : 1;
+}
+
+async function verifyOutput(args: string[], dirs: Directories): Promise<number> {
+  const manifest = optionValue(args, '--manifest')
+    ?? (existsSync(join(dirs.outputDir, 'manifest-v2.json')) ? 'manifest-v2.json' : 'manifest.json');
+  mkdirSync(dirs.workDir, { recursive: true });
+  // The JSON report goes to the work dir: in the output dir it would itself be an unlisted file
+  const report = optionValue(args, '--report') ?? join(dirs.workDir, 'verify-report.json');
+  const exitCode = await runScript(
+    'verify-manifest.ts',
+    [
+      '--source', dirs.outputDir,
+      '--manifest', manifest,
+      '--report', report,
+      '--allow-build-inputs',
+      ...(args.includes('--checksums') ? ['--checksums'] : []),
+      ...passThrough(args, ['--public-key']),
+    ],
+    ['ignore', 'ignore', 'inherit'],
+  );
+  console.log(`Report: ${report}`);
+  return exitCode === 0 ? 0 : 1;
+}
+
+async function main(args: string[]): Promise<number> {
+  const command = args[0] as Command;
+  if (!COMMANDS.includes(command)) {
+    console.error('Usage: npm run osm-extract -- <regions|extract|build|borders|manifest|verify> [options]');
+    console.error('Example: npm run osm-extract -- extract --continent europe --build --concurrency 4');
+    return 1;
+  }
+
+  const options = args.slice(1);
+  const dirs: Directories = {
+    outputDir: resolve(optionValue(options, '--output') ?? join(__dirname, 'output')),
+    workDir: resolve(optionValue(options, '--work-dir') ?? join(__dirname, 'work')),
+  };
+
+  switch (command) {
+    case 'regions':
+      return listRegions(options);
+    case 'extract':
+    case 'build':
+      return processRegions(command, options, dirs);
+    case 'borders':
+      return dedupeBorders(dirs);
+    case 'manifest':
+      return generateManifest(options, dirs);
+    case 'verify':
+      return verifyOutput(options, dirs);
+  }
+}
+
+// =============================================================================
+// CLI ENTRY POINT
+// =============================================================================
+
+main(process.argv.slice(2))
+  .then((exitCode) => {
+    process.exitCode = exitCode;
+  })
+  .catch((err) => {
+    console.error(`\n✗ osm-extract failed: ${(err as Error).message}`);
+    process.exit(1);
+  });
@@ -0,0 +1,1019 @@
+/**
+ * OSM PBF Reader
+ *
+ * PURPOSE: Stream-decode Geofabrik .osm.pbf extracts without osmium-tool
+ * RESPONSIBILITY: Parse blob framing and primitive blocks, apply osmium-style tag filters,
+ *                 resolve way node locations, yield typed nodes, ways and relations
+ * DEPENDENCIES: none (zlib from Node.js for blob decompression)
+ * CONSUMERS: extract-single.ts
+ *
+ * File format reference: https://wiki.openstreetmap.org/wiki/PBF_Format
+ *
+ * A PBF file is a sequence of [int32 length][BlobHeader][Blob] frames. Each OSMData blob
+ * holds a zlib-compressed PrimitiveBlock of up to 8000 entities. Ways only reference their
+ * nodes by ID, so resolving way geometry takes three passes over the file:
+ *   1. Scan ways, collect the node IDs referenced by ways that pass the filter; decode
+ *      matching relations and collect their member node and way IDs
+ *   2. Scan node blocks, store locations of the collected IDs, yield matching tagged nodes
+ *   3. Scan way blocks, yield matching ways with resolved coordinates
+ * Pass 1 records which blobs hold nodes and which hold ways, so passes 2 and 3 only
+ * decompress the blobs they need. Relations come after ways in a sorted file, so when a
+ * filter selects relations, one extra scan of the way blobs (between passes 1 and 2)
+ * collects the node IDs of member ways that did not pass the way filter themselves.
+ * Matching relations are yielded last, with member geometry attached.
+ *
+ * An optional area (region-clip.ts) cuts a smaller region out of the file while reading:
+ * elements outside it are dropped whatever their tags.
+ */
+
+import { open, type FileHandle } from 'fs/promises';
+import { inflateSync } from 'zlib';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type OsmTags = Record<string, string>;
+
+export interface OsmNode {
+  type: 'node';
+  id: number;
+  lat: number;
+  lon: number;
+  tags: OsmTags;
+}
+
+export interface OsmWay {
+  type: 'way';
+  id: number;
+  tags: OsmTags;
+  /** Node IDs with a resolved location, parallel to coords */
+  nodeIds: number[];
+  /** [lon, lat] pairs, same order as GeoJSON coordinates */
+  coords: [number, number][];
+}
+
+export interface OsmRelationMember {
+  type: 'node' | 'way' | 'relation';
+  ref: number;
+  role: string;
+  /** Way members: node IDs with a resolved location, parallel to coords */
+  nodeIds?: number[];
+  /** [lon, lat] location of a node member, or the geometry of a way member; absent when unresolved */
+  coords?: [number, number][];
+}
+
+export interface OsmRelation {
+  type: 'relation';
+  id: number;
+  tags: OsmTags;
+  members: OsmRelationMember[];
+}
+
+export type OsmElement = OsmNode | OsmWay | OsmRelation;
+
+/** HeaderBlock fields relevant to incremental updates */
+export interface PbfHeader {
+  writingProgram?: string;
+  /** Osmosis replication state the extract was cut at (Geofabrik sets these) */
+  replicationTimestamp?: number;
+  replicationSequence?: number;
+  replicationBaseUrl?: string;
+}
+
+/** One `[nwr]/key[=value,value...]` term of an osmium tags-filter expression */
+interface TagMatcher {
+  key: string;
+  /** Undefined matches any value */
+  values?: Set<string>;
+}
+
+export interface TagFilter {
+  nodes: TagMatcher[];
+  ways: TagMatcher[];
+  relations: TagMatcher[];
+}
+
+/** Geographic cut applied while reading, e.g. a ClipArea from region-clip.ts */
+export interface AreaFilter {
+  contains(lon: number, lat: number): boolean;
+}
+
+interface BlobRef {
+  offset: number;
+  hasNodes: boolean;
+  hasWays: boolean;
+  hasRelations: boolean;
+}
+
+interface PrimitiveBlock {
+  buf: Buffer;
+  stringTable: string[];
+  granularity: number;
+  latOffset: number;
+  lonOffset: number;
+  /** [start, end) byte ranges of each PrimitiveGroup inside buf */
+  groups: [number, number][];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Required features we know how to decode (HeaderBlock.required_features) */
+const SUPPORTED_FEATURES = new Set(['OsmSchema-V0.6', 'DenseNodes']);
+
+/** Relation.MemberType enum order */
+const MEMBER_TYPES: OsmRelationMember['type'][] = ['node', 'way', 'relation'];
+
+/** Sentinel for a collected node ID whose location has not been seen (yet) */
+const MISSING_LOCATION = 0x7fffffff;
+
+/** Node IDs collected before they are sorted, deduplicated and merged into the index runs */
+const NODE_ID_CHUNK_SIZE = 1 << 20;
+
+/** Guard against corrupt length prefixes — the spec caps BlobHeader at 64 KB and Blob at 32 MB */
+const MAX_BLOB_HEADER_SIZE = 64 * 1024;
+const MAX_BLOB_SIZE = 32 * 1024 * 1024;
+
+// =============================================================================
+// TAG FILTERS
+// =============================================================================
+
+/**
+ * Parse osmium tags-filter expressions (e.g. `w/highway=primary,secondary`, `n/traffic_calming`,
+ * `nw/junction=roundabout`, `r/type=restriction`) into a filter.
+ * An element passes when any term for its type matches.
+ */
+export function parseTagFilter(expressions: string[]): TagFilter {
+  const filter: TagFilter = { nodes: [], ways: [], relations: [] };
+
+  for (const expression of expressions) {
+    const slash = expression.indexOf('/');
+    const types = slash === -1 ? 'nwr' : expression.substring(0, slash);
+    const term = slash === -1 ? expression : expression.substring(slash + 1);
+    if (!/^[nwr]+$/.test(types) || !term) {
+      throw new Error(`Invalid tag filter expression: ${expression}`);
+    }
+
+    const eq = term.indexOf('=');
+    const matcher: TagMatcher =
+      eq === -1
+        ? { key: term }
+        : { key: term.substring(0, eq), values: new Set(term.substring(eq + 1).split(',')) };
+
+    if (types.includes('n')) filter.nodes.push(matcher);
+    if (types.includes('w')) filter.ways.push(matcher);
+    if (types.includes('r')) filter.relations.push(matcher);
+  }
+
+  return filter;
+}
+
+/**
+ * Check an element's tags against the filter terms for its type.
+ */
+export function matchesTagFilter(filter: TagFilter, element: Pick<OsmElement, 'type' | 'tags'>): boolean {
+  const matchers =
+    element.type === 'node' ? filter.nodes : element.type === 'way' ? filter.ways : filter.relations;
+  return matchesAny(matchers, element.tags);
+}
+
+/**
+ * Check a single tag key against the filter terms on that key, for callers that need to know
+ * which term selected an element (e.g. bridge=* rather than tunnel=*).
+ */
+export function tagKeyMatcher(
+  filter: TagFilter,
+  type: OsmElement['type'],
+  key: string,
+): (tags: OsmTags) => boolean {
+  const matchers = (type === 'node' ? filter.nodes : type === 'way' ? filter.ways : filter.relations).filter(
+    (matcher) => matcher.key === key,
+  );
+  return (tags) => matchesAny(matchers, tags);
+}
+
+function matchesAny(matchers: TagMatcher[], tags: OsmTags): boolean {
+  for (const matcher of matchers) {
+    const value = tags[matcher.key];
+    if (value === undefined) continue;
+    if (!matcher.values || matcher.values.has(value)) return true;
+  }
+  return false;
+}
+
+// =============================================================================
+// PROTOBUF DECODING
+// =============================================================================
+
+/**
+ * Minimal protobuf wire-format reader over a byte range of a buffer.
+ * Only what the OSM PBF schema needs: varints, zigzag varints, length-delimited fields.
+ */
+class ProtoReader {
+  pos: number;
+
+  constructor(
+    readonly buf: Buffer,
+    start = 0,
+    readonly end = buf.length,
+  ) {
+    this.pos = start;
+  }
+
+  get done(): boolean {
+    return this.pos >= this.end;
+  }
+
+  /** Read a varint as a JS number. int64 values are two's complement; OSM IDs fit in 53 bits. */
+  readVarint(): number {
+    const buf = this.buf;
+    let b = buf[this.pos++];
+    let low = b & 0x7f;
+    if (b < 0x80) return low;
+    b = buf[this.pos++];
+    low |= (b & 0x7f) << 7;
+    if (b < 0x80) return low;
+    b = buf[this.pos++];
+    low |= (b & 0x7f) << 14;
+    if (b < 0x80) return low;
+    b = buf[this.pos++];
+    low |= (b & 0x7f) << 21;
+    if (b < 0x80) return low;
+    b = buf[this.pos++];
+    low |= (b & 0x0f) << 28;
+    let high = (b & 0x70) >> 4;
+    if (b < 0x80) return toInt64(low, high);
+    b = buf[this.pos++];
+    high |= (b & 0x7f) << 3;
+    if (b < 0x80) return toInt64(low, high);
+    b = buf[this.pos++];
+    high |= (b & 0x7f) << 10;
+    if (b < 0x80) return toInt64(low, high);
+    b = buf[this.pos++];
+    high |= (b & 0x7f) << 17;
+    if (b < 0x80) return toInt64(low, high);
+    b = buf[this.pos++];
+    high |= (b & 0x7f) << 24;
+    if (b < 0x80) return toInt64(low, high);
+    b = buf[this.pos++];
+    high |= (b & 0x01) << 31;
+    if (b < 0x80) return toInt64(low, high);
+    throw new Error('Malformed varint in PBF data');
+  }
+
+  /** Read a zigzag-encoded sint32/sint64 */
+  readSVarint(): number {
+    const n = this.readVarint();
+    if (n >= 0 && n <= 0x7fffffff) return (n >>> 1) ^ -(n & 1);
+    return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+  }
+
+  /** Read a length prefix and return a reader over the delimited range, advancing past it */
+  readMessage(): ProtoReader {
+    const length = this.readVarint();
+    const start = this.pos;
+    this.pos += length;
+    if (this.pos > this.end) throw new Error('Truncated PBF message');
+    return new ProtoReader(this.buf, start, this.pos);
+  }
+
+  readString(): string {
+    const sub = this.readMessage();
+    return this.buf.toString('utf8', sub.pos, sub.end);
+  }
+
+  readBytes(): Buffer {
+    const sub = this.readMessage();
+    return this.buf.subarray(sub.pos, sub.end);
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case 0:
+        this.readVarint();
+        break;
+      case 1:
+        this.pos += 8;
+        break;
+      case 2: {
+        const length = this.readVarint();
+        this.pos += length;
+        break;
+      }
+      case 5:
+        this.pos += 4;
+        break;
+      default:
+        throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+}
+
+function toInt64(low: number, high: number): number {
+  if (high & 0x80000000) {
+    return -((~high >>> 0) * 0x100000000 + (~low >>> 0) + 1);
+  }
+  return (high >>> 0) * 0x100000000 + (low >>> 0);
+}
+
+/**
+ * Read a repeated uint32/enum field. Writers may emit repeated scalars packed (wire type 2)
+ * or one value per key (wire type 0); proto2 parsers must accept both.
+ */
+function readRepeatedVarints(r: ProtoReader, wireType: number, out: number[]): void {
+  if (wireType !== 2) {
+    out.push(r.readVarint());
+    return;
+  }
+  const packed = r.readMessage();
+  while (!packed.done) out.push(packed.readVarint());
+}
+
+/**
+ * Return a reader over a packed field. DenseNodes columns are always written packed;
+ * anything else means the file is not valid OSM PBF.
+ */
+function readPacked(r: ProtoReader, wireType: number): ProtoReader {
+  if (wireType !== 2) throw new Error('Expected packed DenseNodes field in PBF data');
+  return r.readMessage();
+}
+
+/**
+ * Decode a Blob message into its uncompressed payload.
+ */
+function decodeBlob(buf: Buffer): Buffer {
+  const r = new ProtoReader(buf);
+  let raw: Buffer | undefined;
+  let zlibData: Buffer | undefined;
+  let unsupported: string | undefined;
+
+  while (!r.done) {
+    const key = r.readVarint();
+    const field = key >>> 3;
+    if (field === 1) raw = r.readBytes();
+    else if (field === 3) zlibData = r.readBytes();
+    else if (field === 4) { unsupported = 'lzma'; r.skip(key & 7); }
+    else if (field === 6) { unsupported = 'lz4'; r.skip(key & 7); }
+    else if (field === 7) { unsupported = 'zstd'; r.skip(key & 7); }
+    else r.skip(key & 7);
+  }
+
+  if (raw) return raw;
+  if (zlibData) return inflateSync(zlibData);
+  throw new Error(`Unsupported PBF blob compression: ${unsupported ?? 'none'}`);
+}
+
+/**
+ * Decode a HeaderBlock and fail fast on required features we cannot honour
+ * (e.g. HistoricalInformation files).
+ */
+function decodeHeaderBlock(buf: Buffer): PbfHeader {
+  const header: PbfHeader = {};
+  const r = new ProtoReader(buf);
+  while (!r.done) {
+    const key = r.readVarint();
+    switch (key >>> 3) {
+      case 4: {
+        const feature = r.readString();
+        if (!SUPPORTED_FEATURES.has(feature)) {
+          throw new Error(`PBF file requires unsupported feature: ${feature}`);
+        }
+        break;
+      }
+      case 16:
+        header.writingProgram = r.readString();
+        break;
+      case 32:
+        header.replicationTimestamp = r.readVarint();
+        break;
+      case 33:
+        header.replicationSequence = r.readVarint();
+        break;
+      case 34:
+        header.replicationBaseUrl = r.readString();
+        break;
+      default:
+        r.skip(key & 7);
+    }
+  }
+  return header;
+}
+
+function decodePrimitiveBlock(buf: Buffer): PrimitiveBlock {
+  const block: PrimitiveBlock = {
+    buf,
+    stringTable: [],
+    granularity: 100,
+    latOffset: 0,
+    lonOffset: 0,
+    groups: [],
+  };
+
+  const r = new ProtoReader(buf);
+  while (!r.done) {
+    const key = r.readVarint();
+    switch (key >>> 3) {
+      case 1: {
+        const st = r.readMessage();
+        while (!st.done) {
+          const stKey = st.readVarint();
+          if (stKey >>> 3 === 1) block.stringTable.push(st.readString());
+          else st.skip(stKey & 7);
+        }
+        break;
+      }
+      case 2: {
+        const group = r.readMessage();
+        block.groups.push([group.pos, group.end]);
+        break;
+      }
+      case 17:
+        block.granularity = r.readVarint();
+        break;
+      case 19:
+        block.latOffset = r.readVarint();
+        break;
+      case 20:
+        block.lonOffset = r.readVarint();
+        break;
+      default:
+        r.skip(key & 7);
+    }
+  }
+
+  return block;
+}
+
+/**
+ * Convert a raw block coordinate to OSM fixed-point (1e-7 degrees), the precision
+ * osmium uses internally — keeps output coordinates identical to `osmium export`.
+ */
+function toFixed7(raw: number, offset: number, granularity: number): number {
+  if (granularity === 100 && offset === 0) return raw;
+  return Math.round((offset + granularity * raw) / 100);
+}
+
+function readTags(stringTable: string[], keys: number[], vals: number[]): OsmTags {
+  const tags: OsmTags = {};
+  const count = Math.min(keys.length, vals.length);
+  for (let i = 0; i < count; i++) {
+    tags[stringTable[keys[i]]] = stringTable[vals[i]];
+  }
+  return tags;
+}
+
+/**
+ * Walk every node (plain and dense) in a block. `tags` is null for untagged nodes so the
+ * hot path (hundreds of millions of untagged vertices) allocates nothing.
+ */
+function forEachNode(
+  block: PrimitiveBlock,
+  onNode: (id: number, lat: number, lon: number, tags: OsmTags | null) => void,
+): void {
+  const { buf, stringTable, granularity, latOffset, lonOffset } = block;
+
+  for (const [start, end] of block.groups) {
+    const group = new ProtoReader(buf, start, end);
+    while (!group.done) {
+      const key = group.readVarint();
+      const field = key >>> 3;
+
+      if (field === 1) {
+        const node = group.readMessage();
+        let id = 0;
+        let lat = 0;
+        let lon = 0;
+        const keys: number[] = [];
+        const vals: number[] = [];
+        while (!node.done) {
+          const nodeKey = node.readVarint();
+          switch (nodeKey >>> 3) {
+            case 1: id = node.readSVarint(); break;
+            case 2: readRepeatedVarints(node, nodeKey & 7, keys); break;
+            case 3: readRepeatedVarints(node, nodeKey & 7, vals); break;
+            case 8: lat = node.readSVarint(); break;
+            case 9: lon = node.readSVarint(); break;
+            default: node.skip(nodeKey & 7);
+          }
+        }
+        const tags = keys.length > 0 ? readTags(stringTable, keys, vals) : null;
+        onNode(id, toFixed7(lat, latOffset, granularity), toFixed7(lon, lonOffset, granularity), tags);
+      } else if (field === 2) {
+        const dense = group.readMessage();
+        let ids: ProtoReader | null = null;
+        let lats: ProtoReader | null = null;
+        let lons: ProtoReader | null = null;
+        let keysVals: ProtoReader | null = null;
+        while (!dense.done) {
+          const denseKey = dense.readVarint();
+          switch (denseKey >>> 3) {
+            case 1: ids = readPacked(dense, denseKey & 7); break;
+            case 8: lats = readPacked(dense, denseKey & 7); break;
+            case 9: lons = readPacked(dense, denseKey & 7); break;
+            case 10: keysVals = readPacked(dense, denseKey & 7); break;
+            default: dense.skip(denseKey & 7);
+          }
+        }
+        if (!ids || !lats || !lons) continue;
+
+        let id = 0;
+        let lat = 0;
+        let lon = 0;
+        while (!ids.done) {
+          id += ids.readSVarint();
+          lat += lats.readSVarint();
+          lon += lons.readSVarint();
+
+          // keys_vals: per node, alternating key/value string IDs terminated by 0
+          let tags: OsmTags | null = null;
+          if (keysVals && !keysVals.done) {
+            let k = keysVals.readVarint();
+            while (k !== 0) {
+              const v = keysVals.readVarint();
+              if (!tags) tags = {};
+              tags[stringTable[k]] = stringTable[v];
+              k = keysVals.readVarint();
+            }
+          }
+
+          onNode(id, toFixed7(lat, latOffset, granularity), toFixed7(lon, lonOffset, granularity), tags);
+        }
+      } else {
+        group.skip(key & 7);
+      }
+    }
+  }
+}
+
+/**
+ * Walk every way in a block. Tags are decoded first so callers can filter cheaply;
+ * refs are only delta-decoded for ways that `accept` keeps.
+ */
+function forEachWay(
+  block: PrimitiveBlock,
+  accept: (id: number, tags: OsmTags) => boolean,
+  onWay: (id: number, tags: OsmTags, refs: number[]) => void,
+): void {
+  const { buf, stringTable } = block;
+
+  for (const [start, end] of block.groups) {
+    const group = new ProtoReader(buf, start, end);
+    while (!group.done) {
+      const key = group.readVarint();
+      if (key >>> 3 !== 3) {
+        group.skip(key & 7);
+        continue;
+      }
+
+      const way = group.readMessage();
+      let id = 0;
+      const keys: number[] = [];
+      const vals: number[] = [];
+      const refDeltas: number[] = [];
+      let packedRefs: ProtoReader | null = null;
+      while (!way.done) {
+        const wayKey = way.readVarint();
+        switch (wayKey >>> 3) {
+          case 1: id = way.readVarint(); break;
+          case 2: readRepeatedVarints(way, wayKey & 7, keys); break;
+          case 3: readRepeatedVarints(way, wayKey & 7, vals); break;
+          case 8:
+            if ((wayKey & 7) === 2) packedRefs = way.readMessage();
+            else refDeltas.push(way.readSVarint());
+            break;
+          default: way.skip(wayKey & 7);
+        }
+      }
+
+      const tags = readTags(stringTable, keys, vals);
+      if (!accept(id, tags)) continue;
+
+      if (packedRefs) {
+        while (!packedRefs.done) refDeltas.push(packedRefs.readSVarint());
+      }
+      const refs: number[] = [];
+      let ref = 0;
+      for (const delta of refDeltas) {
+        ref += delta;
+        refs.push(ref);
+      }
+      onWay(id, tags, refs);
+    }
+  }
+}
+
+/**
+ * Walk every relation in a block whose tags `accept` keeps.
+ */
+function forEachRelation(
+  block: PrimitiveBlock,
+  accept: (tags: OsmTags) => boolean,
+  onRelation: (id: number, tags: OsmTags, members: OsmRelationMember[]) => void,
+): void {
+  const { buf, stringTable } = block;
+
+  for (const [start, end] of block.groups) {
+    const group = new ProtoReader(buf, start, end);
+    while (!group.done) {
+      const key = group.readVarint();
+      if (key >>> 3 !== 4) {
+        group.skip(key & 7);
+        continue;
+      }
+
+      const relation = group.readMessage();
+      let id = 0;
+      const keys: number[] = [];
+      const vals: number[] = [];
+      const roles: number[] = [];
+      const memberDeltas: number[] = [];
+      const types: number[] = [];
+      while (!relation.done) {
+        const relationKey = relation.readVarint();
+        switch (relationKey >>> 3) {
+          case 1: id = relation.readVarint(); break;
+          case 2: readRepeatedVarints(relation, relationKey & 7, keys); break;
+          case 3: readRepeatedVarints(relation, relationKey & 7, vals); break;
+          case 8: readRepeatedVarints(relation, relationKey & 7, roles); break;
+          case 9:
+            if ((relationKey & 7) === 2) {
+              const packed = relation.readMessage();
+              while (!packed.done) memberDeltas.push(packed.readSVarint());
+            } else {
+              memberDeltas.push(relation.readSVarint());
+            }
+            break;
+          case 10: readRepeatedVarints(relation, relationKey & 7, types); break;
+          default: relation.skip(relationKey & 7);
+        }
+      }
+
+      const tags = readTags(stringTable, keys, vals);
+      if (!accept(tags)) continue;
+
+      const members: OsmRelationMember[] = [];
+      let ref = 0;
+      for (let i = 0; i < memberDeltas.length; i++) {
+        ref += memberDeltas[i];
+        members.push({ type: MEMBER_TYPES[types[i] ?? 0] ?? 'node', ref, role: stringTable[roles[i]] ?? '' });
+      }
+      onRelation(id, tags, members);
+    }
+  }
+}
+
+/**
+ * Report which entity kinds a block contains, without decoding the entities.
+ */
+function scanGroupKinds(block: PrimitiveBlock): { hasNodes: boolean; hasWays: boolean; hasRelations: boolean } {
+  let hasNodes = false;
+  let hasWays = false;
+  let hasRelations = false;
+  for (const [start, end] of block.groups) {
+    const group = new ProtoReader(block.buf, start, end);
+    while (!group.done) {
+      const key = group.readVarint();
+      const field = key >>> 3;
+      if (field === 1 || field === 2) hasNodes = true;
+      else if (field === 3) hasWays = true;
+      else if (field === 4) hasRelations = true;
+      group.skip(key & 7);
+    }
+  }
+  return { hasNodes, hasWays, hasRelations };
+}
+
+// =============================================================================
+// BLOB FRAMING
+// =============================================================================
+
+/**
+ * Read the frame at `offset`. Returns null at end of file.
+ */
+async function readFrame(
+  fh: FileHandle,
+  offset: number,
+): Promise<{ type: string; data: Buffer; nextOffset: number } | null> {
+  const lengthBuf = Buffer.alloc(4);
+  const { bytesRead } = await fh.read(lengthBuf, 0, 4, offset);
+  if (bytesRead === 0) return null;
+  if (bytesRead < 4) throw new Error(`Truncated PBF file at offset ${offset}`);
+
+  const headerSize = lengthBuf.readInt32BE(0);
+  if (headerSize <= 0 || headerSize > MAX_BLOB_HEADER_SIZE) {
+    throw new Error(`Invalid BlobHeader size ${headerSize} at offset ${offset}`);
+  }
+  const headerBuf = Buffer.alloc(headerSize);
+  await readExactly(fh, headerBuf, offset + 4);
+
+  let type = '';
+  let dataSize = 0;
+  const header = new ProtoReader(headerBuf);
+  while (!header.done) {
+    const key = header.readVarint();
+    if (key >>> 3 === 1) type = header.readString();
+    else if (key >>> 3 === 3) dataSize = header.readVarint();
+    else header.skip(key & 7);
+  }
+  if (dataSize <= 0 || dataSize > MAX_BLOB_SIZE) {
+    throw new Error(`Invalid Blob size ${dataSize} at offset ${offset}`);
+  }
+
+  const blobBuf = Buffer.alloc(dataSize);
+  await readExactly(fh, blobBuf, offset + 4 + headerSize);
+
+  return {
+    type,
+    data: decodeBlob(blobBuf),
+    nextOffset: offset + 4 + headerSize + dataSize,
+  };
+}
+
+async function readExactly(fh: FileHandle, target: Buffer, position: number): Promise<void> {
+  let filled = 0;
+  while (filled < target.length) {
+    const { bytesRead } = await fh.read(target, filled, target.length - filled, position + filled);
+    if (bytesRead === 0) throw new Error(`Truncated PBF file at offset ${position + filled}`);
+    filled += bytesRead;
+  }
+}
+
+// =============================================================================
+// NODE LOCATION INDEX
+// =============================================================================
+
+/**
+ * Sorted ID → fixed-point location table for the nodes referenced by filtered ways.
+ * Typed arrays keep it off the JS heap (16 bytes per node once sealed) — a Map would hit
+ * V8's entry limit long before a large country's highway network is indexed.
+ *
+ * Way refs repeat every shared node, so they are not kept as they arrive: each fixed-size
+ * chunk is sorted, deduplicated and merged into runs of unique IDs, and a run is merged
+ * into the one below as soon as it reaches half its size. While collecting, memory stays
+ * near 8 bytes per distinct node; the last merge in seal() briefly holds the runs and
+ * their union, about the size of the sealed index.
+ */
+class NodeLocationIndex {
+  private chunk = new Float64Array(NODE_ID_CHUNK_SIZE);
+  private chunkLength = 0;
+  /** Sorted unique IDs, each run less than half the size of the one below it */
+  private runs: Float64Array[] = [];
+  private ids: Float64Array = new Float64Array(0);
+  private count = 0;
+  private lats = new Int32Array(0);
+  private lons = new Int32Array(0);
+  private cursor = 0;
+
+  add(id: number): void {
+    if (this.chunkLength === this.chunk.length) this.flushChunk();
+    this.chunk[this.chunkLength++] = id;
+  }
+
+  /** Merge the collected IDs into one sorted unique array, then allocate the location columns */
+  seal(): void {
+    this.flushChunk();
+    this.chunk = new Float64Array(0);
+    let ids = this.runs.pop() ?? new Float64Array(0);
+    while (this.runs.length > 0) ids = mergeUnique(this.runs.pop()!, ids);
+    this.ids = ids;
+    this.count = ids.length;
+    this.lats = new Int32Array(this.count).fill(MISSING_LOCATION);
+    this.lons = new Int32Array(this.count).fill(MISSING_LOCATION);
+  }
+
+  private flushChunk(): void {
+    const sorted = this.chunk.subarray(0, this.chunkLength).sort();
+    let unique = 0;
+    for (let i = 0; i < sorted.length; i++) {
+      if (i === 0 || sorted[i] !== sorted[i - 1]) sorted[unique++] = sorted[i];
+    }
+    let run: Float64Array = sorted.slice(0, unique);
+    this.chunkLength = 0;
+    while (this.runs.length > 0 && this.runs[this.runs.length - 1].length <= run.length * 2) {
+      run = mergeUnique(this.runs.pop()!, run);
+    }
+    this.runs.push(run);
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Store a location if the ID was collected. Node IDs arrive ascending in sorted files,
+   * so a forward cursor makes this amortised O(1); out-of-order IDs fall back to bisection.
+   */
+  set(id: number, lat: number, lon: number): void {
+    const ids = this.ids;
+    let i = this.cursor;
+    if (i > 0 && ids[i - 1] >= id) {
+      i = this.lowerBound(id);
+    } else {
+      while (i < this.count && ids[i] < id) i++;
+    }
+    this.cursor = i;
+    if (i < this.count && ids[i] === id) {
+      this.lats[i] = lat;
+      this.lons[i] = lon;
+    }
+  }
+
+  /** Returns the index of a located node, or -1 */
+  find(id: number): number {
+    const i = this.lowerBound(id);
+    if (i < this.count && this.ids[i] === id && this.lats[i] !== MISSING_LOCATION) return i;
+    return -1;
+  }
+
+  lat(index: number): number {
+    return this.lats[index];
+  }
+
+  lon(index: number): number {
+    return this.lons[index];
+  }
+
+  private lowerBound(id: number): number {
+    let lo = 0;
+    let hi = this.count;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this.ids[mid] < id) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+}
+
+/**
+ * Union of two sorted unique ID arrays, counted first so the result is allocated at its size
+ */
+function mergeUnique(a: Float64Array, b: Float64Array): Float64Array {
+  let size = 0;
+  for (let i = 0, j = 0; i < a.length || j < b.length; size++) {
+    if (j === b.length || (i < a.length && a[i] < b[j])) i++;
+    else if (i === a.length || b[j] < a[i]) j++;
+    else (i++, j++);
+  }
+  const merged = new Float64Array(size);
+  for (let i = 0, j = 0, k = 0; k < size; k++) {
+    if (j === b.length || (i < a.length && a[i] < b[j])) merged[k] = a[i++];
+    else if (i === a.length || b[j] < a[i]) merged[k] = b[j++];
+    else (merged[k] = a[i++], j++);
+  }
+  return merged;
+}
+
+// =============================================================================
+// PUBLIC READER
+// =============================================================================
+
+/**
+ * Read only the HeaderBlock of a PBF file (the first frame).
+ */
+export async function readPbfHeader(pbfPath: string): Promise<PbfHeader> {
+  const fh = await open(pbfPath, 'r');
+  try {
+    const frame = await readFrame(fh, 0);
+    if (!frame || frame.type !== 'OSMHeader') {
+      throw new Error(`${pbfPath} does not start with an OSMHeader block`);
+    }
+    return decodeHeaderBlock(frame.data);
+  } finally {
+    await fh.close();
+  }
+}
+
+/**
+ * Stream the nodes, ways and relations of a PBF file that pass `filter`. Nodes are yielded
+ * first, then ways with coordinates resolved, matching the order of `osmium export` on a
+ * sorted file, then relations with member locations and geometry attached.
+ *
+ * Way vertices whose node is absent from the file (clipped at the extract boundary) are
+ * dropped; ways left with fewer than two vertices are skipped. Relation members outside
+ * the file keep their ref and role but have no coords.
+ *
+ * With an `area`, nodes are yielded when they lie inside it, ways when any vertex does
+ * (keeping their full geometry) and relations when any member location does.
+ */
+export async function* readOsmPbf(
+  pbfPath: string,
+  filter: TagFilter,
+  area?: AreaFilter,
+): AsyncGenerator<OsmElement> {
+  const fh = await open(pbfPath, 'r');
+  try {
+    // Pass 1: index blobs, collect node IDs referenced by matching ways, decode matching relations
+    const blobs: BlobRef[] = [];
+    const index = new NodeLocationIndex();
+    const acceptWay = (_id: number, tags: OsmTags) => matchesAny(filter.ways, tags);
+    const acceptRelation = (tags: OsmTags) => matchesAny(filter.relations, tags);
+    const relations: OsmRelation[] = [];
+    const memberWayIds = new Set<number>();
+
+    for (let offset = 0, frame = await readFrame(fh, 0); frame; frame = await readFrame(fh, offset)) {
+      if (frame.type === 'OSMHeader') {
+        decodeHeaderBlock(frame.data);
+      } else if (frame.type === 'OSMData') {
+        const block = decodePrimitiveBlock(frame.data);
+        const kinds = scanGroupKinds(block);
+        blobs.push({ offset, ...kinds });
+        if (kinds.hasWays) {
+          forEachWay(block, acceptWay, (_id, _tags, refs) => {
+            for (const ref of refs) index.add(ref);
+          });
+        }
+        if (kinds.hasRelations && filter.relations.length > 0) {
+          forEachRelation(block, acceptRelation, (id, tags, members) => {
+            relations.push({ type: 'relation', id, tags, members });
+            for (const member of members) {
+              if (member.type === 'node') index.add(member.ref);
+              else if (member.type === 'way') memberWayIds.add(member.ref);
+            }
+          });
+        }
+      }
+      offset = frame.nextOffset;
+    }
+
+    // Member ways that did not pass the way filter still need their node locations
+    const acceptMemberOnly = (id: number, tags: OsmTags) => memberWayIds.has(id) && !acceptWay(id, tags);
+    if (memberWayIds.size > 0) {
+      for (const blob of blobs) {
+        if (!blob.hasWays) continue;
+        const frame = await readFrame(fh, blob.offset);
+        if (!frame) break;
+        forEachWay(decodePrimitiveBlock(frame.data), acceptMemberOnly, (_id, _tags, refs) => {
+          for (const ref of refs) index.add(ref);
+        });
+      }
+    }
+    index.seal();
+
+    // Pass 2: record referenced node locations, yield matching tagged nodes
+    for (const blob of blobs) {
+      if (!blob.hasNodes) continue;
+      const frame = await readFrame(fh, blob.offset);
+      if (!frame) break;
+      const block = decodePrimitiveBlock(frame.data);
+      const matched: OsmNode[] = [];
+      forEachNode(block, (id, lat, lon, tags) => {
+        if (index.size > 0) index.set(id, lat, lon);
+        if (tags && matchesAny(filter.nodes, tags) && (!area || area.contains(lon / 1e7, lat / 1e7))) {
+          matched.push({ type: 'node', id, lat: lat / 1e7, lon: lon / 1e7, tags });
+        }
+      });
+      yield* matched;
+    }
+
+    // Pass 3: yield matching ways with resolved coordinates, keep relation member geometry
+    const memberWays = new Map<number, Pick<OsmWay, 'nodeIds' | 'coords'>>();
+    const acceptWayOrMember = (id: number, tags: OsmTags) => acceptWay(id, tags) || memberWayIds.has(id);
+    for (const blob of blobs) {
+      if (!blob.hasWays) continue;
+      const frame = await readFrame(fh, blob.offset);
+      if (!frame) break;
+      const block = decodePrimitiveBlock(frame.data);
+      const matched: OsmWay[] = [];
+      forEachWay(block, acceptWayOrMember, (id, tags, refs) => {
+        const nodeIds: number[] = [];
+        const coords: [number, number][] = [];
+        for (const ref of refs) {
+          const i = index.find(ref);
+          if (i === -1) continue;
+          nodeIds.push(ref);
+          coords.push([index.lon(i) / 1e7, index.lat(i) / 1e7]);
+        }
+        if (memberWayIds.has(id)) memberWays.set(id, { nodeIds, coords });
+        if (coords.length < 2 || !acceptWay(id, tags)) return;
+        if (area && !coords.some(([lon, lat]) => area.contains(lon, lat))) return;
+        matched.push({ type: 'way', id, tags, nodeIds, coords });
+      });
+      yield* matched;
+    }
+
+    // Relations: attach node member locations and way member geometry
+    for (const relation of relations) {
+      for (const member of relation.members) {
+        if (member.type === 'node') {
+          const i = index.find(member.ref);
+          if (i !== -1) member.coords = [[index.lon(i) / 1e7, index.lat(i) / 1e7]];
+        } else if (member.type === 'way') {
+          const way = memberWays.get(member.ref);
+          if (way && way.coords.length > 0) {
+            member.nodeIds = way.nodeIds;
+            member.coords = way.coords;
+          }
+        }
+      }
+      if (area && !relation.members.some((member) => member.coords?.some(([lon, lat]) => area.contains(lon, lat)))) {
+        continue;
+      }
+      yield relation;
+    }
+  } finally {
+    await fh.close();
+  }
+}
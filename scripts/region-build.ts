@@ -0,0 +1,310 @@
+/**
+ * Region Database Build
+ *
+ * PURPOSE: Build a region's SQLite database from a stream of converted rows
+ * RESPONSIBILITY: Create the database, insert rows, derive arms/structures/graph/elevation, spatial index,
+ *                 metadata, stats report, optional tile pack, gzip
+ * DEPENDENCIES: better-sqlite3, region-db.ts, road-graph.ts, structures.ts, roundabout-arms.ts,
+ *               road-elevation.ts, dem.ts, convert.ts, coord-encoding.ts, region-tiles.ts, region-stats.ts
+ * CONSUMERS: build-sqlite.ts (rows parsed from the extracted .json.gz files),
+ *            extract-single.ts --build (rows converted while reading the PBF, in one pass)
+ *
+ * openRegionBuild() opens the database and a transaction; rows go in through the returned
+ * inserts in any interleaving (each table keeps its own insertion order, so both consumers
+ * produce the same row ids); finish() derives everything else and writes
+ * {region}.sqlite.gz, {region}.stats.json and with a tile zoom {region}.tiles; abort()
+ * removes the half-written database instead.
+ */
+
+import { existsSync, mkdirSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { execSync } from 'child_process';
+import { createRequire } from 'module';
+import {
+  SCHEMA_SQL,
+  buildSpatialIndex,
+  prepareInserts,
+  type BundledTrafficCalming,
+  type BundledRoundabout,
+  type BundledRoadSurface,
+  type BundledRoadWay,
+  type BundledTurnRestriction,
+  type BundledIntersectionControl,
+} from './region-db.js';
+import { buildRoadGraph } from './road-graph.js';
+import { buildStructures } from './structures.js';
+import { buildRoundaboutArms } from './roundabout-arms.js';
+import { buildRoadElevation } from './road-elevation.js';
+import { DemTileSet } from './dem.js';
+import { convertRoadCurves } from './convert.js';
+import { type CoordEncoding } from './coord-encoding.js';
+import { tilePackFileName, writeTilePack } from './region-tiles.js';
+import { collectRegionStats, statsFileName, type ExtractStats } from './region-stats.js';
+
+const require = createRequire(import.meta.url);
+
+const Database = require('better-sqlite3');
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Optional DEM input: a directory of .hgt / GeoTIFF tiles and the source name recorded in metadata
+ */
+export interface DemOptions {
+  dir: string;
+  source: string;
+}
+
+export interface RegionBuildOptions {
+  regionId: string;
+  /** Where the .sqlite.gz, stats report and tile pack go */
+  outputDir: string;
+  /** Where the uncompressed database is built */
+  workDir: string;
+  coordEncoding: CoordEncoding;
+  dem?: DemOptions;
+  tileZoom?: number;
+}
+
+/** Top-level fields of the extraction, recorded in the metadata table */
+export interface RegionBuildMetadata {
+  version: string;
+  region: string;
+  replicationSequence?: string | number;
+  countryCode?: string;
+  profileHash?: string;
+}
+
+export interface RegionBuildCounts {
+  trafficCalming: number;
+  roundabouts: number;
+  surfaces: number;
+  ways: number;
+  curves: number;
+  restrictions: number;
+  controls: number;
+}
+
+export interface RegionBuild {
+  trafficCalming(tc: BundledTrafficCalming): void;
+  roundabout(ra: BundledRoundabout): void;
+  surface(rs: BundledRoadSurface): void;
+  /** Inserts the way and the curves detected on it */
+  way(rw: BundledRoadWay): void;
+  turnRestriction(tr: BundledTurnRestriction): void;
+  intersectionControl(ic: BundledIntersectionControl): void;
+  readonly counts: Readonly<RegionBuildCounts>;
+  /**
+   * Derive the remaining tables, write metadata and commit, then write the stats report,
+   * the tile pack and the .sqlite.gz. `unknownSurfaces` are the raw surface tags the
+   * extraction mapped to unknown, for the stats report.
+   */
+  finish(meta: RegionBuildMetadata, unknownSurfaces?: ExtractStats['unknownSurfaces']): Promise<void>;
+  /** Close the database after a failure and remove it with any output finish() had started */
+  abort(): void;
+}
+
+// =============================================================================
+// BUILD
+// =============================================================================
+
+/**
+ * Open a fresh database for the region in the work directory, removing earlier outputs
+ * (database, tile pack and stats report, which would not match the new build)
+ */
+export function openRegionBuild(options: RegionBuildOptions): RegionBuild {
+  const { regionId, outputDir, workDir, coordEncoding, dem: demOptions, tileZoom } = options;
+  const t0 = Date.now();
+
+  // Index DEM tiles up front so a bad directory fails before any work
+  const dem = demOptions ? DemTileSet.open(demOptions.dir) : undefined;
+  if (dem) console.log(`DEM: ${demOptions!.source} (${dem.tileCount} ${dem.formats.join('+')} tiles)`);
+
+  const sqlitePath = join(workDir, `${regionId}.sqlite`);
+  const sqliteGzPath = join(outputDir, `${regionId}.sqlite.gz`);
+  const tilePackPath = join(outputDir, tilePackFileName(regionId));
+  const statsPath = join(outputDir, statsFileName(regionId));
+
+  // Clean up any previous output
+  const outputs = [sqlitePath, sqliteGzPath, tilePackPath, statsPath];
+  mkdirSync(workDir, { recursive: true });
+  mkdirSync(outputDir, { recursive: true });
+  for (const path of outputs) {
+    if (existsSync(path)) unlinkSync(path);
+  }
+
+  const db = new Database(sqlitePath);
+
+  // Use DELETE journal mode for cross-SQLite-version compatibility (not WAL)
+  db.pragma('journal_mode = DELETE');
+  // Performance pragmas for bulk insert
+  db.pragma('synchronous = OFF');
+  db.pragma('cache_size = -64000'); // 64MB cache
+
+  db.exec(SCHEMA_SQL);
+
+  // One transaction for all inserts
+  db.exec('BEGIN TRANSACTION');
+
+  const insert = prepareInserts(db, coordEncoding);
+  console.log(`Coordinate encoding: ${coordEncoding}`);
+
+  const counts: RegionBuildCounts = {
+    trafficCalming: 0,
+    roundabouts: 0,
+    surfaces: 0,
+    ways: 0,
+    curves: 0,
+    restrictions: 0,
+    controls: 0,
+  };
+
+  return {
+    counts,
+
+    trafficCalming(tc) {
+      insert.trafficCalming(tc);
+      counts.trafficCalming++;
+    },
+
+    roundabout(ra) {
+      insert.roundabout(ra);
+      counts.roundabouts++;
+    },
+
+    surface(rs) {
+      insert.surface(rs);
+      counts.surfaces++;
+    },
+
+    way(rw) {
+      insert.way(rw);
+      counts.ways++;
+      if (rw.wayId === undefined) return;
+      for (const curve of convertRoadCurves(rw.wayId, rw.coords)) {
+        insert.curve(curve);
+        counts.curves++;
+      }
+    },
+
+    turnRestriction(tr) {
+      insert.turnRestriction(tr);
+      counts.restrictions++;
+    },
+
+    intersectionControl(ic) {
+      insert.intersectionControl(ic);
+      counts.controls++;
+    },
+
+    async finish(meta, unknownSurfaces) {
+      // Sample terrain elevation along road ways
+      let elevationCount = 0;
+      if (dem) {
+        console.log('Sampling road elevation...');
+        const elevation = buildRoadElevation(db, dem);
+        elevationCount = elevation.sampled;
+        console.log(`  ✓ ${elevation.sampled} road ways with elevation`);
+        if (elevation.uncovered > 0) console.log(`  ⚠ ${elevation.uncovered} road ways outside DEM coverage`);
+      }
+
+      // Match road ways against roundabout rings
+      console.log('Finding roundabout arms...');
+      const armCount = buildRoundaboutArms(db);
+      console.log(`  ✓ ${armCount} roundabout arms`);
+
+      // Merge bridge/tunnel ways into whole structures
+      console.log('Merging structures...');
+      const structureCount = buildStructures(db, coordEncoding);
+      console.log(`  ✓ ${structureCount} bridges and tunnels`);
+
+      // Derive the routable graph from the inserted road ways
+      console.log('Building road graph...');
+      const graph = buildRoadGraph(db, coordEncoding);
+      console.log(`  ✓ ${graph.nodes} graph nodes, ${graph.edges} graph edges`);
+
+      // Build R*Tree spatial indexes from the inserted rows
+      console.log('Building spatial index...');
+      buildSpatialIndex(db);
+      console.log(
+        '  ✓ R*Tree indexes for ways, surfaces, traffic calming, roundabouts, turn restrictions, intersection controls, curves, structures',
+      );
+
+      // Insert metadata
+      const insertMeta = db.prepare('INSERT INTO metadata (key, value) VALUES (?, ?)');
+      insertMeta.run('version', meta.version);
+      insertMeta.run('region', meta.region);
+      insertMeta.run('createdAt', new Date().toISOString());
+      insertMeta.run('hasSurfaceData', counts.surfaces > 0 ? 'true' : 'false');
+      insertMeta.run('hasWayData', counts.ways > 0 ? 'true' : 'false');
+      insertMeta.run('hasSpatialIndex', 'true');
+      insertMeta.run('hasTurnRestrictions', counts.restrictions > 0 ? 'true' : 'false');
+      insertMeta.run('hasIntersectionControls', counts.controls > 0 ? 'true' : 'false');
+      insertMeta.run('hasRoadCurves', counts.curves > 0 ? 'true' : 'false');
+      insertMeta.run('hasRoundaboutArms', armCount > 0 ? 'true' : 'false');
+      insertMeta.run('hasStructures', structureCount > 0 ? 'true' : 'false');
+      insertMeta.run('hasRoadGraph', graph.edges > 0 ? 'true' : 'false');
+      insertMeta.run('hasElevation', elevationCount > 0 ? 'true' : 'false');
+      if (demOptions) insertMeta.run('demSource', demOptions.source);
+      insertMeta.run('coordEncoding', coordEncoding);
+      if (meta.countryCode) insertMeta.run('countryCode', meta.countryCode);
+      if (meta.replicationSequence !== undefined) insertMeta.run('replicationSequence', String(meta.replicationSequence));
+      if (meta.profileHash) insertMeta.run('profileHash', meta.profileHash);
+
+      db.exec('COMMIT');
+
+      // Data-quality report for compare-stats.ts
+      console.log('Collecting stats...');
+      const extractStats: ExtractStats | undefined = unknownSurfaces
+        ? { region: regionId, version: meta.version, unknownSurfaces }
+        : undefined;
+      const stats = collectRegionStats(db, regionId, meta.version, extractStats);
+      writeFileSync(statsPath, JSON.stringify(stats, null, 2) + '\n');
+      const outlierCount = Object.values(stats.outliers).reduce((sum, outlier) => sum + outlier.count, 0);
+      console.log(`  ✓ ${Object.keys(stats.tables).length} tables, ${outlierCount} geometry outliers`);
+      if (!extractStats) console.log('  ⚠ No extract stats, unmapped surface values not recorded');
+
+      // Split into web-mercator tiles for route-based downloads
+      if (tileZoom !== undefined) {
+        console.log(`Splitting into zoom ${tileZoom} tiles...`);
+        const pack = writeTilePack(db, { regionId, version: meta.version, zoom: tileZoom, packPath: tilePackPath, workDir });
+        console.log(
+          `  ✓ ${pack.tiles} tiles, ${pack.edgeRows} rows on tile edges, ${(pack.size / 1024 / 1024).toFixed(1)} MB pack`,
+        );
+      }
+      db.close();
+
+      const sqliteSize = statSync(sqlitePath).size;
+      console.log(`\nSQLite database: ${(sqliteSize / 1024 / 1024).toFixed(1)} MB`);
+
+      // Compress with gzip
+      console.log('Compressing...');
+      execSync(`gzip -9 -c "${sqlitePath}" > "${sqliteGzPath}"`, { stdio: 'inherit' });
+
+      // Remove uncompressed SQLite (only keep .sqlite.gz for release)
+      unlinkSync(sqlitePath);
+
+      const gzSize = statSync(sqliteGzPath).size;
+      const ratio = ((1 - gzSize / sqliteSize) * 100).toFixed(1);
+      const elapsed = ((Date.now() - t0) / 1000).toFixed(1);
+
+      console.log(`\n✓ Built ${regionId}.sqlite.gz`);
+      console.log(
+        `  Rows: ${counts.trafficCalming} tc + ${counts.roundabouts} ra + ${counts.surfaces} surfaces + ` +
+          `${counts.ways} ways + ${counts.curves} curves + ${counts.restrictions} restrictions + ${counts.controls} controls`,
+      );
+      console.log(`  SQLite: ${(sqliteSize / 1024 / 1024).toFixed(1)} MB → gzip: ${(gzSize / 1024 / 1024).toFixed(1)} MB (${ratio}% compression)`);
+      console.log(`  Time: ${elapsed}s`);
+    },
+
+    abort() {
+      // Closing rolls back the open transaction
+      if (db.open) db.close();
+      for (const path of outputs) {
+        if (existsSync(path)) unlinkSync(path);
+      }
+    },
+  };
+}
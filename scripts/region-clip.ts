@@ -0,0 +1,273 @@
+/**
+ * Region Clipping
+ *
+ * PURPOSE: Derived regions — areas cut out of a larger extract by a bounding box or an Osmosis .poly polygon
+ * RESPONSIBILITY: Resolve where a region's PBF comes from, parse .poly files, point-in-area tests
+ * DEPENDENCIES: regions.json, polygon files referenced from it
+ * CONSUMERS: extract-single.ts (cut while reading the PBF), osm-extract.ts (validation, listing)
+ *
+ * A region in regions.json normally maps one-to-one to a Geofabrik extract via `geofabrikPath`.
+ * A derived region has no `geofabrikPath`; it names a source extract and a clip instead:
+ *
+ *   "source": { "region": "europe-germany" }          parent region, downloaded from its geofabrikPath
+ *   "source": { "pbf": "/data/planet-latest.osm.pbf" } local PBF file
+ *   "clip":   { "bbox": [minLon, minLat, maxLon, maxLat] }
+ *   "clip":   { "poly": "polys/berlin.poly" }           Osmosis polygon file format
+ *
+ * Relative paths resolve against the scripts directory. The clip must lie within the region's
+ * `bbox`, which clients use to find the region covering a location.
+ *
+ * The cut follows osmium extract's complete_ways strategy: a node is kept when it lies inside
+ * the area, a way when any of its nodes does (with its full geometry, so a road crossing the
+ * boundary is not cut short), a relation when any member location does.
+ */
+
+import { readFileSync } from 'fs';
+import { basename, isAbsolute, join } from 'path';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type RegionSource = { region: string } | { pbf: string };
+
+export type RegionClip = { bbox: [number, number, number, number] } | { poly: string };
+
+/** The regions.json fields that say where a region's data comes from */
+export interface RegionOrigin {
+  id: string;
+  bbox: [number, number, number, number];
+  geofabrikPath?: string;
+  source?: RegionSource;
+  clip?: RegionClip;
+}
+
+export interface RegionExtract {
+  /** Geofabrik path to download; absent when reading a local PBF */
+  geofabrikPath?: string;
+  /** Absolute path of a local source PBF, which is never deleted */
+  localPbf?: string;
+  /** Area to cut from the source; absent for plain Geofabrik regions */
+  clip?: ClipArea;
+  /** Where the data comes from, for logs (e.g. "europe-germany, cut to polys/berlin.poly") */
+  description: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Latitude bands of the polygon edge index; each point-in-polygon test only crosses one band
+const MAX_BANDS = 1024;
+
+// Slack when checking a clip against the region bbox (bboxes in regions.json are rounded to 0.01°)
+const BBOX_TOLERANCE = 0.01;
+
+// =============================================================================
+// CLIP AREA
+// =============================================================================
+
+/**
+ * A bounding box, or polygon rings with holes, that answers point-in-area queries.
+ * Rings use the even-odd rule on their own; a point is inside when it lies in at least one
+ * outer ring and in no hole.
+ */
+export class ClipArea {
+  /** [minLon, minLat, maxLon, maxLat] */
+  readonly bounds: [number, number, number, number];
+  readonly description: string;
+
+  // Polygon edges as flat columns; edge i runs from (x1[i], y1[i]) to (x2[i], y2[i]) of ring[i]
+  private x1 = new Float64Array(0);
+  private y1 = new Float64Array(0);
+  private x2 = new Float64Array(0);
+  private y2 = new Float64Array(0);
+  private ring = new Uint32Array(0);
+  private holes: boolean[] = [];
+  private bands: Uint32Array[] = [];
+  private bandHeight = 1;
+  private parity = new Uint8Array(0);
+
+  private constructor(bounds: [number, number, number, number], description: string) {
+    this.bounds = bounds;
+    this.description = description;
+  }
+
+  static fromBbox(bbox: [number, number, number, number]): ClipArea {
+    const [minLon, minLat, maxLon, maxLat] = bbox;
+    if (!(minLon < maxLon && minLat < maxLat)) {
+      throw new Error(`Invalid clip bbox ${JSON.stringify(bbox)}: expected [minLon, minLat, maxLon, maxLat]`);
+    }
+    return new ClipArea(bbox, `bbox ${bbox.join(',')}`);
+  }
+
+  /**
+   * Parse an Osmosis polygon file: a name line, then sections of a ring name line
+   * ("!" prefix for holes), "lon lat" lines and END, closed by a final END.
+   */
+  static fromPoly(text: string, name: string): ClipArea {
+    const lines = text.split(/\r?\n/).map((line) => line.trim());
+    const rings: { points: number[]; hole: boolean }[] = [];
+    let i = 1; // line 0 is the polygon name
+    for (;;) {
+      while (i < lines.length && lines[i] === '') i++;
+      if (i >= lines.length) throw new Error(`Invalid .poly file ${name}: missing final END`);
+      const header = lines[i++];
+      if (header === 'END') break;
+
+      const points: number[] = [];
+      for (;;) {
+        if (i >= lines.length) throw new Error(`Invalid .poly file ${name}: ring "${header}" has no END`);
+        const line = lines[i++];
+        if (line === 'END') break;
+        if (line === '') continue;
+        const [lon, lat] = line.split(/\s+/).map(Number);
+        if (!Number.isFinite(lon) || !Number.isFinite(lat)) {
+          throw new Error(`Invalid .poly file ${name}: bad coordinate line "${line}"`);
+        }
+        points.push(lon, lat);
+      }
+      if (points.length < 6) throw new Error(`Invalid .poly file ${name}: ring "${header}" has fewer than 3 points`);
+      rings.push({ points, hole: header.startsWith('!') });
+    }
+    if (!rings.some((ring) => !ring.hole)) throw new Error(`Invalid .poly file ${name}: no outer ring`);
+
+    let minLon = Infinity;
+    let minLat = Infinity;
+    let maxLon = -Infinity;
+    let maxLat = -Infinity;
+    for (const { points, hole } of rings) {
+      if (hole) continue;
+      for (let p = 0; p < points.length; p += 2) {
+        minLon = Math.min(minLon, points[p]);
+        maxLon = Math.max(maxLon, points[p]);
+        minLat = Math.min(minLat, points[p + 1]);
+        maxLat = Math.max(maxLat, points[p + 1]);
+      }
+    }
+
+    const area = new ClipArea([minLon, minLat, maxLon, maxLat], `${name} (${rings.length} rings)`);
+    area.indexRings(rings);
+    return area;
+  }
+
+  static load(clip: RegionClip, baseDir: string): ClipArea {
+    if ('bbox' in clip) return ClipArea.fromBbox(clip.bbox);
+    const polyPath = isAbsolute(clip.poly) ? clip.poly : join(baseDir, clip.poly);
+    return ClipArea.fromPoly(readFileSync(polyPath, 'utf-8'), clip.poly);
+  }
+
+  contains(lon: number, lat: number): boolean {
+    const [minLon, minLat, maxLon, maxLat] = this.bounds;
+    if (lon < minLon || lon > maxLon || lat < minLat || lat > maxLat) return false;
+    if (this.holes.length === 0) return true;
+
+    const band = this.bands[Math.min(this.bands.length - 1, Math.floor((lat - minLat) / this.bandHeight))];
+    const parity = this.parity.fill(0);
+    for (let k = 0; k < band.length; k++) {
+      const e = band[k];
+      const y1 = this.y1[e];
+      const y2 = this.y2[e];
+      if (y1 > lat === y2 > lat) continue;
+      const crossLon = this.x1[e] + ((lat - y1) / (y2 - y1)) * (this.x2[e] - this.x1[e]);
+      if (lon < crossLon) parity[this.ring[e]] ^= 1;
+    }
+
+    let inside = false;
+    for (let r = 0; r < this.holes.length; r++) {
+      if (!parity[r]) continue;
+      if (this.holes[r]) return false;
+      inside = true;
+    }
+    return inside;
+  }
+
+  /**
+   * Store ring edges and bucket them into latitude bands, so a query only tests the
+   * edges that span its latitude instead of every vertex of the polygon
+   */
+  private indexRings(rings: { points: number[]; hole: boolean }[]): void {
+    const edgeCount = rings.reduce((sum, { points }) => sum + points.length / 2, 0);
+    this.x1 = new Float64Array(edgeCount);
+    this.y1 = new Float64Array(edgeCount);
+    this.x2 = new Float64Array(edgeCount);
+    this.y2 = new Float64Array(edgeCount);
+    this.ring = new Uint32Array(edgeCount);
+    this.holes = rings.map((ring) => ring.hole);
+    this.parity = new Uint8Array(rings.length);
+
+    const [, minLat, , maxLat] = this.bounds;
+    const bandCount = Math.max(1, Math.min(MAX_BANDS, edgeCount));
+    this.bandHeight = (maxLat - minLat) / bandCount || 1;
+    const bandOf = (lat: number) =>
+      Math.max(0, Math.min(bandCount - 1, Math.floor((lat - minLat) / this.bandHeight)));
+    const bandEdges: number[][] = Array.from({ length: bandCount }, () => []);
+
+    let e = 0;
+    rings.forEach(({ points }, r) => {
+      const n = points.length / 2;
+      for (let p = 0; p < n; p++) {
+        // Rings close implicitly: the last point connects back to the first
+        const q = (p + 1) % n;
+        this.x1[e] = points[2 * p];
+        this.y1[e] = points[2 * p + 1];
+        this.x2[e] = points[2 * q];
+        this.y2[e] = points[2 * q + 1];
+        this.ring[e] = r;
+        const from = bandOf(Math.min(this.y1[e], this.y2[e]));
+        const to = bandOf(Math.max(this.y1[e], this.y2[e]));
+        for (let b = from; b <= to; b++) bandEdges[b].push(e);
+        e++;
+      }
+    });
+    this.bands = bandEdges.map((edges) => Uint32Array.from(edges));
+  }
+}
+
+// =============================================================================
+// SOURCE RESOLUTION
+// =============================================================================
+
+/**
+ * Work out which PBF a region is read from and what to cut out of it. Throws on
+ * inconsistent definitions: a clip without a source (or the reverse), a region with both
+ * a geofabrikPath and a source, an unknown or itself derived parent, or a clip reaching
+ * outside the region's bbox.
+ */
+export function resolveRegionExtract(region: RegionOrigin, regions: RegionOrigin[], baseDir: string): RegionExtract {
+  if (!region.source && !region.clip) {
+    if (!region.geofabrikPath) throw new Error(`Region ${region.id} has neither a geofabrikPath nor a source`);
+    return { geofabrikPath: region.geofabrikPath, description: region.geofabrikPath };
+  }
+  if (!region.source || !region.clip) {
+    throw new Error(`Region ${region.id}: a derived region needs both "source" and "clip"`);
+  }
+  if (region.geofabrikPath) {
+    throw new Error(`Region ${region.id}: "geofabrikPath" and "source" are mutually exclusive`);
+  }
+
+  const clip = ClipArea.load(region.clip, baseDir);
+  const [minLon, minLat, maxLon, maxLat] = region.bbox;
+  const [clipMinLon, clipMinLat, clipMaxLon, clipMaxLat] = clip.bounds;
+  if (
+    clipMinLon < minLon - BBOX_TOLERANCE ||
+    clipMinLat < minLat - BBOX_TOLERANCE ||
+    clipMaxLon > maxLon + BBOX_TOLERANCE ||
+    clipMaxLat > maxLat + BBOX_TOLERANCE
+  ) {
+    throw new Error(`Region ${region.id}: clip ${clip.bounds.join(',')} reaches outside bbox ${region.bbox.join(',')}`);
+  }
+
+  if ('pbf' in region.source) {
+    const localPbf = isAbsolute(region.source.pbf) ? region.source.pbf : join(baseDir, region.source.pbf);
+    return { localPbf, clip, description: `${basename(localPbf)}, cut to ${clip.description}` };
+  }
+
+  const parentId = region.source.region;
+  const parent = regions.find((r) => r.id === parentId);
+  if (!parent) throw new Error(`Region ${region.id}: source region ${parentId} is not in regions.json`);
+  if (!parent.geofabrikPath) {
+    throw new Error(`Region ${region.id}: source region ${parentId} must be a Geofabrik region, not a derived one`);
+  }
+  return { geofabrikPath: parent.geofabrikPath, clip, description: `${parentId}, cut to ${clip.description}` };
+}
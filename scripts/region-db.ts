@@ -0,0 +1,674 @@
+/**
+ * Region Database Schema
+ *
+ * PURPOSE: Single definition of the region SQLite schema and its row writers
+ * RESPONSIBILITY: SCHEMA_SQL, schema upgrades, R*Tree spatial index, bbox computation, prepared inserts
+ *                 shared by build and update
+ * DEPENDENCIES: better-sqlite3 (callers pass an open Database), coord-encoding.ts
+ * CONSUMERS: region-build.ts, build-sqlite.ts, update-region.ts, region-delta.ts, dedupe-borders.ts
+ */
+
+import type Database from 'better-sqlite3';
+import { DEFAULT_COORD_ENCODING, serializeCoords, type CoordEncoding } from './coord-encoding.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+type Db = Database.Database;
+
+export interface BundledTrafficCalming {
+  lat: number;
+  lon: number;
+  type: string;
+  tags?: Record<string, string>;
+  endLat?: number;
+  endLon?: number;
+  wayId?: number;
+  nodeId?: number;
+}
+
+export interface BundledRoundabout {
+  lat: number;
+  lon: number;
+  radius?: number;
+  meanRadius?: number;
+  type: string;
+  nodeId?: number;
+  wayId?: number;
+  wayIds?: number[];
+  nodeIds?: number[];
+}
+
+export interface BundledRoadSurface {
+  surface: string;
+  coords: number[];
+  wayId?: number;
+}
+
+export interface BundledRoadWay {
+  highway: string;
+  surface?: string;
+  coords: number[];
+  wayId?: number;
+  nodeIds?: number[];
+  maxspeedForward?: number;
+  maxspeedBackward?: number;
+  maxspeedSource?: string;
+  oneway?: number;
+  lanes?: number;
+  lanesForward?: number;
+  lanesBackward?: number;
+  junction?: string;
+  bridge?: boolean;
+  tunnel?: boolean;
+  structure?: string;
+  structureName?: string;
+  layer?: number;
+  ref?: string;
+  name?: string;
+}
+
+export interface BundledIntersectionControl {
+  lat: number;
+  lon: number;
+  type: string;
+  crossing?: string;
+  direction?: string;
+  nodeId?: number;
+}
+
+export interface BundledTurnRestriction {
+  relationId: number;
+  restriction: string;
+  vehicle?: string;
+  condition?: string;
+  except?: string;
+  fromWayId: number;
+  viaNodeId?: number;
+  viaWayIds?: number[];
+  toWayId: number;
+  lat: number;
+  lon: number;
+  fromCoords: number[];
+  toCoords: number[];
+}
+
+export interface BundledRoadCurve {
+  wayId: number;
+  startLat: number;
+  startLon: number;
+  endLat: number;
+  endLon: number;
+  minRadius: number;
+  direction: string;
+  deflection: number;
+  advisorySpeed: number;
+}
+
+export interface RegionDbInserts {
+  trafficCalming(tc: BundledTrafficCalming): void;
+  roundabout(ra: BundledRoundabout): void;
+  surface(rs: BundledRoadSurface): void;
+  way(rw: BundledRoadWay): void;
+  turnRestriction(tr: BundledTurnRestriction): void;
+  intersectionControl(ic: BundledIntersectionControl): void;
+  curve(rc: BundledRoadCurve): void;
+}
+
+// =============================================================================
+// SCHEMA — must match osmDatabase.ts SCHEMA_SQL exactly
+// =============================================================================
+
+// node_id / way_id / node_ids identify the source OSM element of each row so
+// update-region.ts can apply OsmChange diffs in place. Older clients that select
+// explicit columns are unaffected by the extra columns.
+// maxspeed_forward/backward are km/h; maxspeed_source is 'sign', 'zone' (resolved
+// from a country default such as DE:urban) or 'none' (unlimited, speeds NULL).
+// oneway is 1 (node order), -1 (against node order) or 0 (two-way); bridge/tunnel
+// are 0/1 and layer defaults to 0. NULL in these columns means the row predates them.
+// Ring roundabouts (type 'roundabout' or 'circular') are assembled from all their
+// ways: lat/lon is the area-weighted centre, radius the max and mean_radius the
+// length-weighted mean distance to the ring, way_ids/node_ids the ring members with
+// node_ids in driving order. roundabout_arms (roundabout-arms.ts) lists the road ways
+// meeting a ring: ring_index is the position of node_id in node_ids (count exits in
+// ring_index order from the entry), bearing points away from the ring in degrees, and
+// direction is 'entry', 'exit' or 'both' from the arm's oneway.
+// structure is the bridge=* / tunnel=* value when not 'yes' (viaduct, building_passage,
+// ...), structure_name the bridge:name / tunnel:name.
+// road_elevation is only filled when build-sqlite runs with --dem (metadata.demSource):
+// road_way_id is road_ways.id, elevations a JSON array of meters per vertex, gain/loss
+// meters in node order and max_grade the steepest grade in percent over >= 50 m.
+// intersection_controls holds highway=stop/give_way/traffic_signals/crossing nodes;
+// direction is the raw direction or traffic_signals:direction value.
+// turn_restrictions has one row per restriction tag and from/to pair of a
+// type=restriction relation; vehicle and condition come from restriction:<vehicle>
+// and restriction:conditional, lat/lon is the via point.
+// road_curves has one row per curve found on a road way (geometry.ts detectCurves):
+// min_radius in meters, direction 'left'/'right' in node order, deflection in degrees,
+// advisory_speed in km/h.
+// structures merges connected bridge/tunnel road ways (and the two carriageways of a
+// dual carriageway) into one row: kind 'bridge'/'tunnel', type the tag value, way_ids
+// a JSON array, coords the longest carriageway's polyline and length its meters.
+// graph_nodes / graph_edges are derived from road_ways by road-graph.ts: nodes are
+// way endpoints and vertices shared between ways, edges the way pieces between
+// them (length in metres, oneway copied from the way).
+// coords / from_coords / to_coords hold JSON TEXT or an e7-delta-varint BLOB
+// depending on metadata.coordEncoding (see coord-encoding.ts).
+export const SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS road_surfaces (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  surface TEXT NOT NULL,
+  coords TEXT NOT NULL,
+  min_lat REAL NOT NULL,
+  max_lat REAL NOT NULL,
+  min_lon REAL NOT NULL,
+  max_lon REAL NOT NULL,
+  way_id INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_surfaces_bbox ON road_surfaces(min_lat, max_lat, min_lon, max_lon);
+
+CREATE TABLE IF NOT EXISTS traffic_calming (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  lat REAL NOT NULL,
+  lon REAL NOT NULL,
+  type TEXT NOT NULL,
+  end_lat REAL,
+  end_lon REAL,
+  way_id INTEGER,
+  tags TEXT,
+  node_id INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_tc_lat_lon ON traffic_calming(lat, lon);
+
+CREATE TABLE IF NOT EXISTS roundabouts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  lat REAL NOT NULL,
+  lon REAL NOT NULL,
+  radius REAL,
+  type TEXT NOT NULL,
+  node_id INTEGER,
+  way_id INTEGER,
+  mean_radius REAL,
+  way_ids TEXT,
+  node_ids TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_ra_lat_lon ON roundabouts(lat, lon);
+
+CREATE TABLE IF NOT EXISTS roundabout_arms (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  roundabout_id INTEGER NOT NULL,
+  ring_index INTEGER NOT NULL,
+  node_id INTEGER NOT NULL,
+  way_id INTEGER NOT NULL,
+  bearing REAL NOT NULL,
+  highway TEXT NOT NULL,
+  direction TEXT NOT NULL,
+  name TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_rarm_roundabout ON roundabout_arms(roundabout_id, ring_index);
+
+CREATE TABLE IF NOT EXISTS road_ways (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  highway TEXT NOT NULL,
+  surface TEXT,
+  coords TEXT NOT NULL,
+  min_lat REAL NOT NULL,
+  max_lat REAL NOT NULL,
+  min_lon REAL NOT NULL,
+  max_lon REAL NOT NULL,
+  way_id INTEGER,
+  node_ids TEXT,
+  maxspeed_forward INTEGER,
+  maxspeed_backward INTEGER,
+  maxspeed_source TEXT,
+  oneway INTEGER,
+  lanes INTEGER,
+  lanes_forward INTEGER,
+  lanes_backward INTEGER,
+  junction TEXT,
+  bridge INTEGER,
+  tunnel INTEGER,
+  structure TEXT,
+  structure_name TEXT,
+  layer INTEGER,
+  ref TEXT,
+  name TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_ways_bbox ON road_ways(min_lat, max_lat, min_lon, max_lon);
+
+CREATE TABLE IF NOT EXISTS road_elevation (
+  road_way_id INTEGER PRIMARY KEY,
+  way_id INTEGER,
+  elevations TEXT NOT NULL,
+  gain REAL NOT NULL,
+  loss REAL NOT NULL,
+  max_grade REAL NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS intersection_controls (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  lat REAL NOT NULL,
+  lon REAL NOT NULL,
+  type TEXT NOT NULL,
+  crossing TEXT,
+  direction TEXT,
+  node_id INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_ic_lat_lon ON intersection_controls(lat, lon);
+
+CREATE TABLE IF NOT EXISTS turn_restrictions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  relation_id INTEGER NOT NULL,
+  restriction TEXT NOT NULL,
+  vehicle TEXT,
+  condition TEXT,
+  except_vehicles TEXT,
+  from_way_id INTEGER NOT NULL,
+  via_node_id INTEGER,
+  via_way_ids TEXT,
+  to_way_id INTEGER NOT NULL,
+  lat REAL NOT NULL,
+  lon REAL NOT NULL,
+  from_coords TEXT NOT NULL,
+  to_coords TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_tr_lat_lon ON turn_restrictions(lat, lon);
+
+CREATE TABLE IF NOT EXISTS road_curves (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  way_id INTEGER NOT NULL,
+  start_lat REAL NOT NULL,
+  start_lon REAL NOT NULL,
+  end_lat REAL NOT NULL,
+  end_lon REAL NOT NULL,
+  min_radius REAL NOT NULL,
+  direction TEXT NOT NULL,
+  deflection REAL NOT NULL,
+  advisory_speed INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_rc_start ON road_curves(start_lat, start_lon);
+
+CREATE TABLE IF NOT EXISTS structures (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  kind TEXT NOT NULL,
+  type TEXT NOT NULL,
+  name TEXT,
+  layer INTEGER NOT NULL,
+  way_ids TEXT NOT NULL,
+  carriageways INTEGER NOT NULL,
+  length REAL NOT NULL,
+  coords TEXT NOT NULL,
+  min_lat REAL NOT NULL,
+  max_lat REAL NOT NULL,
+  min_lon REAL NOT NULL,
+  max_lon REAL NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_structures_bbox ON structures(min_lat, max_lat, min_lon, max_lon);
+
+CREATE TABLE IF NOT EXISTS graph_nodes (
+  node_id INTEGER PRIMARY KEY,
+  lat REAL NOT NULL,
+  lon REAL NOT NULL,
+  degree INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_gn_lat_lon ON graph_nodes(lat, lon);
+
+CREATE TABLE IF NOT EXISTS graph_edges (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  from_node_id INTEGER NOT NULL,
+  to_node_id INTEGER NOT NULL,
+  way_id INTEGER NOT NULL,
+  highway TEXT NOT NULL,
+  oneway INTEGER NOT NULL,
+  length REAL NOT NULL,
+  coords TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_ge_from ON graph_edges(from_node_id);
+CREATE INDEX IF NOT EXISTS idx_ge_to ON graph_edges(to_node_id);
+
+CREATE TABLE IF NOT EXISTS metadata (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+`;
+
+// Data tables every database built from this schema carries. generate-manifest.ts
+// advertises them per region so clients know what a download contains.
+export const SQLITE_LAYERS = [
+  'traffic_calming',
+  'roundabouts',
+  'roundabout_arms',
+  'road_surfaces',
+  'road_ways',
+  'intersection_controls',
+  'turn_restrictions',
+  'road_curves',
+  'structures',
+  'graph_nodes',
+  'graph_edges',
+];
+
+// Written by dedupe-borders.ts after all regions are built, so only databases that have a
+// neighbouring region carry it (metadata.borderOverlap). One row per OSM element this
+// region shares with `neighbour`; `owner` is whichever of the two regions keeps it. The
+// element is osm_type 'node' (node_id), 'way' (way_id of any table) or 'relation'
+// (turn_restrictions.relation_id). A client with `neighbour` loaded too skips this
+// region's rows for the element unless `owner` is this region.
+export const BORDER_DUPLICATES_SQL = `
+CREATE TABLE IF NOT EXISTS border_duplicates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  osm_type TEXT NOT NULL,
+  osm_id INTEGER NOT NULL,
+  neighbour TEXT NOT NULL,
+  owner TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_bd_neighbour ON border_duplicates(neighbour, osm_type, osm_id);
+`;
+
+// Columns holding another table's row id rather than an OSM ID. Row ids are only
+// stable within one database, so region-delta.ts follows these when matching rows
+// across releases. Every `<table>_rtree` id also refers to `<table>`.
+export const ROW_ID_REFERENCES: Record<string, Record<string, string>> = {
+  roundabout_arms: { roundabout_id: 'roundabouts' },
+  road_elevation: { road_way_id: 'road_ways' },
+};
+
+// R*Tree spatial indexes, one per table, keyed by the base table's row id.
+// The composite bbox B-trees above only narrow on min_lat; these answer true 2D
+// window queries. Point tables index a degenerate box (bridges/tunnels span both
+// endpoints, as do curves). Query pattern:
+//   SELECT w.* FROM road_ways_rtree r JOIN road_ways w ON w.id = r.id
+//   WHERE r.max_lat >= :south AND r.min_lat <= :north AND r.max_lon >= :west AND r.min_lon <= :east
+export const SPATIAL_INDEX_SQL = `
+CREATE VIRTUAL TABLE IF NOT EXISTS road_ways_rtree USING rtree(id, min_lat, max_lat, min_lon, max_lon);
+CREATE VIRTUAL TABLE IF NOT EXISTS road_surfaces_rtree USING rtree(id, min_lat, max_lat, min_lon, max_lon);
+CREATE VIRTUAL TABLE IF NOT EXISTS traffic_calming_rtree USING rtree(id, min_lat, max_lat, min_lon, max_lon);
+CREATE VIRTUAL TABLE IF NOT EXISTS roundabouts_rtree USING rtree(id, min_lat, max_lat, min_lon, max_lon);
+CREATE VIRTUAL TABLE IF NOT EXISTS intersection_controls_rtree USING rtree(id, min_lat, max_lat, min_lon, max_lon);
+CREATE VIRTUAL TABLE IF NOT EXISTS turn_restrictions_rtree USING rtree(id, min_lat, max_lat, min_lon, max_lon);
+CREATE VIRTUAL TABLE IF NOT EXISTS road_curves_rtree USING rtree(id, min_lat, max_lat, min_lon, max_lon);
+CREATE VIRTUAL TABLE IF NOT EXISTS structures_rtree USING rtree(id, min_lat, max_lat, min_lon, max_lon);
+`;
+
+const POPULATE_SPATIAL_INDEX_SQL = `
+DELETE FROM road_ways_rtree;
+INSERT INTO road_ways_rtree (id, min_lat, max_lat, min_lon, max_lon)
+  SELECT id, min_lat, max_lat, min_lon, max_lon FROM road_ways;
+DELETE FROM road_surfaces_rtree;
+INSERT INTO road_surfaces_rtree (id, min_lat, max_lat, min_lon, max_lon)
+  SELECT id, min_lat, max_lat, min_lon, max_lon FROM road_surfaces;
+DELETE FROM traffic_calming_rtree;
+INSERT INTO traffic_calming_rtree (id, min_lat, max_lat, min_lon, max_lon)
+  SELECT id,
+    min(lat, coalesce(end_lat, lat)), max(lat, coalesce(end_lat, lat)),
+    min(lon, coalesce(end_lon, lon)), max(lon, coalesce(end_lon, lon))
+  FROM traffic_calming;
+DELETE FROM roundabouts_rtree;
+INSERT INTO roundabouts_rtree (id, min_lat, max_lat, min_lon, max_lon)
+  SELECT id, lat, lat, lon, lon FROM roundabouts;
+DELETE FROM intersection_controls_rtree;
+INSERT INTO intersection_controls_rtree (id, min_lat, max_lat, min_lon, max_lon)
+  SELECT id, lat, lat, lon, lon FROM intersection_controls;
+DELETE FROM turn_restrictions_rtree;
+INSERT INTO turn_restrictions_rtree (id, min_lat, max_lat, min_lon, max_lon)
+  SELECT id, lat, lat, lon, lon FROM turn_restrictions;
+DELETE FROM road_curves_rtree;
+INSERT INTO road_curves_rtree (id, min_lat, max_lat, min_lon, max_lon)
+  SELECT id, min(start_lat, end_lat), max(start_lat, end_lat), min(start_lon, end_lon), max(start_lon, end_lon)
+  FROM road_curves;
+DELETE FROM structures_rtree;
+INSERT INTO structures_rtree (id, min_lat, max_lat, min_lon, max_lon)
+  SELECT id, min_lat, max_lat, min_lon, max_lon FROM structures;
+`;
+
+// Columns added after the first updatable schema, per table. upgradeSchema adds any
+// that are missing (NULL for existing rows) before an update writes new rows.
+const ADDED_COLUMNS: Record<string, [name: string, type: string][]> = {
+  roundabouts: [
+    ['mean_radius', 'REAL'],
+    ['way_ids', 'TEXT'],
+    ['node_ids', 'TEXT'],
+  ],
+  road_ways: [
+    ['maxspeed_forward', 'INTEGER'],
+    ['maxspeed_backward', 'INTEGER'],
+    ['maxspeed_source', 'TEXT'],
+    ['oneway', 'INTEGER'],
+    ['lanes', 'INTEGER'],
+    ['lanes_forward', 'INTEGER'],
+    ['lanes_backward', 'INTEGER'],
+    ['junction', 'TEXT'],
+    ['bridge', 'INTEGER'],
+    ['tunnel', 'INTEGER'],
+    ['structure', 'TEXT'],
+    ['structure_name', 'TEXT'],
+    ['layer', 'INTEGER'],
+    ['ref', 'TEXT'],
+    ['name', 'TEXT'],
+  ],
+};
+
+// Lookup indexes used only while applying diffs. Created on demand and dropped
+// again afterwards so shipped databases don't carry them.
+export const UPDATE_INDEX_SQL = `
+CREATE INDEX IF NOT EXISTS idx_tc_node_id ON traffic_calming(node_id);
+CREATE INDEX IF NOT EXISTS idx_tc_way_id ON traffic_calming(way_id);
+CREATE INDEX IF NOT EXISTS idx_ra_node_id ON roundabouts(node_id);
+CREATE INDEX IF NOT EXISTS idx_ra_way_id ON roundabouts(way_id);
+CREATE INDEX IF NOT EXISTS idx_surfaces_way_id ON road_surfaces(way_id);
+CREATE INDEX IF NOT EXISTS idx_ways_way_id ON road_ways(way_id);
+CREATE INDEX IF NOT EXISTS idx_ic_node_id ON intersection_controls(node_id);
+CREATE INDEX IF NOT EXISTS idx_tr_relation_id ON turn_restrictions(relation_id);
+CREATE INDEX IF NOT EXISTS idx_tr_from_way_id ON turn_restrictions(from_way_id);
+CREATE INDEX IF NOT EXISTS idx_tr_to_way_id ON turn_restrictions(to_way_id);
+CREATE INDEX IF NOT EXISTS idx_tr_via_node_id ON turn_restrictions(via_node_id);
+CREATE INDEX IF NOT EXISTS idx_rc_way_id ON road_curves(way_id);
+CREATE INDEX IF NOT EXISTS idx_re_way_id ON road_elevation(way_id);
+`;
+
+export const DROP_UPDATE_INDEX_SQL = `
+DROP INDEX IF EXISTS idx_tc_node_id;
+DROP INDEX IF EXISTS idx_tc_way_id;
+DROP INDEX IF EXISTS idx_ra_node_id;
+DROP INDEX IF EXISTS idx_ra_way_id;
+DROP INDEX IF EXISTS idx_surfaces_way_id;
+DROP INDEX IF EXISTS idx_ways_way_id;
+DROP INDEX IF EXISTS idx_ic_node_id;
+DROP INDEX IF EXISTS idx_tr_relation_id;
+DROP INDEX IF EXISTS idx_tr_from_way_id;
+DROP INDEX IF EXISTS idx_tr_to_way_id;
+DROP INDEX IF EXISTS idx_tr_via_node_id;
+DROP INDEX IF EXISTS idx_rc_way_id;
+DROP INDEX IF EXISTS idx_re_way_id;
+`;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Compute bounding box from a flat coords array [lon1, lat1, lon2, lat2, ...].
+ * Same logic as computeBboxFromFlatCoords in osmDatabase.ts.
+ */
+export function computeBboxFromFlatCoords(coords: number[]): {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+} {
+  let minLat = Infinity;
+  let maxLat = -Infinity;
+  let minLon = Infinity;
+  let maxLon = -Infinity;
+
+  for (let i = 0; i < coords.length - 1; i += 2) {
+    const lon = coords[i];
+    const lat = coords[i + 1];
+    if (lat < minLat) minLat = lat;
+    if (lat > maxLat) maxLat = lat;
+    if (lon < minLon) minLon = lon;
+    if (lon > maxLon) maxLon = lon;
+  }
+
+  return { minLat, maxLat, minLon, maxLon };
+}
+
+/**
+ * Bring a database built by an older version of this schema up to date in place.
+ */
+export function upgradeSchema(db: Db): void {
+  // Tables added since the database was built (CREATE ... IF NOT EXISTS throughout)
+  db.exec(SCHEMA_SQL);
+
+  for (const [table, added] of Object.entries(ADDED_COLUMNS)) {
+    const columns = new Set(
+      (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name),
+    );
+    for (const [name, type] of added) {
+      if (!columns.has(name)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`);
+    }
+  }
+}
+
+/**
+ * Create the R*Tree tables if needed and (re)fill them from the base tables.
+ * Run after bulk inserts or diff application, inside the caller's transaction.
+ */
+export function buildSpatialIndex(db: Db): void {
+  db.exec(SPATIAL_INDEX_SQL);
+  db.exec(POPULATE_SPATIAL_INDEX_SQL);
+}
+
+/**
+ * Prepare the per-table insert statements. Callers own the transaction.
+ */
+export function prepareInserts(db: Db, coordEncoding: CoordEncoding = DEFAULT_COORD_ENCODING): RegionDbInserts {
+  const insertTC = db.prepare(
+    'INSERT INTO traffic_calming (lat, lon, type, end_lat, end_lon, way_id, tags, node_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+  );
+  const insertRA = db.prepare(
+    'INSERT INTO roundabouts (lat, lon, radius, type, node_id, way_id, mean_radius, way_ids, node_ids) ' +
+      'VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+  );
+  const insertSurface = db.prepare(
+    'INSERT INTO road_surfaces (surface, coords, min_lat, max_lat, min_lon, max_lon, way_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
+  );
+  const insertIC = db.prepare(
+    'INSERT INTO intersection_controls (lat, lon, type, crossing, direction, node_id) VALUES (?, ?, ?, ?, ?, ?)',
+  );
+  const insertTR = db.prepare(
+    'INSERT INTO turn_restrictions (relation_id, restriction, vehicle, condition, except_vehicles, from_way_id, ' +
+      'via_node_id, via_way_ids, to_way_id, lat, lon, from_coords, to_coords) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+  );
+  const insertCurve = db.prepare(
+    'INSERT INTO road_curves (way_id, start_lat, start_lon, end_lat, end_lon, min_radius, direction, deflection, ' +
+      'advisory_speed) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+  );
+  const insertWay = db.prepare(
+    'INSERT INTO road_ways (highway, surface, coords, min_lat, max_lat, min_lon, max_lon, way_id, node_ids, ' +
+      'maxspeed_forward, maxspeed_backward, maxspeed_source, oneway, lanes, lanes_forward, lanes_backward, ' +
+      'junction, bridge, tunnel, structure, structure_name, layer, ref, name) ' +
+      'VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+  );
+
+  return {
+    trafficCalming(tc) {
+      insertTC.run(
+        tc.lat,
+        tc.lon,
+        tc.type,
+        tc.endLat ?? null,
+        tc.endLon ?? null,
+        tc.wayId ?? null,
+        tc.tags ? JSON.stringify(tc.tags) : null,
+        tc.nodeId ?? null,
+      );
+    },
+
+    roundabout(ra) {
+      insertRA.run(
+        ra.lat,
+        ra.lon,
+        ra.radius ?? null,
+        ra.type,
+        ra.nodeId ?? null,
+        ra.wayId ?? null,
+        ra.meanRadius ?? null,
+        ra.wayIds ? JSON.stringify(ra.wayIds) : null,
+        ra.nodeIds ? JSON.stringify(ra.nodeIds) : null,
+      );
+    },
+
+    surface(rs) {
+      const { minLat, maxLat, minLon, maxLon } = computeBboxFromFlatCoords(rs.coords);
+      insertSurface.run(rs.surface, serializeCoords(rs.coords, coordEncoding), minLat, maxLat, minLon, maxLon, rs.wayId ?? null);
+    },
+
+    way(rw) {
+      const { minLat, maxLat, minLon, maxLon } = computeBboxFromFlatCoords(rw.coords);
+      insertWay.run(
+        rw.highway,
+        rw.surface ?? null,
+        serializeCoords(rw.coords, coordEncoding),
+        minLat,
+        maxLat,
+        minLon,
+        maxLon,
+        rw.wayId ?? null,
+        rw.nodeIds ? JSON.stringify(rw.nodeIds) : null,
+        rw.maxspeedForward ?? null,
+        rw.maxspeedBackward ?? null,
+        rw.maxspeedSource ?? null,
+        rw.oneway ?? 0,
+        rw.lanes ?? null,
+        rw.lanesForward ?? null,
+        rw.lanesBackward ?? null,
+        rw.junction ?? null,
+        rw.bridge ? 1 : 0,
+        rw.tunnel ? 1 : 0,
+        rw.structure ?? null,
+        rw.structureName ?? null,
+        rw.layer ?? 0,
+        rw.ref ?? null,
+        rw.name ?? null,
+      );
+    },
+
+    intersectionControl(ic) {
+      insertIC.run(ic.lat, ic.lon, ic.type, ic.crossing ?? null, ic.direction ?? null, ic.nodeId ?? null);
+    },
+
+    turnRestriction(tr) {
+      insertTR.run(
+        tr.relationId,
+        tr.restriction,
+        tr.vehicle ?? null,
+        tr.condition ?? null,
+        tr.except ?? null,
+        tr.fromWayId,
+        tr.viaNodeId ?? null,
+        tr.viaWayIds ? JSON.stringify(tr.viaWayIds) : null,
+        tr.toWayId,
+        tr.lat,
+        tr.lon,
+        serializeCoords(tr.fromCoords, coordEncoding),
+        serializeCoords(tr.toCoords, coordEncoding),
+      );
+    },
+
+    curve(rc) {
+      insertCurve.run(
+        rc.wayId,
+        rc.startLat,
+        rc.startLon,
+        rc.endLat,
+        rc.endLon,
+        rc.minRadius,
+        rc.direction,
+        rc.deflection,
+        rc.advisorySpeed,
+      );
+    },
+  };
+}
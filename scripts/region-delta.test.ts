@@ -0,0 +1,90 @@
+/**
+ * Region Delta Tests
+ *
+ * PURPOSE: Check that applying a patch reproduces the new release, references included
+ * DEPENDENCIES: node:test, better-sqlite3, region-delta.ts, region-db.ts
+ *
+ * Usage: npm test
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRequire } from 'module';
+import type BetterSqlite3 from 'better-sqlite3';
+import { applyRegionPatch, diffRegionDatabases } from './region-delta.js';
+import { SCHEMA_SQL } from './region-db.js';
+const require = createRequire(import.meta.url);
+
+const Database = require('better-sqlite3');
+
+type Db = BetterSqlite3.Database;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * An in-memory database with the given roundabout ways, in id order, and an arm at node
+ * `wayId / 10` for each of armWayIds (default: every roundabout)
+ */
+function regionDb(version: string, roundaboutWayIds: number[], armWayIds = roundaboutWayIds): Db {
+  const db: Db = new Database(':memory:');
+  db.exec(SCHEMA_SQL);
+  db.prepare("INSERT INTO metadata (key, value) VALUES ('version', ?)").run(version);
+  const roundabout = db.prepare("INSERT INTO roundabouts (lat, lon, radius, type, way_id) VALUES (?, 25, 20, 'roundabout', ?)");
+  for (const wayId of roundaboutWayIds) roundabout.run(54 + wayId / 1000, wayId);
+  const arm = db.prepare(
+    'INSERT INTO roundabout_arms (roundabout_id, ring_index, node_id, way_id, bearing, highway, direction) ' +
+      "SELECT id, 0, ?, 1, 90, 'primary', 'both' FROM roundabouts WHERE way_id = ?",
+  );
+  for (const wayId of armWayIds) arm.run(wayId / 10, wayId);
+  return db;
+}
+
+function armRoundabout(db: Db, nodeId: number): number | undefined {
+  const row = db
+    .prepare('SELECT r.way_id FROM roundabout_arms a JOIN roundabouts r ON r.id = a.roundabout_id WHERE a.node_id = ?')
+    .get(nodeId) as { way_id: number } | undefined;
+  return row?.way_id;
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+test('renumbered roundabouts carry their arms along', () => {
+  // Roundabout 100 goes away, so 200 and 300 move down by one
+  const from = regionDb('2026-09-01', [100, 200, 300]);
+  const to = regionDb('2026-10-01', [200, 300]);
+  const patch = diffRegionDatabases(from, to, 'test');
+
+  const arms = patch.tables.find((table) => table.name === 'roundabout_arms');
+  assert.deepEqual(arms?.remap, [{ column: 'roundabout_id', renumber: [[2, 3, -1]] }]);
+
+  applyRegionPatch(from, patch);
+  assert.equal(armRoundabout(from, 20), 200);
+  assert.equal(armRoundabout(from, 30), 300);
+  assert.deepEqual(diffRegionDatabases(from, to, 'test').tables, []);
+});
+
+test('arms whose only change is the roundabout id are remapped', () => {
+  // The arm keeps id 1 while its roundabout moves from id 2 to id 1
+  const from = regionDb('2026-09-01', [100, 200], [200]);
+  const to = regionDb('2026-10-01', [200], [200]);
+  const patch = diffRegionDatabases(from, to, 'test');
+
+  const arms = patch.tables.find((table) => table.name === 'roundabout_arms');
+  assert.deepEqual(arms, {
+    name: 'roundabout_arms',
+    key: 'id',
+    delete: [],
+    renumber: [],
+    remap: [{ column: 'roundabout_id', renumber: [[2, 2, -1]] }],
+    columns: arms?.columns,
+    insert: [],
+  });
+
+  applyRegionPatch(from, patch);
+  assert.equal(armRoundabout(from, 20), 200);
+  assert.deepEqual(diffRegionDatabases(from, to, 'test').tables, []);
+});
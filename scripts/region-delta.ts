@@ -0,0 +1,347 @@
+/**
+ * Region Delta
+ *
+ * PURPOSE: Row-level patches between two releases of a region SQLite database
+ * RESPONSIBILITY: Diff two databases into a RegionPatch, reference patch applier, patch file naming
+ * DEPENDENCIES: better-sqlite3 (callers pass open Databases), region-db.ts
+ * CONSUMERS: build-delta.ts, generate-manifest.ts; clients port applyRegionPatch
+ *
+ * Every monthly release is rebuilt from scratch, so row ids shift whenever rows are added
+ * or removed earlier in a table. Rows are therefore matched by a feature hash: the SHA-1
+ * of their column values, leaving out the autoincrement `id` and replacing columns that
+ * hold another table's row id (ROW_ID_REFERENCES, `<table>_rtree.id`) by the id the
+ * referenced row has in the new release. Tables keyed by an OSM ID (graph_nodes) or a
+ * name (metadata) hash their key like any other column.
+ *
+ * A patch lists, per changed table, in this order of application:
+ *
+ *   delete    primary keys (in the old database) of rows that no longer exist
+ *   renumber  [first, last, offset] — kept rows with a key in first..last move by offset,
+ *             so after patching every row has exactly the id it has in the new release
+ *             and the next month's patch applies on top
+ *   remap     { column, renumber } — the referenced table's renumber runs, applied the
+ *             same way to a column of kept rows that holds its row id; a table whose rows
+ *             only changed there is listed with this entry alone
+ *   insert    new rows, with their new-release id, as arrays in `columns` order
+ *
+ * Renumbering moves keys and references through negative values (first to
+ * -(value + offset), then back) so no intermediate state collides. BLOB values are
+ * written as { "base64": "..." }.
+ */
+
+import type Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { ROW_ID_REFERENCES } from './region-db.js';
+
+// =============================================================================
+// TYPES & CONSTANTS
+// =============================================================================
+
+type Db = Database.Database;
+
+export type PatchValue = number | string | null | { base64: string };
+
+export interface RegionPatchTable {
+  name: string;
+  /** Primary key column the delete and renumber entries address */
+  key: string;
+  delete: (number | string)[];
+  renumber: [first: number, last: number, offset: number][];
+  /** Reference columns of kept rows, moved like the rows of the table they point to */
+  remap: { column: string; renumber: [first: number, last: number, offset: number][] }[];
+  columns: string[];
+  insert: PatchValue[][];
+}
+
+export interface RegionPatch {
+  format: typeof PATCH_FORMAT;
+  formatVersion: number;
+  region: string;
+  fromVersion: string;
+  toVersion: string;
+  /** Changed tables only; unchanged ones are left out */
+  tables: RegionPatchTable[];
+}
+
+type SqlValue = number | string | bigint | Buffer | null;
+
+interface TableShape {
+  name: string;
+  columns: string[];
+  key: string;
+  /** Key is an autoincrement row id: not part of the feature hash, renumbered */
+  surrogateKey: boolean;
+  /** Column → table whose row id it holds */
+  references: Record<string, string>;
+}
+
+export const PATCH_FORMAT = 'region-sqlite-patch';
+// v2 added remap; a v1 applier would leave references to renumbered rows behind
+export const PATCH_FORMAT_VERSION = 2;
+
+// Versions are release dates; the file name carries both ends of the patch
+const VERSION_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const PATCH_FILE_PATTERN = /^(.+)\.(\d{4}-\d{2}-\d{2})-(\d{4}-\d{2}-\d{2})\.patch\.gz$/;
+
+// Marks a reference to a row deleted in the new release; never equals a real value
+const DELETED_REFERENCE = '\u0000deleted';
+
+// =============================================================================
+// FILE NAMING
+// =============================================================================
+
+export function patchFileName(regionId: string, fromVersion: string, toVersion: string): string {
+  for (const version of [fromVersion, toVersion]) {
+    if (!VERSION_PATTERN.test(version)) throw new Error(`Patch versions must be YYYY-MM-DD, got "${version}"`);
+  }
+  return `${regionId}.${fromVersion}-${toVersion}.patch.gz`;
+}
+
+/**
+ * Split `{region}.{from}-{to}.patch.gz`, or null for any other file name
+ */
+export function parsePatchFileName(
+  fileName: string,
+): { regionId: string; fromVersion: string; toVersion: string } | null {
+  const match = PATCH_FILE_PATTERN.exec(fileName);
+  return match ? { regionId: match[1], fromVersion: match[2], toVersion: match[3] } : null;
+}
+
+// =============================================================================
+// SCHEMA
+// =============================================================================
+
+/**
+ * Data tables of a database with their columns, referenced tables first. R*Tree shadow
+ * tables and SQLite internals are left out; the R*Tree tables themselves are data.
+ */
+function readShapes(db: Db): TableShape[] {
+  const names = (
+    db
+      .prepare(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' " +
+          "AND name NOT LIKE '%_rtree_node' AND name NOT LIKE '%_rtree_parent' AND name NOT LIKE '%_rtree_rowid' " +
+          'ORDER BY name',
+      )
+      .all() as { name: string }[]
+  ).map((row) => row.name);
+
+  const shapes = names.map((name): TableShape => {
+    const info = db.prepare(`PRAGMA table_info("${name}")`).all() as { name: string; type: string; pk: number }[];
+    const rtreeBase = name.endsWith('_rtree') ? name.slice(0, -'_rtree'.length) : undefined;
+    const references = rtreeBase ? { id: rtreeBase } : { ...ROW_ID_REFERENCES[name] };
+    // R*Tree tables report no primary key; their first column is the row id
+    const keyColumn = rtreeBase ? info[0] : info.find((column) => column.pk === 1);
+    if (!keyColumn || info.filter((column) => column.pk > 0).length > 1) {
+      throw new Error(`Table ${name} has no single-column primary key`);
+    }
+    return {
+      name,
+      columns: info.map((column) => column.name),
+      key: keyColumn.name,
+      surrogateKey: keyColumn.type.toUpperCase() === 'INTEGER' && !(keyColumn.name in references),
+      references,
+    };
+  });
+
+  return [
+    ...shapes.filter((shape) => Object.keys(shape.references).length === 0),
+    ...shapes.filter((shape) => Object.keys(shape.references).length > 0),
+  ];
+}
+
+function assertSameSchema(from: TableShape[], to: TableShape[]): void {
+  const describe = (shapes: TableShape[]) =>
+    shapes.map((shape) => `${shape.name}(${shape.columns.join(',')})`).sort().join(';');
+  if (describe(from) !== describe(to)) {
+    throw new Error('Schema differs between the two databases; clients need the full download');
+  }
+}
+
+// =============================================================================
+// DIFF
+// =============================================================================
+
+function featureHash(shape: TableShape, values: SqlValue[]): string {
+  const hash = createHash('sha1');
+  shape.columns.forEach((column, i) => {
+    if (shape.surrogateKey && column === shape.key) return;
+    const value = values[i];
+    if (Buffer.isBuffer(value)) {
+      hash.update(`b${value.length}:`);
+      hash.update(value);
+    } else {
+      hash.update(typeof value === 'bigint' ? value.toString() : JSON.stringify(value));
+    }
+    hash.update('\u001f');
+  });
+  return hash.digest('base64');
+}
+
+function toPatchValue(value: SqlValue): PatchValue {
+  if (Buffer.isBuffer(value)) return { base64: value.toString('base64') };
+  if (typeof value === 'bigint') return Number(value);
+  return value;
+}
+
+function fromPatchValue(value: PatchValue): SqlValue {
+  if (value !== null && typeof value === 'object') return Buffer.from(value.base64, 'base64');
+  return value;
+}
+
+/**
+ * Collapse kept (oldKey, newKey) pairs, in old key order, into [first, last, offset] runs
+ */
+function renumberRuns(pairs: [number, number][]): [number, number, number][] {
+  const runs: [number, number, number][] = [];
+  for (const [oldKey, newKey] of pairs) {
+    const offset = newKey - oldKey;
+    const last = runs[runs.length - 1];
+    if (last && last[2] === offset) last[1] = oldKey;
+    else runs.push([oldKey, oldKey, offset]);
+  }
+  return runs.filter((run) => run[2] !== 0);
+}
+
+/**
+ * Diff one table. idMaps holds, per table diffed so far, old row id → new row id of kept rows.
+ */
+function diffTable(from: Db, to: Db, shape: TableShape, idMaps: Map<string, Map<number, number>>): RegionPatchTable {
+  const select = `SELECT * FROM "${shape.name}" ORDER BY "${shape.key}"`;
+  const keyIndex = shape.columns.indexOf(shape.key);
+  const referenceIndexes = Object.entries(shape.references).map(
+    ([column, table]) => [shape.columns.indexOf(column), idMaps.get(table) ?? new Map<number, number>()] as const,
+  );
+
+  // New rows by feature hash, in key order so duplicate rows pair up in order
+  const newKeys = new Map<string, (number | string)[]>();
+  for (const row of to.prepare(select).raw().iterate() as Iterable<SqlValue[]>) {
+    const hash = featureHash(shape, row);
+    const keys = newKeys.get(hash);
+    if (keys) keys.push(row[keyIndex] as number | string);
+    else newKeys.set(hash, [row[keyIndex] as number | string]);
+  }
+
+  const deleted: (number | string)[] = [];
+  const kept: [number, number][] = [];
+  const idMap = new Map<number, number>();
+  for (const row of from.prepare(select).raw().iterate() as Iterable<SqlValue[]>) {
+    const oldKey = row[keyIndex] as number | string;
+    for (const [index, map] of referenceIndexes) {
+      if (row[index] !== null) row[index] = map.get(Number(row[index])) ?? DELETED_REFERENCE;
+    }
+    const hash = featureHash(shape, row);
+    const keys = newKeys.get(hash);
+    const newKey = keys?.shift();
+    if (newKey === undefined) {
+      deleted.push(oldKey);
+      continue;
+    }
+    if (keys!.length === 0) newKeys.delete(hash);
+    if (typeof oldKey === 'number' && typeof newKey === 'number') {
+      kept.push([oldKey, newKey]);
+      if (shape.surrogateKey) idMap.set(oldKey, newKey);
+    }
+  }
+  idMaps.set(shape.name, idMap);
+
+  // A key that is itself a reference moved with the renumber runs above
+  const remap = Object.entries(shape.references)
+    .filter(([column]) => column !== shape.key)
+    .map(([column, table]) => ({ column, renumber: renumberRuns([...(idMaps.get(table) ?? [])]) }))
+    .filter((entry) => entry.renumber.length > 0);
+
+  const inserted = new Set<number | string>();
+  for (const keys of newKeys.values()) for (const key of keys) inserted.add(key);
+  const insert: PatchValue[][] = [];
+  if (inserted.size > 0) {
+    for (const row of to.prepare(select).raw().iterate() as Iterable<SqlValue[]>) {
+      if (inserted.has(row[keyIndex] as number | string)) insert.push(row.map(toPatchValue));
+    }
+  }
+
+  return {
+    name: shape.name,
+    key: shape.key,
+    delete: deleted,
+    renumber: renumberRuns(kept),
+    remap,
+    columns: shape.columns,
+    insert,
+  };
+}
+
+/**
+ * Diff two releases of one region. Throws when the schemas differ, since a patch cannot
+ * add tables or columns.
+ */
+export function diffRegionDatabases(from: Db, to: Db, regionId: string): RegionPatch {
+  const version = (db: Db) =>
+    (db.prepare("SELECT value FROM metadata WHERE key = 'version'").get() as { value: string } | undefined)?.value;
+  const fromVersion = version(from);
+  const toVersion = version(to);
+  if (!fromVersion || !toVersion) throw new Error('Both databases need metadata.version');
+
+  const shapes = readShapes(to);
+  assertSameSchema(readShapes(from), shapes);
+
+  const idMaps = new Map<string, Map<number, number>>();
+  const tables = shapes
+    .map((shape) => diffTable(from, to, shape, idMaps))
+    .filter(
+      (table) =>
+        table.delete.length > 0 || table.renumber.length > 0 || table.remap.length > 0 || table.insert.length > 0,
+    );
+
+  return { format: PATCH_FORMAT, formatVersion: PATCH_FORMAT_VERSION, region: regionId, fromVersion, toVersion, tables };
+}
+
+// =============================================================================
+// APPLY
+// =============================================================================
+
+/**
+ * Move the values of a row id column by [first, last, offset] runs, through negative values
+ */
+function renumberColumn(db: Db, name: string, column: string, runs: RegionPatchTable['renumber']): void {
+  if (runs.length === 0) return;
+  const park = db.prepare(`UPDATE ${name} SET ${column} = -(${column} + ?) WHERE ${column} BETWEEN ? AND ?`);
+  for (const [first, last, offset] of runs) park.run(offset, first, last);
+  db.prepare(`UPDATE ${name} SET ${column} = -${column} WHERE ${column} < 0`).run();
+}
+
+/**
+ * Apply a patch to the database of its fromVersion, in one transaction. Reference
+ * implementation for clients; build-delta.ts --verify runs it against the new release.
+ */
+export function applyRegionPatch(db: Db, patch: RegionPatch): void {
+  if (patch.format !== PATCH_FORMAT || patch.formatVersion !== PATCH_FORMAT_VERSION) {
+    throw new Error(`Unsupported patch format ${patch.format} v${patch.formatVersion}`);
+  }
+  const current = db.prepare("SELECT value FROM metadata WHERE key = 'version'").get() as { value: string } | undefined;
+  if (current?.value !== patch.fromVersion) {
+    throw new Error(`Patch applies to version ${patch.fromVersion}, database is at ${current?.value ?? 'unknown'}`);
+  }
+
+  db.transaction(() => {
+    for (const table of patch.tables) {
+      const name = `"${table.name}"`;
+      const key = `"${table.key}"`;
+
+      const remove = db.prepare(`DELETE FROM ${name} WHERE ${key} = ?`);
+      for (const value of table.delete) remove.run(value);
+
+      renumberColumn(db, name, key, table.renumber);
+      // Before the inserts, whose references already hold new-release ids
+      for (const { column, renumber } of table.remap) renumberColumn(db, name, `"${column}"`, renumber);
+
+      if (table.insert.length > 0) {
+        const columns = table.columns.map((column) => `"${column}"`).join(', ');
+        const insert = db.prepare(
+          `INSERT INTO ${name} (${columns}) VALUES (${table.columns.map(() => '?').join(', ')})`,
+        );
+        for (const row of table.insert) insert.run(row.map(fromPatchValue));
+      }
+    }
+  })();
+}
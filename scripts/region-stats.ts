@@ -0,0 +1,420 @@
+/**
+ * Region Statistics
+ *
+ * PURPOSE: Per-region data-quality report written next to each database, and its comparison across releases
+ * RESPONSIBILITY: Row counts per table and per type, surface distribution, unmapped raw surface values,
+ *                 geometry outliers; threshold checks between two reports
+ * DEPENDENCIES: better-sqlite3 (callers pass an open Database), coord-encoding.ts, geometry.ts,
+ *               extraction-profile.ts
+ * CONSUMERS: region-build.ts (writes {region}.stats.json), build-sqlite.ts, extract-single.ts (unmapped surfaces),
+ *            compare-stats.ts (release gate)
+ *
+ * A stats file is small, stable JSON so two releases can be diffed by eye as well as by
+ * compare-stats.ts. Counts describe the database as region-build.ts left it; the raw
+ * surface tags that normalizeSurfaceType() mapped to the profile's fallback are not in the database and
+ * come from the extraction (handed over directly by extract-single.ts --build, otherwise
+ * through {region}-extract-stats.json).
+ */
+
+import type Database from 'better-sqlite3';
+import { deserializeCoords } from './coord-encoding.js';
+import { EXTRACTION_PROFILE } from './extraction-profile.js';
+import { haversineDistance } from './geometry.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+type Db = Database.Database;
+
+export interface StatsOutlier {
+  count: number;
+  /** First few OSM ids (way ids, or row ids where a row has none) to look at */
+  examples: number[];
+}
+
+export type OutlierKind = 'longSegment' | 'degenerateWay' | 'invalidCoordinate' | 'largeRoundabout';
+
+export interface RegionStats {
+  format: 'region-stats';
+  formatVersion: 1;
+  region: string;
+  version: string;
+  generatedAt: string;
+  /** Row count of every data table */
+  tables: Record<string, number>;
+  /** Rows per value of a type column, keyed `table.column` */
+  types: Record<string, Record<string, number>>;
+  /** Normalized surface values; road_ways rows without a surface count as `none` */
+  surfaces: { road_surfaces: Record<string, number>; road_ways: Record<string, number> };
+  /** Raw OSM surface tags that normalized to `unknown`; absent when the extraction step did not record them */
+  unknownSurfaces?: Record<string, number>;
+  outliers: Record<OutlierKind, StatsOutlier>;
+}
+
+/** What extract-single.ts records for build-sqlite.ts ({region}-extract-stats.json) */
+export interface ExtractStats {
+  region: string;
+  version: string;
+  unknownSurfaces: Record<string, number>;
+}
+
+export interface TableLimits {
+  /** Largest allowed drop in rows, in percent of the previous count */
+  maxDropPercent: number;
+  /** Largest allowed growth in rows, in percent of the previous count */
+  maxGrowthPercent: number;
+  /** Counts below this in both releases are too small to compare */
+  minRows: number;
+}
+
+export interface StatsThresholds extends TableLimits {
+  /** Per-table overrides of the limits above */
+  tables?: Record<string, Partial<TableLimits>>;
+  /** Largest allowed drop of a single type value (e.g. traffic_calming.type = bump), in percent */
+  maxTypeDropPercent: number;
+  /** Largest allowed rise of the `unknown` share of road_surfaces, in percentage points */
+  maxUnknownSurfaceIncrease: number;
+  /** Largest allowed rise of any outlier count */
+  maxOutlierIncrease: number;
+}
+
+export interface TableChange {
+  previous: number;
+  current: number;
+  /** Percent change; null when the table is new or was empty */
+  changePercent: number | null;
+}
+
+export interface StatsViolation {
+  check: 'table' | 'type' | 'unknownSurfaces' | 'outliers';
+  key: string;
+  previous: number;
+  current: number;
+  limit: number;
+  message: string;
+}
+
+export interface StatsComparison {
+  region: string;
+  previousVersion: string;
+  currentVersion: string;
+  tables: Record<string, TableChange>;
+  violations: StatsViolation[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const STATS_FORMAT_VERSION = 1;
+
+// Columns whose values are counted separately, as [table, column]
+const TYPE_COLUMNS: [string, string][] = [
+  ['traffic_calming', 'type'],
+  ['roundabouts', 'type'],
+  ['road_ways', 'highway'],
+  ['road_ways', 'maxspeed_source'],
+  ['intersection_controls', 'type'],
+  ['turn_restrictions', 'restriction'],
+  ['structures', 'kind'],
+];
+
+// Consecutive way nodes further apart than this are almost always a broken geometry
+const LONG_SEGMENT_METERS = 5000;
+
+// A road way shorter than this is a duplicated node rather than a road
+const DEGENERATE_WAY_METERS = 1;
+
+// No roundabout is this wide; larger radii come from rings that absorbed other ways
+const LARGE_ROUNDABOUT_METERS = 250;
+
+const MAX_EXAMPLES = 10;
+
+const OUTLIER_KINDS: readonly OutlierKind[] = ['longSegment', 'degenerateWay', 'invalidCoordinate', 'largeRoundabout'];
+
+// Point tables whose lat/lon columns are checked for out-of-range coordinates
+const POINT_TABLES = ['traffic_calming', 'roundabouts', 'intersection_controls', 'turn_restrictions', 'graph_nodes'];
+
+// The surface normalizeSurfaceType() gives tags the profile does not map; its share is gated
+const FALLBACK_SURFACE = EXTRACTION_PROFILE.surfaces.fallback;
+
+// =============================================================================
+// FILE NAMES
+// =============================================================================
+
+export function statsFileName(regionId: string): string {
+  return `${regionId}.stats.json`;
+}
+
+export function extractStatsFileName(regionId: string): string {
+  return `${regionId}-extract-stats.json`;
+}
+
+// =============================================================================
+// COLLECTION
+// =============================================================================
+
+function tableNames(db: Db): string[] {
+  const rows = db
+    .prepare(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+       AND name NOT LIKE '%_rtree%' AND name != 'metadata' ORDER BY name`,
+    )
+    .all() as { name: string }[];
+  return rows.map((row) => row.name);
+}
+
+function countValues(db: Db, table: string, column: string, nullValue?: string): Record<string, number> {
+  const rows = db
+    .prepare(`SELECT ${column} AS value, COUNT(*) AS n FROM ${table} GROUP BY ${column} ORDER BY n DESC, value`)
+    .all() as { value: string | number | null; n: number }[];
+  const counts: Record<string, number> = {};
+  for (const { value, n } of rows) {
+    if (value === null && nullValue === undefined) continue;
+    counts[value === null ? nullValue! : String(value)] = n;
+  }
+  return counts;
+}
+
+function isValidCoordinate(lon: number, lat: number): boolean {
+  return Number.isFinite(lon) && Number.isFinite(lat) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+}
+
+function addOutlier(outlier: StatsOutlier, id: number): void {
+  outlier.count++;
+  if (outlier.examples.length < MAX_EXAMPLES) outlier.examples.push(id);
+}
+
+/**
+ * Scan road way geometry and point tables for values no correct extract produces:
+ * segments longer than LONG_SEGMENT_METERS, ways shorter than DEGENERATE_WAY_METERS,
+ * coordinates outside ±90/±180 and oversized roundabouts
+ */
+function findOutliers(db: Db, tables: Set<string>): Record<OutlierKind, StatsOutlier> {
+  const outliers = Object.fromEntries(
+    OUTLIER_KINDS.map((kind) => [kind, { count: 0, examples: [] as number[] }]),
+  ) as Record<OutlierKind, StatsOutlier>;
+
+  if (tables.has('road_ways')) {
+    const ways = db.prepare('SELECT id, way_id, coords FROM road_ways').iterate() as Iterable<{
+      id: number;
+      way_id: number | null;
+      coords: string | Uint8Array;
+    }>;
+    for (const row of ways) {
+      const id = row.way_id ?? row.id;
+      const coords = deserializeCoords(row.coords);
+      let length = 0;
+      let longSegment = false;
+      let invalid = false;
+      for (let i = 0; i + 1 < coords.length; i += 2) {
+        if (!isValidCoordinate(coords[i], coords[i + 1])) invalid = true;
+        if (i === 0) continue;
+        const segment = haversineDistance(coords[i - 1], coords[i - 2], coords[i + 1], coords[i]);
+        if (segment > LONG_SEGMENT_METERS) longSegment = true;
+        length += segment;
+      }
+      if (invalid) {
+        addOutlier(outliers.invalidCoordinate, id);
+        continue;
+      }
+      if (longSegment) addOutlier(outliers.longSegment, id);
+      if (length < DEGENERATE_WAY_METERS) addOutlier(outliers.degenerateWay, id);
+    }
+  }
+
+  for (const table of POINT_TABLES) {
+    if (!tables.has(table)) continue;
+    const idColumn = table === 'graph_nodes' ? 'node_id' : 'id';
+    const rows = db
+      .prepare(`SELECT ${idColumn} AS id FROM ${table} WHERE NOT (lat BETWEEN -90 AND 90 AND lon BETWEEN -180 AND 180)`)
+      .all() as { id: number }[];
+    for (const { id } of rows) addOutlier(outliers.invalidCoordinate, id);
+  }
+
+  if (tables.has('roundabouts')) {
+    const rows = db
+      .prepare('SELECT id, way_id FROM roundabouts WHERE MAX(COALESCE(radius, 0), COALESCE(mean_radius, 0)) > ?')
+      .all(LARGE_ROUNDABOUT_METERS) as { id: number; way_id: number | null }[];
+    for (const row of rows) addOutlier(outliers.largeRoundabout, row.way_id ?? row.id);
+  }
+
+  return outliers;
+}
+
+/**
+ * Collect the stats of a built region database. Reads only; safe to call inside or
+ * after the build transaction.
+ */
+export function collectRegionStats(
+  db: Db,
+  region: string,
+  version: string,
+  extractStats?: ExtractStats,
+): RegionStats {
+  const names = tableNames(db);
+  const present = new Set(names);
+
+  const tables: Record<string, number> = {};
+  for (const name of names) {
+    tables[name] = (db.prepare(`SELECT COUNT(*) AS n FROM ${name}`).get() as { n: number }).n;
+  }
+
+  const types: Record<string, Record<string, number>> = {};
+  for (const [table, column] of TYPE_COLUMNS) {
+    if (present.has(table)) types[`${table}.${column}`] = countValues(db, table, column);
+  }
+
+  const stats: RegionStats = {
+    format: 'region-stats',
+    formatVersion: STATS_FORMAT_VERSION,
+    region,
+    version,
+    generatedAt: new Date().toISOString(),
+    tables,
+    types,
+    surfaces: {
+      road_surfaces: present.has('road_surfaces') ? countValues(db, 'road_surfaces', 'surface') : {},
+      road_ways: present.has('road_ways') ? countValues(db, 'road_ways', 'surface', 'none') : {},
+    },
+    outliers: findOutliers(db, present),
+  };
+  if (extractStats) stats.unknownSurfaces = sortCounts(extractStats.unknownSurfaces);
+  return stats;
+}
+
+/** Counts ordered by descending count, then key, so stats files diff cleanly */
+export function sortCounts(counts: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(counts).sort(([a, m], [b, n]) => n - m || a.localeCompare(b)));
+}
+
+/**
+ * Parse a stats file; throws when it is not a region stats report of a known format version
+ */
+export function parseRegionStats(json: string, source: string): RegionStats {
+  const stats = JSON.parse(json) as Partial<RegionStats>;
+  if (stats.format !== 'region-stats') throw new Error(`${source} is not a region stats file`);
+  if (stats.formatVersion !== STATS_FORMAT_VERSION) {
+    throw new Error(`${source}: unsupported stats format version ${stats.formatVersion}`);
+  }
+  return stats as RegionStats;
+}
+
+// =============================================================================
+// COMPARISON
+// =============================================================================
+
+function percentChange(previous: number, current: number): number | null {
+  return previous === 0 ? null : ((current - previous) / previous) * 100;
+}
+
+function unknownSurfaceShare(stats: RegionStats): number {
+  const total = stats.tables.road_surfaces ?? 0;
+  return total === 0 ? 0 : ((stats.surfaces.road_surfaces[FALLBACK_SURFACE] ?? 0) / total) * 100;
+}
+
+/**
+ * Compare a region's stats against the previous release's and list every threshold
+ * the new build crosses. A table that disappears is always a violation; a new table
+ * never is.
+ */
+export function compareRegionStats(
+  previous: RegionStats,
+  current: RegionStats,
+  thresholds: StatsThresholds,
+): StatsComparison {
+  const violations: StatsViolation[] = [];
+  const tables: Record<string, TableChange> = {};
+
+  for (const table of [...new Set([...Object.keys(previous.tables), ...Object.keys(current.tables)])].sort()) {
+    const before = previous.tables[table] ?? 0;
+    const after = current.tables[table] ?? 0;
+    const changePercent = percentChange(before, after);
+    tables[table] = { previous: before, current: after, changePercent };
+
+    if (table in previous.tables && !(table in current.tables)) {
+      violations.push({ check: 'table', key: table, previous: before, current: 0, limit: 0, message: `table ${table} is missing` });
+      continue;
+    }
+    const limits = { ...thresholds, ...thresholds.tables?.[table] };
+    if (changePercent === null || Math.max(before, after) < limits.minRows) continue;
+    if (-changePercent > limits.maxDropPercent) {
+      violations.push({
+        check: 'table',
+        key: table,
+        previous: before,
+        current: after,
+        limit: limits.maxDropPercent,
+        message: `${table} dropped ${(-changePercent).toFixed(1)}% (limit ${limits.maxDropPercent}%)`,
+      });
+    } else if (changePercent > limits.maxGrowthPercent) {
+      violations.push({
+        check: 'table',
+        key: table,
+        previous: before,
+        current: after,
+        limit: limits.maxGrowthPercent,
+        message: `${table} grew ${changePercent.toFixed(1)}% (limit ${limits.maxGrowthPercent}%)`,
+      });
+    }
+  }
+
+  for (const [column, counts] of Object.entries(previous.types)) {
+    const currentCounts = current.types[column];
+    if (!currentCounts) continue; // the table itself is checked above
+    for (const [value, before] of Object.entries(counts)) {
+      if (before < thresholds.minRows) continue;
+      const after = currentCounts[value] ?? 0;
+      const drop = -percentChange(before, after)!;
+      if (drop <= thresholds.maxTypeDropPercent) continue;
+      violations.push({
+        check: 'type',
+        key: `${column}=${value}`,
+        previous: before,
+        current: after,
+        limit: thresholds.maxTypeDropPercent,
+        message: `${column} = ${value} dropped ${drop.toFixed(1)}% (limit ${thresholds.maxTypeDropPercent}%)`,
+      });
+    }
+  }
+
+  const shareBefore = unknownSurfaceShare(previous);
+  const shareAfter = unknownSurfaceShare(current);
+  if (shareAfter - shareBefore > thresholds.maxUnknownSurfaceIncrease) {
+    violations.push({
+      check: 'unknownSurfaces',
+      key: `road_surfaces.${FALLBACK_SURFACE}`,
+      previous: shareBefore,
+      current: shareAfter,
+      limit: thresholds.maxUnknownSurfaceIncrease,
+      message:
+        `${FALLBACK_SURFACE} surfaces rose from ${shareBefore.toFixed(1)}% to ${shareAfter.toFixed(1)}% of road_surfaces ` +
+        `(limit +${thresholds.maxUnknownSurfaceIncrease} points)`,
+    });
+  }
+
+  for (const kind of OUTLIER_KINDS) {
+    const before = previous.outliers[kind]?.count ?? 0;
+    const after = current.outliers[kind]?.count ?? 0;
+    if (after - before <= thresholds.maxOutlierIncrease) continue;
+    violations.push({
+      check: 'outliers',
+      key: kind,
+      previous: before,
+      current: after,
+      limit: thresholds.maxOutlierIncrease,
+      message:
+        `${kind} outliers rose from ${before} to ${after} (limit +${thresholds.maxOutlierIncrease}), ` +
+        `e.g. ${current.outliers[kind].examples.join(', ')}`,
+    });
+  }
+
+  return {
+    region: current.region,
+    previousVersion: previous.version,
+    currentVersion: current.version,
+    tables,
+    violations,
+  };
+}
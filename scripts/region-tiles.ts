@@ -0,0 +1,408 @@
+/**
+ * Region Tiles
+ *
+ * PURPOSE: Split a region database into web-mercator tiles for partial, route-based downloads
+ * RESPONSIBILITY: Tile math, assigning rows to the tiles their geometry touches, writing and
+ *                 reading the tile pack
+ * DEPENDENCIES: better-sqlite3 (callers pass an open Database), region-db.ts, coord-encoding.ts
+ * CONSUMERS: region-build.ts (--tiles), generate-manifest.ts (tile index); clients port readTilePackIndex
+ *
+ * Each tile is a small SQLite database with the region schema, holding every row whose
+ * geometry touches the tile at the pack's zoom (x/y as in slippy-map tile names). Rows keep
+ * the id they have in the region database. A row touching several tiles is written to each
+ * of them with `crosses_tile_edge = 1`, a column every data table of a tile carries, so a
+ * client merging tiles along a route drops duplicates by id. Dependent rows (roundabout_arms,
+ * road_elevation: ROW_ID_REFERENCES) go wherever the row they refer to goes.
+ *
+ * A region's tiles are packed into one `{region-id}.tiles` file, so a release does not need
+ * one asset per tile and clients fetch single tiles with HTTP Range requests:
+ *
+ *   [tile 0: gzipped SQLite] [tile 1] ... [index: UTF-8 JSON] [index length: uint32 LE] ["OSMTILE1"]
+ *
+ * The index (TilePackIndex) lists every tile with its byte offset, size and SHA-256 of the
+ * gzipped bytes; manifest-v2.json carries the same entries so the signed manifest covers them.
+ */
+
+import type Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { closeSync, existsSync, openSync, readFileSync, readSync, statSync, unlinkSync, writeSync } from 'fs';
+import { createRequire } from 'module';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import { ROW_ID_REFERENCES, SCHEMA_SQL, buildSpatialIndex } from './region-db.js';
+import { deserializeCoords } from './coord-encoding.js';
+
+const require = createRequire(import.meta.url);
+const SqliteDatabase = require('better-sqlite3');
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+type Db = Database.Database;
+
+export interface TileEntry {
+  x: number;
+  y: number;
+  /** Byte range of the gzipped tile database inside the pack */
+  offset: number;
+  size: number;
+  /** Hex SHA-256 of the gzipped tile bytes */
+  sha256: string;
+}
+
+export interface TilePackIndex {
+  format: typeof TILE_PACK_FORMAT;
+  formatVersion: number;
+  region: string;
+  version: string;
+  zoom: number;
+  tiles: TileEntry[];
+}
+
+export interface TilePackStats {
+  tiles: number;
+  /** Rows written to more than one tile */
+  edgeRows: number;
+  size: number;
+}
+
+/** How a table's geometry is read to find its tiles */
+type TileRule =
+  | { kind: 'lines'; columns: string[] }
+  | { kind: 'points'; lat: string; lon: string; endLat?: string; endLon?: string };
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const TILE_PACK_FORMAT = 'region-tile-pack';
+export const TILE_PACK_FORMAT_VERSION = 1;
+
+export const MIN_TILE_ZOOM = 1;
+export const MAX_TILE_ZOOM = 14;
+
+const TILE_PACK_MAGIC = Buffer.from('OSMTILE1', 'ascii');
+const TRAILER_BYTES = 4 + TILE_PACK_MAGIC.length;
+
+// Web-mercator latitude limit
+const MAX_LATITUDE = 85.05112878;
+
+// Rows read per page when assigning tiles (the statement must finish before the inserts)
+const PAGE_SIZE = 5000;
+
+// Tables with their own geometry. Polylines (coords, from/to_coords) touch every tile their
+// segments pass through; points a single tile, or a short segment to their end point.
+const TILE_RULES: Record<string, TileRule> = {
+  road_ways: { kind: 'lines', columns: ['coords'] },
+  road_surfaces: { kind: 'lines', columns: ['coords'] },
+  structures: { kind: 'lines', columns: ['coords'] },
+  graph_edges: { kind: 'lines', columns: ['coords'] },
+  turn_restrictions: { kind: 'lines', columns: ['from_coords', 'to_coords'] },
+  traffic_calming: { kind: 'points', lat: 'lat', lon: 'lon', endLat: 'end_lat', endLon: 'end_lon' },
+  road_curves: { kind: 'points', lat: 'start_lat', lon: 'start_lon', endLat: 'end_lat', endLon: 'end_lon' },
+  roundabouts: { kind: 'points', lat: 'lat', lon: 'lon' },
+  intersection_controls: { kind: 'points', lat: 'lat', lon: 'lon' },
+  graph_nodes: { kind: 'points', lat: 'lat', lon: 'lon' },
+};
+
+// =============================================================================
+// TILE MATH
+// =============================================================================
+
+/**
+ * Fractional tile x/y of a location; the integer parts name the tile
+ */
+function toTileSpace(lon: number, lat: number, zoom: number): [number, number] {
+  const n = 2 ** zoom;
+  const clampedLat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+  const latRad = (clampedLat * Math.PI) / 180;
+  const x = ((lon + 180) / 360) * n;
+  const y = ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * n;
+  return [x, y];
+}
+
+export function tileForLocation(lon: number, lat: number, zoom: number): [x: number, y: number] {
+  const n = 2 ** zoom;
+  const [x, y] = toTileSpace(lon, lat, zoom);
+  return [Math.min(n - 1, Math.max(0, Math.floor(x))), Math.min(n - 1, Math.max(0, Math.floor(y)))];
+}
+
+/**
+ * Add the keys (x * 2^zoom + y) of every tile a segment passes through. Walks the grid
+ * cell by cell (Amanatides & Woo) in fractional tile space.
+ */
+function addSegmentTiles(lon0: number, lat0: number, lon1: number, lat1: number, zoom: number, out: Set<number>): void {
+  const n = 2 ** zoom;
+  const cell = (v: number) => Math.min(n - 1, Math.max(0, Math.floor(v)));
+  const [x0, y0] = toTileSpace(lon0, lat0, zoom);
+  const [x1, y1] = toTileSpace(lon1, lat1, zoom);
+  let cx = cell(x0);
+  let cy = cell(y0);
+  const ex = cell(x1);
+  const ey = cell(y1);
+  out.add(cx * n + cy);
+
+  // OSM splits ways at the antimeridian; a segment spanning half the world is such a
+  // split, so only its ends count
+  if (Math.abs(x1 - x0) > n / 2) {
+    out.add(ex * n + ey);
+    return;
+  }
+
+  const dx = x1 - x0;
+  const dy = y1 - y0;
+  const stepX = Math.sign(dx);
+  const stepY = Math.sign(dy);
+  const tDeltaX = dx !== 0 ? Math.abs(1 / dx) : Infinity;
+  const tDeltaY = dy !== 0 ? Math.abs(1 / dy) : Infinity;
+  let tMaxX = dx !== 0 ? ((stepX > 0 ? cx + 1 : cx) - x0) / dx : Infinity;
+  let tMaxY = dy !== 0 ? ((stepY > 0 ? cy + 1 : cy) - y0) / dy : Infinity;
+
+  // Every step moves one cell closer to the end cell
+  for (let steps = Math.abs(ex - cx) + Math.abs(ey - cy); steps > 0 && (cx !== ex || cy !== ey); steps--) {
+    if (tMaxX < tMaxY) {
+      cx += stepX;
+      tMaxX += tDeltaX;
+    } else {
+      cy += stepY;
+      tMaxY += tDeltaY;
+    }
+    out.add(cx * n + cy);
+  }
+}
+
+function addPolylineTiles(coords: number[], zoom: number, out: Set<number>): void {
+  if (coords.length < 2) return;
+  if (coords.length < 4) {
+    addSegmentTiles(coords[0], coords[1], coords[0], coords[1], zoom, out);
+    return;
+  }
+  for (let i = 2; i + 1 < coords.length; i += 2) {
+    addSegmentTiles(coords[i - 2], coords[i - 1], coords[i], coords[i + 1], zoom, out);
+  }
+}
+
+// =============================================================================
+// TILE ASSIGNMENT
+// =============================================================================
+
+/**
+ * Data tables of the database: everything but metadata, R*Tree indexes (rebuilt per
+ * tile) and SQLite internals
+ */
+function dataTables(db: Db): string[] {
+  return (
+    db
+      .prepare(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' " +
+          "AND name != 'metadata' AND name NOT LIKE '%_rtree' AND name NOT LIKE '%_rtree_%' ORDER BY name",
+      )
+      .all() as { name: string }[]
+  ).map((row) => row.name);
+}
+
+/**
+ * Fill temp.tile_rows with (tile, table, row id, crosses edge) for every row of a table
+ * with its own geometry
+ */
+function assignTableTiles(db: Db, table: string, rule: TileRule, zoom: number): void {
+  const columns = rule.kind === 'lines' ? rule.columns : [rule.lat, rule.lon, rule.endLat ?? 'NULL', rule.endLon ?? 'NULL'];
+  const page = db.prepare(`SELECT rowid, ${columns.join(', ')} FROM ${table} WHERE rowid > ? ORDER BY rowid LIMIT ?`).raw();
+  const insert = db.prepare('INSERT INTO temp.tile_rows (tile, tbl, id, edge) VALUES (?, ?, ?, ?)');
+
+  const tiles = new Set<number>();
+  for (let lastId = -Infinity; ; ) {
+    const rows = page.all(lastId, PAGE_SIZE) as unknown[][];
+    if (rows.length === 0) break;
+    for (const row of rows) {
+      tiles.clear();
+      if (rule.kind === 'lines') {
+        for (const value of row.slice(1)) {
+          if (value !== null) addPolylineTiles(deserializeCoords(value as string | Uint8Array), zoom, tiles);
+        }
+      } else {
+        const [lat, lon, endLat, endLon] = row.slice(1) as (number | null)[];
+        addSegmentTiles(lon!, lat!, endLon ?? lon!, endLat ?? lat!, zoom, tiles);
+      }
+      const edge = tiles.size > 1 ? 1 : 0;
+      for (const tile of tiles) insert.run(tile, table, row[0], edge);
+    }
+    lastId = rows[rows.length - 1][0] as number;
+  }
+}
+
+// =============================================================================
+// PACK WRITER
+// =============================================================================
+
+/**
+ * Split an open, fully built region database into tiles at `zoom` and write the pack to
+ * `packPath`. Tile databases are assembled one at a time in `workDir`. Only reads the
+ * region's tables; assignments live in a temp table.
+ */
+export function writeTilePack(
+  db: Db,
+  options: { regionId: string; version: string; zoom: number; packPath: string; workDir: string },
+): TilePackStats {
+  const { regionId, version, zoom, packPath, workDir } = options;
+  if (!Number.isInteger(zoom) || zoom < MIN_TILE_ZOOM || zoom > MAX_TILE_ZOOM) {
+    throw new Error(`Tile zoom must be an integer from ${MIN_TILE_ZOOM} to ${MAX_TILE_ZOOM}, got ${zoom}`);
+  }
+
+  const tables = dataTables(db);
+  const uncovered = tables.filter((table) => !TILE_RULES[table] && !ROW_ID_REFERENCES[table]);
+  if (uncovered.length > 0) throw new Error(`No tile rule for table(s): ${uncovered.join(', ')}`);
+
+  db.exec('DROP TABLE IF EXISTS temp.tile_rows');
+  db.exec('CREATE TEMP TABLE tile_rows (tile INTEGER NOT NULL, tbl TEXT NOT NULL, id INTEGER NOT NULL, edge INTEGER NOT NULL)');
+  db.exec('BEGIN');
+  for (const table of tables) {
+    if (TILE_RULES[table]) assignTableTiles(db, table, TILE_RULES[table], zoom);
+  }
+  db.exec('CREATE INDEX temp.idx_tile_rows_row ON tile_rows (tbl, id)');
+  for (const table of tables) {
+    for (const [column, parent] of Object.entries(ROW_ID_REFERENCES[table] ?? {})) {
+      db.prepare(
+        `INSERT INTO temp.tile_rows (tile, tbl, id, edge)
+         SELECT r.tile, ?, d.rowid, r.edge FROM ${table} d JOIN temp.tile_rows r ON r.tbl = ? AND r.id = d.${column}`,
+      ).run(table, parent);
+    }
+  }
+  db.exec('CREATE INDEX temp.idx_tile_rows_tile ON tile_rows (tile, tbl)');
+  db.exec('COMMIT');
+
+  const n = 2 ** zoom;
+  const tileKeys = (db.prepare('SELECT DISTINCT tile FROM temp.tile_rows ORDER BY tile').raw().all() as number[][]).map(
+    (row) => row[0],
+  );
+  const edgeRows = (
+    db.prepare('SELECT count(*) AS n FROM (SELECT DISTINCT tbl, id FROM temp.tile_rows WHERE edge = 1)').get() as { n: number }
+  ).n;
+  const columnsOf = new Map(
+    tables.map((table) => [
+      table,
+      (db.prepare(`PRAGMA table_info("${table}")`).all() as { name: string }[]).map((column) => column.name),
+    ]),
+  );
+  const metadata = db.prepare('SELECT key, value FROM metadata').raw().all() as [string, string][];
+
+  const tilePath = join(workDir, `${regionId}.tile.sqlite`);
+  const pack = openSync(packPath, 'w');
+  const entries: TileEntry[] = [];
+  let offset = 0;
+  try {
+    for (const key of tileKeys) {
+      const x = Math.floor(key / n);
+      const y = key % n;
+      writeTileDatabase(db, tilePath, key, columnsOf, [...metadata, ['tileZoom', String(zoom)], ['tileX', String(x)], ['tileY', String(y)]]);
+
+      const gz = gzipSync(readFileSync(tilePath), { level: 9 });
+      unlinkSync(tilePath);
+      writeSync(pack, gz);
+      entries.push({ x, y, offset, size: gz.length, sha256: createHash('sha256').update(gz).digest('hex') });
+      offset += gz.length;
+    }
+
+    const index: TilePackIndex = {
+      format: TILE_PACK_FORMAT,
+      formatVersion: TILE_PACK_FORMAT_VERSION,
+      region: regionId,
+      version,
+      zoom,
+      tiles: entries,
+    };
+    const indexBytes = Buffer.from(JSON.stringify(index));
+    const trailer = Buffer.alloc(TRAILER_BYTES);
+    trailer.writeUInt32LE(indexBytes.length, 0);
+    TILE_PACK_MAGIC.copy(trailer, 4);
+    writeSync(pack, indexBytes);
+    writeSync(pack, trailer);
+  } finally {
+    closeSync(pack);
+    if (existsSync(tilePath)) unlinkSync(tilePath);
+    db.exec('DROP TABLE IF EXISTS temp.tile_rows');
+  }
+
+  return { tiles: entries.length, edgeRows, size: statSync(packPath).size };
+}
+
+/**
+ * Create one tile database: region schema plus crosses_tile_edge on every data table,
+ * the tile's rows copied over with their ids, metadata, and R*Tree indexes
+ */
+function writeTileDatabase(
+  db: Db,
+  tilePath: string,
+  tileKey: number,
+  columnsOf: Map<string, string[]>,
+  metadata: [string, string][],
+): void {
+  if (existsSync(tilePath)) unlinkSync(tilePath);
+  const tileDb: Db = new SqliteDatabase(tilePath);
+  tileDb.pragma('journal_mode = DELETE');
+  tileDb.exec(SCHEMA_SQL);
+  for (const table of columnsOf.keys()) {
+    tileDb.exec(`ALTER TABLE ${table} ADD COLUMN crosses_tile_edge INTEGER NOT NULL DEFAULT 0`);
+  }
+  tileDb.close();
+
+  db.prepare('ATTACH DATABASE ? AS tile').run(tilePath);
+  try {
+    db.exec('BEGIN');
+    for (const [table, columns] of columnsOf) {
+      db.prepare(
+        `INSERT INTO tile.${table} (${columns.join(', ')}, crosses_tile_edge)
+         SELECT ${columns.map((column) => `s.${column}`).join(', ')}, r.edge
+         FROM temp.tile_rows r JOIN main.${table} s ON s.rowid = r.id
+         WHERE r.tile = ? AND r.tbl = ? ORDER BY r.id`,
+      ).run(tileKey, table);
+    }
+    const insertMeta = db.prepare('INSERT INTO tile.metadata (key, value) VALUES (?, ?)');
+    for (const [key, value] of metadata) insertMeta.run(key, value);
+    db.exec('COMMIT');
+  } finally {
+    if (db.inTransaction) db.exec('ROLLBACK');
+    db.exec('DETACH DATABASE tile');
+  }
+
+  const indexDb: Db = new SqliteDatabase(tilePath);
+  indexDb.exec('BEGIN');
+  buildSpatialIndex(indexDb);
+  indexDb.exec('COMMIT');
+  indexDb.close();
+}
+
+// =============================================================================
+// PACK READER
+// =============================================================================
+
+export function tilePackFileName(regionId: string): string {
+  return `${regionId}.tiles`;
+}
+
+/**
+ * Read the index from the end of a tile pack. Clients do the same with two Range requests
+ * (the last 12 bytes, then the index) or take the entries from manifest-v2.json.
+ */
+export function readTilePackIndex(packPath: string): TilePackIndex {
+  const size = statSync(packPath).size;
+  const fd = openSync(packPath, 'r');
+  try {
+    if (size < TRAILER_BYTES) throw new Error(`${packPath} is too short to be a tile pack`);
+    const trailer = Buffer.alloc(TRAILER_BYTES);
+    readSync(fd, trailer, 0, TRAILER_BYTES, size - TRAILER_BYTES);
+    if (!trailer.subarray(4).equals(TILE_PACK_MAGIC)) throw new Error(`${packPath} is not a tile pack`);
+    const indexLength = trailer.readUInt32LE(0);
+    if (indexLength > size - TRAILER_BYTES) throw new Error(`${packPath}: index length exceeds the file`);
+    const indexBytes = Buffer.alloc(indexLength);
+    readSync(fd, indexBytes, 0, indexLength, size - TRAILER_BYTES - indexLength);
+    const index = JSON.parse(indexBytes.toString('utf-8')) as TilePackIndex;
+    if (index.format !== TILE_PACK_FORMAT || index.formatVersion !== TILE_PACK_FORMAT_VERSION) {
+      throw new Error(`${packPath}: unsupported tile pack format ${index.format} v${index.formatVersion}`);
+    }
+    return index;
+  } finally {
+    closeSync(fd);
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Road Elevation Builder
+ *
+ * PURPOSE: Attach DEM elevation profiles to road ways (road_elevation companion table)
+ * RESPONSIBILITY: Sample elevation along each road_ways polyline, compute gain/loss and
+ *                 max grade, store per-vertex elevations
+ * DEPENDENCIES: better-sqlite3 (callers pass an open Database), dem.ts, geometry.ts, coord-encoding.ts
+ * CONSUMERS: region-build.ts, update-region.ts
+ *
+ * Elevation is sampled every SAMPLE_SPACING meters along the way (DEM cells are ~30-90 m,
+ * so vertex-only sampling would miss hills on long straight segments). Grades are measured
+ * over at least GRADE_WINDOW meters, since a single DEM step across two close vertices
+ * reads as an absurd slope. Ways with any vertex outside DEM coverage get no row.
+ */
+
+import type Database from 'better-sqlite3';
+import type { DemTileSet } from './dem.js';
+import { haversineDistance } from './geometry.js';
+import { deserializeCoords } from './coord-encoding.js';
+
+// =============================================================================
+// TYPES & CONSTANTS
+// =============================================================================
+
+type Db = Database.Database;
+
+export interface RoadElevationStats {
+  sampled: number;
+  uncovered: number;
+}
+
+interface ProfileRow {
+  id: number;
+  way_id: number | null;
+  coords: string | Buffer;
+}
+
+const SAMPLE_SPACING = 30;
+const GRADE_WINDOW = 50;
+
+/** road_ways rows read per query — better-sqlite3 cannot insert while a statement iterates */
+const PAGE_SIZE = 5000;
+
+// =============================================================================
+// PROFILE
+// =============================================================================
+
+/**
+ * Elevation profile of a flat [lon, lat, ...] polyline: per-vertex elevations plus the
+ * densified (distance, elevation) samples, or null when any sample is outside the DEM
+ */
+function sampleProfile(
+  dem: DemTileSet,
+  coords: number[],
+): { vertices: number[]; distances: number[]; heights: number[] } | null {
+  const vertices: number[] = [];
+  const distances: number[] = [];
+  const heights: number[] = [];
+  let distance = 0;
+
+  const vertexCount = coords.length / 2;
+  for (let v = 0; v < vertexCount; v++) {
+    const lon = coords[v * 2];
+    const lat = coords[v * 2 + 1];
+    const height = dem.elevationAt(lat, lon);
+    if (height === null) return null;
+    vertices.push(height);
+    distances.push(distance);
+    heights.push(height);
+    if (v === vertexCount - 1) break;
+
+    const nextLon = coords[v * 2 + 2];
+    const nextLat = coords[v * 2 + 3];
+    const length = haversineDistance(lat, lon, nextLat, nextLon);
+    const steps = Math.ceil(length / SAMPLE_SPACING);
+    for (let k = 1; k < steps; k++) {
+      const t = k / steps;
+      const sample = dem.elevationAt(lat + (nextLat - lat) * t, lon + (nextLon - lon) * t);
+      if (sample === null) return null;
+      distances.push(distance + length * t);
+      heights.push(sample);
+    }
+    distance += length;
+  }
+
+  return { vertices, distances, heights };
+}
+
+/**
+ * Steepest grade (percent, either direction) over any stretch of at least GRADE_WINDOW
+ * meters — or over the whole way when it is shorter
+ */
+function maxGrade(distances: number[], heights: number[]): number {
+  const total = distances[distances.length - 1];
+  if (total <= 0) return 0;
+  if (total < GRADE_WINDOW) return (Math.abs(heights[heights.length - 1] - heights[0]) / total) * 100;
+
+  let steepest = 0;
+  let j = 0;
+  for (let i = 0; i < distances.length; i++) {
+    while (j < distances.length && distances[j] - distances[i] < GRADE_WINDOW) j++;
+    if (j === distances.length) break;
+    const grade = Math.abs(heights[j] - heights[i]) / (distances[j] - distances[i]);
+    if (grade > steepest) steepest = grade;
+  }
+  return steepest * 100;
+}
+
+// =============================================================================
+// PUBLIC BUILDER
+// =============================================================================
+
+/**
+ * Sample elevation for every road way that has no road_elevation row yet: all of them
+ * after a build, only new and changed ones after an update. Callers own the transaction.
+ */
+export function buildRoadElevation(db: Db, dem: DemTileSet): RoadElevationStats {
+  const page = db.prepare(
+    'SELECT w.id, w.way_id, w.coords FROM road_ways w WHERE w.id > ? ' +
+      'AND NOT EXISTS (SELECT 1 FROM road_elevation e WHERE e.road_way_id = w.id) ORDER BY w.id LIMIT ?',
+  );
+  const insert = db.prepare(
+    'INSERT INTO road_elevation (road_way_id, way_id, elevations, gain, loss, max_grade) VALUES (?, ?, ?, ?, ?, ?)',
+  );
+  const stats: RoadElevationStats = { sampled: 0, uncovered: 0 };
+
+  let lastId = 0;
+  for (;;) {
+    const rows = page.all(lastId, PAGE_SIZE) as ProfileRow[];
+    if (rows.length === 0) break;
+    lastId = rows[rows.length - 1].id;
+
+    for (const row of rows) {
+      const profile = sampleProfile(dem, deserializeCoords(row.coords));
+      if (!profile) {
+        stats.uncovered++;
+        continue;
+      }
+
+      let gain = 0;
+      let loss = 0;
+      for (let i = 1; i < profile.heights.length; i++) {
+        const delta = profile.heights[i] - profile.heights[i - 1];
+        if (delta > 0) gain += delta;
+        else loss -= delta;
+      }
+      insert.run(
+        row.id,
+        row.way_id,
+        JSON.stringify(profile.vertices.map((h) => Math.round(h * 10) / 10)),
+        Math.round(gain * 10) / 10,
+        Math.round(loss * 10) / 10,
+        Math.round(maxGrade(profile.distances, profile.heights) * 10) / 10,
+      );
+      stats.sampled++;
+    }
+  }
+
+  return stats;
+}
@@ -0,0 +1,178 @@
+/**
+ * Road Graph Builder
+ *
+ * PURPOSE: Derive a routable topology (graph_nodes, graph_edges) from road_ways
+ * RESPONSIBILITY: Find junction nodes shared between ways, split ways into edges between
+ *                 junctions, compute edge lengths and node degrees
+ * DEPENDENCIES: better-sqlite3 (callers pass an open Database), geometry.ts, coord-encoding.ts
+ * CONSUMERS: region-build.ts, update-region.ts
+ *
+ * A graph node is an OSM node that is a way endpoint or is shared by two or more road way
+ * vertices (crossing ways, or a way that touches itself). Each way is cut at its graph
+ * nodes; every piece becomes one edge carrying the way's highway class, oneway and ID.
+ * Degree counts edge ends at a node, so a dead end has degree 1 and a plain 4-way
+ * crossing degree 4.
+ */
+
+import type Database from 'better-sqlite3';
+import { calculateWayLength } from './geometry.js';
+import { deserializeCoords, serializeCoords, type CoordEncoding } from './coord-encoding.js';
+
+// =============================================================================
+// TYPES & CONSTANTS
+// =============================================================================
+
+type Db = Database.Database;
+
+interface WayRow {
+  id: number;
+  way_id: number;
+  highway: string;
+  oneway: number | null;
+  node_ids: string;
+  coords: string | Buffer;
+}
+
+export interface RoadGraphStats {
+  nodes: number;
+  edges: number;
+}
+
+/** road_ways rows read per query — better-sqlite3 cannot insert while a statement iterates */
+const PAGE_SIZE = 5000;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Read road_ways in id order, one page at a time
+ */
+function* pageRoadWays(db: Db): Generator<WayRow[]> {
+  const page = db.prepare(
+    'SELECT id, way_id, highway, oneway, node_ids, coords FROM road_ways ' +
+      'WHERE id > ? AND node_ids IS NOT NULL ORDER BY id LIMIT ?',
+  );
+  let lastId = 0;
+  for (;;) {
+    const rows = page.all(lastId, PAGE_SIZE) as WayRow[];
+    if (rows.length === 0) return;
+    yield rows;
+    lastId = rows[rows.length - 1].id;
+  }
+}
+
+/**
+ * Collect every vertex reference (endpoints twice) and return the sorted IDs seen at least
+ * twice. Typed arrays keep tens of millions of references off the JS heap.
+ */
+function findGraphNodeIds(db: Db): Float64Array {
+  let refs = new Float64Array(1 << 20);
+  let count = 0;
+  const add = (id: number) => {
+    if (count === refs.length) {
+      const grown = new Float64Array(refs.length * 2);
+      grown.set(refs);
+      refs = grown;
+    }
+    refs[count++] = id;
+  };
+
+  for (const rows of pageRoadWays(db)) {
+    for (const row of rows) {
+      const nodeIds: number[] = JSON.parse(row.node_ids);
+      if (nodeIds.length < 2) continue;
+      for (const id of nodeIds) add(id);
+      add(nodeIds[0]);
+      add(nodeIds[nodeIds.length - 1]);
+    }
+  }
+
+  const sorted = refs.subarray(0, count).sort();
+  let unique = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i] === sorted[i - 1] && (unique === 0 || sorted[unique - 1] !== sorted[i])) {
+      sorted[unique++] = sorted[i];
+    }
+  }
+  return sorted.slice(0, unique);
+}
+
+function indexOf(sortedIds: Float64Array, id: number): number {
+  let lo = 0;
+  let hi = sortedIds.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sortedIds[mid] < id) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo < sortedIds.length && sortedIds[lo] === id ? lo : -1;
+}
+
+// =============================================================================
+// PUBLIC BUILDER
+// =============================================================================
+
+/**
+ * Rebuild graph_nodes and graph_edges from road_ways. Run after bulk inserts or diff
+ * application, inside the caller's transaction. Edge geometry uses the database's
+ * coordinate encoding.
+ */
+export function buildRoadGraph(db: Db, coordEncoding: CoordEncoding): RoadGraphStats {
+  db.exec('DELETE FROM graph_edges; DELETE FROM graph_nodes;');
+
+  const nodeIds = findGraphNodeIds(db);
+  const degree = new Int32Array(nodeIds.length);
+  const lats = new Float64Array(nodeIds.length).fill(NaN);
+  const lons = new Float64Array(nodeIds.length).fill(NaN);
+
+  const insertEdge = db.prepare(
+    'INSERT INTO graph_edges (from_node_id, to_node_id, way_id, highway, oneway, length, coords) ' +
+      'VALUES (?, ?, ?, ?, ?, ?, ?)',
+  );
+  let edges = 0;
+
+  for (const rows of pageRoadWays(db)) {
+    for (const row of rows) {
+      const refs: number[] = JSON.parse(row.node_ids);
+      const flat = deserializeCoords(row.coords);
+      if (refs.length < 2 || flat.length !== refs.length * 2) continue;
+
+      let start = 0;
+      for (let i = 1; i < refs.length; i++) {
+        if (i < refs.length - 1 && indexOf(nodeIds, refs[i]) === -1) continue;
+
+        const pairs: [number, number][] = [];
+        for (let v = start; v <= i; v++) pairs.push([flat[v * 2], flat[v * 2 + 1]]);
+        insertEdge.run(
+          refs[start],
+          refs[i],
+          row.way_id,
+          row.highway,
+          row.oneway ?? 0,
+          Math.round(calculateWayLength(pairs) * 10) / 10,
+          serializeCoords(pairs.flat(), coordEncoding),
+        );
+        edges++;
+
+        for (const [vertex, at] of [[refs[start], start], [refs[i], i]]) {
+          const n = indexOf(nodeIds, vertex);
+          degree[n]++;
+          lons[n] = flat[at * 2];
+          lats[n] = flat[at * 2 + 1];
+        }
+        start = i;
+      }
+    }
+  }
+
+  const insertNode = db.prepare('INSERT INTO graph_nodes (node_id, lat, lon, degree) VALUES (?, ?, ?, ?)');
+  let nodes = 0;
+  for (let n = 0; n < nodeIds.length; n++) {
+    if (degree[n] === 0) continue;
+    insertNode.run(nodeIds[n], lats[n], lons[n], degree[n]);
+    nodes++;
+  }
+
+  return { nodes, edges };
+}
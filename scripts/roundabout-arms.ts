@@ -0,0 +1,136 @@
+/**
+ * Roundabout Arm Builder
+ *
+ * PURPOSE: List the entry/exit arms of every ring roundabout (roundabout_arms table)
+ * RESPONSIBILITY: Match road ways against ring node IDs, derive arm bearing, road class
+ *                 and entry/exit role from oneway
+ * DEPENDENCIES: better-sqlite3 (callers pass an open Database), geometry.ts, coord-encoding.ts
+ * CONSUMERS: region-build.ts, update-region.ts
+ *
+ * An arm is a road way leaving a ring node. A way passing through a ring node (rare, but
+ * mapped) yields two arms, one per side. Arms are numbered by ring_index, the position of
+ * their node along the ring in driving order, so "third exit" is the third exit arm after
+ * the entry's ring_index, wrapping around.
+ */
+
+import type Database from 'better-sqlite3';
+import { calculateBearing, haversineDistance } from './geometry.js';
+import { deserializeCoords } from './coord-encoding.js';
+
+// =============================================================================
+// TYPES & CONSTANTS
+// =============================================================================
+
+type Db = Database.Database;
+
+interface RingNode {
+  roundaboutId: number;
+  ringIndex: number;
+}
+
+interface Arm {
+  roundaboutId: number;
+  ringIndex: number;
+  nodeId: number;
+  wayId: number;
+  bearing: number;
+  highway: string;
+  direction: 'entry' | 'exit' | 'both';
+  name: string | null;
+}
+
+// Arm bearing is measured to the first vertex at least this far (meters) from the ring,
+// so flared entries don't skew it
+const ARM_BEARING_DISTANCE = 20;
+
+// =============================================================================
+// PUBLIC BUILDER
+// =============================================================================
+
+/**
+ * Rebuild roundabout_arms from roundabouts.node_ids and road_ways. Run after bulk inserts
+ * or diff application, inside the caller's transaction. Returns the arm count.
+ */
+export function buildRoundaboutArms(db: Db): number {
+  db.exec('DELETE FROM roundabout_arms');
+
+  const ringNodes = new Map<number, RingNode>();
+  const rings = db
+    .prepare("SELECT id, node_ids FROM roundabouts WHERE node_ids IS NOT NULL AND type != 'mini_roundabout'")
+    .all() as { id: number; node_ids: string }[];
+  for (const ring of rings) {
+    const nodeIds: number[] = JSON.parse(ring.node_ids);
+    nodeIds.forEach((nodeId, ringIndex) => {
+      if (!ringNodes.has(nodeId)) ringNodes.set(nodeId, { roundaboutId: ring.id, ringIndex });
+    });
+  }
+  if (ringNodes.size === 0) return 0;
+
+  const arms: Arm[] = [];
+  const scan = db.prepare(
+    'SELECT way_id, highway, oneway, junction, name, node_ids, coords FROM road_ways WHERE node_ids IS NOT NULL',
+  );
+  type ScanRow = {
+    way_id: number;
+    highway: string;
+    oneway: number | null;
+    junction: string | null;
+    name: string | null;
+    node_ids: string;
+    coords: string | Buffer;
+  };
+  for (const row of scan.iterate() as Iterable<ScanRow>) {
+    // Ring ways themselves are not arms
+    if (row.junction === 'roundabout' || row.junction === 'circular') continue;
+    const nodeIds: number[] = JSON.parse(row.node_ids);
+    if (!nodeIds.some((nodeId) => ringNodes.has(nodeId))) continue;
+    const coords = deserializeCoords(row.coords);
+
+    for (let i = 0; i < nodeIds.length; i++) {
+      const hit = ringNodes.get(nodeIds[i]);
+      if (!hit) continue;
+
+      for (const step of [-1, 1]) {
+        let j = i + step;
+        if (j < 0 || j >= nodeIds.length) continue;
+        // A chord running along the ring is not an arm
+        if (ringNodes.get(nodeIds[j])?.roundaboutId === hit.roundaboutId) continue;
+
+        const [lon, lat] = [coords[i * 2], coords[i * 2 + 1]];
+        while (
+          j + step >= 0 &&
+          j + step < nodeIds.length &&
+          haversineDistance(lat, lon, coords[j * 2 + 1], coords[j * 2]) < ARM_BEARING_DISTANCE
+        ) {
+          j += step;
+        }
+
+        // Travelling away from the ring runs in node order when step is +1
+        const oneway = row.oneway ?? 0;
+        let direction: Arm['direction'] = 'both';
+        if (oneway !== 0) direction = oneway === step ? 'exit' : 'entry';
+
+        arms.push({
+          roundaboutId: hit.roundaboutId,
+          ringIndex: hit.ringIndex,
+          nodeId: nodeIds[i],
+          wayId: row.way_id,
+          bearing: Math.round(calculateBearing(lat, lon, coords[j * 2 + 1], coords[j * 2])),
+          highway: row.highway,
+          direction,
+          name: row.name,
+        });
+      }
+    }
+  }
+
+  arms.sort((a, b) => a.roundaboutId - b.roundaboutId || a.ringIndex - b.ringIndex || a.bearing - b.bearing);
+  const insert = db.prepare(
+    'INSERT INTO roundabout_arms (roundabout_id, ring_index, node_id, way_id, bearing, highway, direction, name) ' +
+      'VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+  );
+  for (const arm of arms) {
+    insert.run(arm.roundaboutId, arm.ringIndex, arm.nodeId, arm.wayId, arm.bearing, arm.highway, arm.direction, arm.name);
+  }
+  return arms.length;
+}
@@ -0,0 +1,163 @@
+/**
+ * Speed Limit Resolution
+ *
+ * PURPOSE: Turn OSM maxspeed tagging into per-direction limits in km/h
+ * RESPONSIBILITY: Parse explicit values (numeric, mph, knots, none, walk), resolve implicit
+ *                 zone values (DE:urban, FR:rural, RU:motorway) through country defaults
+ * DEPENDENCIES: none
+ * CONSUMERS: convert.ts (road way conversion)
+ *
+ * Tag reference: https://wiki.openstreetmap.org/wiki/Key:maxspeed
+ *                https://wiki.openstreetmap.org/wiki/Default_speed_limits
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * How a way's limit was determined:
+ *   sign  explicit value on the way (numeric, mph, knots, walk)
+ *   zone  implicit value resolved through COUNTRY_SPEED_DEFAULTS
+ *   none  signed as unlimited (maxspeed=none, DE:motorway) — the km/h values are absent
+ */
+export type SpeedLimitSource = 'sign' | 'zone' | 'none';
+
+export interface SpeedLimit {
+  /** km/h in way direction; undefined when unknown or unlimited */
+  forward?: number;
+  /** km/h against way direction; undefined when unknown or unlimited */
+  backward?: number;
+  source: SpeedLimitSource;
+}
+
+/** One parsed maxspeed value: km/h, 'none' for unlimited, or null when unusable */
+type ParsedSpeed = { kmh: number | 'none'; implicit: boolean } | null;
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const KMH_PER_MPH = 1.609344;
+const KMH_PER_KNOT = 1.852;
+
+/** maxspeed=walk — walking pace where the country table has no own value */
+const WALK_SPEED_KMH = 5;
+
+// Implicit limits per country code (ISO 3166-1 alpha-2, plus subdivision codes OSM
+// uses in zone values such as BE-VLG), in km/h. 'none' means no general limit.
+// Only zone types actually tagged in OSM are listed; extend as regions need them.
+export const COUNTRY_SPEED_DEFAULTS: Record<string, Record<string, number | 'none'>> = {
+  AT: { urban: 50, rural: 100, trunk: 100, motorway: 130, living_street: 5 },
+  BE: { urban: 50, rural: 90, trunk: 120, motorway: 120, living_street: 20 },
+  'BE-BRU': { urban: 30, rural: 70, motorway: 120 },
+  'BE-VLG': { urban: 50, rural: 70, motorway: 120 },
+  'BE-WAL': { urban: 50, rural: 90, motorway: 120 },
+  BG: { urban: 50, rural: 90, trunk: 120, motorway: 140 },
+  BY: { urban: 60, rural: 90, motorway: 110, living_street: 20 },
+  CH: { urban: 50, rural: 80, trunk: 100, motorway: 120, living_street: 20 },
+  CZ: { urban: 50, rural: 90, trunk: 110, motorway: 130, living_street: 20 },
+  DE: { urban: 50, rural: 100, trunk: 'none', motorway: 'none', living_street: 7, bicycle_road: 30 },
+  DK: { urban: 50, rural: 80, motorway: 130 },
+  EE: { urban: 50, rural: 90, living_street: 20 },
+  ES: { urban: 50, rural: 90, trunk: 100, motorway: 120, living_street: 20 },
+  FI: { urban: 50, rural: 80, motorway: 120 },
+  FR: { urban: 50, rural: 80, trunk: 110, motorway: 130, living_street: 20 },
+  GB: { nsl_single: 60 * KMH_PER_MPH, nsl_dual: 70 * KMH_PER_MPH, motorway: 70 * KMH_PER_MPH },
+  HR: { urban: 50, rural: 90, trunk: 110, motorway: 130 },
+  HU: { urban: 50, rural: 90, trunk: 110, motorway: 130, living_street: 20 },
+  IT: { urban: 50, rural: 90, trunk: 110, motorway: 130 },
+  LT: { urban: 50, rural: 90, trunk: 110, motorway: 130, living_street: 20 },
+  LU: { urban: 50, rural: 90, motorway: 130 },
+  LV: { urban: 50, rural: 90, living_street: 20 },
+  NL: { urban: 50, rural: 80, trunk: 100, motorway: 100, living_street: 15 },
+  PL: { urban: 50, rural: 90, trunk: 120, motorway: 140, living_street: 20 },
+  PT: { urban: 50, rural: 90, trunk: 100, motorway: 120 },
+  RO: { urban: 50, rural: 90, trunk: 100, motorway: 130 },
+  RS: { urban: 50, rural: 80, trunk: 100, motorway: 130 },
+  RU: { urban: 60, rural: 90, motorway: 110, living_street: 20 },
+  SE: { urban: 50, rural: 70 },
+  SI: { urban: 50, rural: 90, trunk: 110, motorway: 130 },
+  SK: { urban: 50, rural: 90, motorway: 130, living_street: 20 },
+  UA: { urban: 50, rural: 90, trunk: 110, motorway: 130, living_street: 20 },
+};
+
+// Tags carrying an implicit zone when maxspeed itself is absent or numeric
+const ZONE_TAG_KEYS = ['maxspeed:type', 'source:maxspeed', 'zone:maxspeed'];
+
+const NUMERIC_SPEED = /^(\d+(?:\.\d+)?)\s*(km\/h|kmh|kph|mph|knots)?$/;
+const ZONE_SPEED = /^([A-Z]{2}(?:-[A-Z0-9]{1,3})?):(.+)$/;
+const ZONE_NUMBER = /^zone:?(\d+)$/;
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Resolve a zone type ("urban", "zone30") for a country, or null when the table has no entry
+ */
+function resolveZone(countryCode: string, zone: string): ParsedSpeed {
+  const zoneNumber = zone.match(ZONE_NUMBER);
+  if (zoneNumber) return { kmh: Number(zoneNumber[1]), implicit: true };
+
+  const value = COUNTRY_SPEED_DEFAULTS[countryCode]?.[zone];
+  if (value === undefined) return null;
+  return { kmh: value === 'none' ? 'none' : Math.round(value), implicit: true };
+}
+
+/**
+ * Parse a single maxspeed value. Bare zone types ("urban") use the region's country code.
+ */
+function parseSpeedValue(raw: string, countryCode?: string): ParsedSpeed {
+  const value = raw.trim();
+  if (value === 'none') return { kmh: 'none', implicit: false };
+  if (value === 'walk') {
+    const walk = countryCode ? COUNTRY_SPEED_DEFAULTS[countryCode]?.living_street : undefined;
+    return { kmh: typeof walk === 'number' ? walk : WALK_SPEED_KMH, implicit: false };
+  }
+
+  const numeric = value.match(NUMERIC_SPEED);
+  if (numeric) {
+    const amount = Number(numeric[1]);
+    if (amount <= 0) return null;
+    const unit = numeric[2];
+    if (unit === 'mph') return { kmh: Math.round(amount * KMH_PER_MPH), implicit: false };
+    if (unit === 'knots') return { kmh: Math.round(amount * KMH_PER_KNOT), implicit: false };
+    return { kmh: Math.round(amount), implicit: false };
+  }
+
+  const zone = value.match(ZONE_SPEED);
+  if (zone) return resolveZone(zone[1], zone[2]);
+  if (countryCode && /^[a-z_:0-9]+$/.test(value)) return resolveZone(countryCode, value);
+  return null;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Resolve a way's speed limit from its tags, or null when nothing usable is tagged.
+ * maxspeed:forward / maxspeed:backward override maxspeed per direction; zone tags
+ * (maxspeed:type, source:maxspeed, zone:maxspeed) fill in when maxspeed is absent.
+ */
+export function resolveSpeedLimit(tags: Record<string, string>, countryCode?: string): SpeedLimit | null {
+  let both: ParsedSpeed = tags.maxspeed ? parseSpeedValue(tags.maxspeed, countryCode) : null;
+  if (!both && !tags.maxspeed) {
+    for (const key of ZONE_TAG_KEYS) {
+      if (tags[key]) both = parseSpeedValue(tags[key], countryCode);
+      if (both) break;
+    }
+  }
+  const forward = tags['maxspeed:forward'] ? parseSpeedValue(tags['maxspeed:forward'], countryCode) : both;
+  const backward = tags['maxspeed:backward'] ? parseSpeedValue(tags['maxspeed:backward'], countryCode) : both;
+  if (!forward && !backward) return null;
+
+  const limit: SpeedLimit = { source: 'none' };
+  if (forward && forward.kmh !== 'none') limit.forward = forward.kmh;
+  if (backward && backward.kmh !== 'none') limit.backward = backward.kmh;
+  if (limit.forward !== undefined || limit.backward !== undefined) {
+    limit.source = forward?.implicit !== false && backward?.implicit !== false ? 'zone' : 'sign';
+  }
+  return limit;
+}
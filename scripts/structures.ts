@@ -0,0 +1,317 @@
+/**
+ * Structure Builder
+ *
+ * PURPOSE: Merge bridge and tunnel road ways into whole structures (structures table)
+ * RESPONSIBILITY: Group structure ways by kind/layer/name, stitch connected segments,
+ *                 pair the two carriageways of dual carriageway structures
+ * DEPENDENCIES: better-sqlite3 (callers pass an open Database), geometry.ts, coord-encoding.ts,
+ *               region-db.ts
+ * CONSUMERS: region-build.ts, update-region.ts
+ *
+ * OSM splits a bridge wherever a tag changes (lanes, maxspeed, a junction on the deck), so
+ * one viaduct is often a dozen ways, twice over on a dual carriageway. Segments of the same
+ * kind, layer and bridge:name / tunnel:name that share a node form one structure; two
+ * structures whose ends lie close together at both sides are carriageways of the same one.
+ */
+
+import type Database from 'better-sqlite3';
+import { calculateWayLength, haversineDistance } from './geometry.js';
+import { deserializeCoords, serializeCoords, type CoordEncoding } from './coord-encoding.js';
+import { computeBboxFromFlatCoords } from './region-db.js';
+
+// =============================================================================
+// TYPES & CONSTANTS
+// =============================================================================
+
+type Db = Database.Database;
+
+interface StructureRow {
+  way_id: number;
+  bridge: number;
+  structure: string | null;
+  structure_name: string | null;
+  layer: number | null;
+  name: string | null;
+  node_ids: string;
+  coords: string | Buffer;
+}
+
+interface Segment {
+  wayId: number;
+  type: string;
+  roadName: string | null;
+  nodeIds: number[];
+  coords: [number, number][];
+  length: number;
+}
+
+interface Structure {
+  kind: 'bridge' | 'tunnel';
+  type: string;
+  name: string | null;
+  layer: number;
+  wayIds: number[];
+  carriageways: number;
+  coords: [number, number][];
+  length: number;
+}
+
+// Ends of two parallel structures closer than this (meters) at both sides make them one
+// dual carriageway structure — capped at half the structure length so two short bridges
+// side by side stay separate
+const CARRIAGEWAY_MAX_GAP = 60;
+
+// Latitude cell of the carriageway grid: a little over CARRIAGEWAY_MAX_GAP, so ends within
+// the gap are never more than one cell apart
+const GRID_CELL_DEGREES = CARRIAGEWAY_MAX_GAP / 111_000;
+
+// Longitude cells widen with latitude; past this the grid would need ever wider cells
+const GRID_MAX_LATITUDE = 89;
+
+// =============================================================================
+// STITCHING
+// =============================================================================
+
+/**
+ * Join segments sharing any node into connected groups (union-find)
+ */
+function connectSegments(segments: Segment[]): Segment[][] {
+  const parent = segments.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+    return i;
+  };
+
+  const owner = new Map<number, number>();
+  segments.forEach((segment, i) => {
+    for (const nodeId of segment.nodeIds) {
+      const other = owner.get(nodeId);
+      if (other === undefined) owner.set(nodeId, i);
+      else parent[find(i)] = find(other);
+    }
+  });
+
+  const groups = new Map<number, Segment[]>();
+  segments.forEach((segment, i) => {
+    const root = find(i);
+    const group = groups.get(root);
+    if (group) group.push(segment);
+    else groups.set(root, [segment]);
+  });
+  return [...groups.values()];
+}
+
+/**
+ * Chain segments end to end starting from the longest, extending at both ends while an
+ * unused segment continues the line. Branches (ramps leaving mid-deck) stay off the polyline.
+ */
+function chainSegments(segments: Segment[]): { nodeIds: number[]; coords: [number, number][] } {
+  const sorted = [...segments].sort((a, b) => b.length - a.length);
+  const used = new Set<Segment>([sorted[0]]);
+  const nodeIds = [...sorted[0].nodeIds];
+  const coords = [...sorted[0].coords];
+
+  for (let extended = true; extended; ) {
+    extended = false;
+    for (const segment of sorted) {
+      if (used.has(segment)) continue;
+      const first = segment.nodeIds[0];
+      const last = segment.nodeIds[segment.nodeIds.length - 1];
+      const head = nodeIds[0];
+      const tail = nodeIds[nodeIds.length - 1];
+
+      if (first === tail || last === tail) {
+        const forward = first === tail;
+        const ids = forward ? segment.nodeIds : [...segment.nodeIds].reverse();
+        const points = forward ? segment.coords : [...segment.coords].reverse();
+        nodeIds.push(...ids.slice(1));
+        coords.push(...points.slice(1));
+      } else if (first === head || last === head) {
+        const forward = last === head;
+        const ids = forward ? segment.nodeIds : [...segment.nodeIds].reverse();
+        const points = forward ? segment.coords : [...segment.coords].reverse();
+        nodeIds.unshift(...ids.slice(0, -1));
+        coords.unshift(...points.slice(0, -1));
+      } else {
+        continue;
+      }
+      used.add(segment);
+      extended = true;
+    }
+  }
+
+  return { nodeIds, coords };
+}
+
+function endGap(a: [number, number], b: [number, number]): number {
+  return haversineDistance(a[1], a[0], b[1], b[0]);
+}
+
+/**
+ * True when the two polylines run side by side: both pairs of ends within the gap,
+ * in either direction
+ */
+function isCarriagewayPair(a: Structure, b: Structure): boolean {
+  const maxGap = Math.min(CARRIAGEWAY_MAX_GAP, a.length / 2, b.length / 2);
+  const [a0, a1] = [a.coords[0], a.coords[a.coords.length - 1]];
+  const [b0, b1] = [b.coords[0], b.coords[b.coords.length - 1]];
+  return (
+    (endGap(a0, b0) <= maxGap && endGap(a1, b1) <= maxGap) ||
+    (endGap(a0, b1) <= maxGap && endGap(a1, b0) <= maxGap)
+  );
+}
+
+/**
+ * Build the structures of one kind/layer/name group
+ */
+function mergeGroup(kind: Structure['kind'], layer: number, structureName: string | null, segments: Segment[]): Structure[] {
+  const structures: Structure[] = connectSegments(segments).map((group) => {
+    const chain = chainSegments(group);
+    const longest = group.reduce((a, b) => (b.length > a.length ? b : a));
+    return {
+      kind,
+      type: group.find((s) => s.type !== 'yes')?.type ?? 'yes',
+      name: structureName ?? longest.roadName,
+      layer,
+      wayIds: group.map((s) => s.wayId).sort((a, b) => a - b),
+      carriageways: 1,
+      coords: chain.coords,
+      length: calculateWayLength(chain.coords),
+    };
+  });
+
+  // Pair carriageways: the longer polyline represents the structure
+  structures.sort((a, b) => b.length - a.length);
+  const merged: Structure[] = [];
+  const grid = createStartGrid(structures);
+  for (const structure of structures) {
+    // The earliest (longest) unpaired structure that pairs, among those starting near either end
+    let pairIndex = -1;
+    for (const end of [structure.coords[0], structure.coords[structure.coords.length - 1]]) {
+      for (const i of grid.near(end)) {
+        if (pairIndex !== -1 && i > pairIndex) continue;
+        if (merged[i].carriageways === 1 && isCarriagewayPair(merged[i], structure)) pairIndex = i;
+      }
+    }
+    if (pairIndex !== -1) {
+      const pair = merged[pairIndex];
+      pair.wayIds = [...pair.wayIds, ...structure.wayIds].sort((a, b) => a - b);
+      pair.carriageways = 2;
+    } else {
+      grid.add(structure.coords[0], merged.length);
+      merged.push(structure);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Grid of structure start points, with cells at least CARRIAGEWAY_MAX_GAP wide at every
+ * latitude of the structures. A structure pairs only with one whose start lies within the
+ * gap of one of its ends, so candidates come from the 3×3 cells around each end.
+ */
+function createStartGrid(structures: Structure[]): {
+  add(point: [number, number], index: number): void;
+  near(point: [number, number]): number[];
+} {
+  let maxLatitude = 0;
+  for (const { coords } of structures) {
+    maxLatitude = Math.max(maxLatitude, Math.abs(coords[0][1]), Math.abs(coords[coords.length - 1][1]));
+  }
+  const latCell = GRID_CELL_DEGREES;
+  const lonCell = GRID_CELL_DEGREES / Math.cos((Math.min(maxLatitude, GRID_MAX_LATITUDE) * Math.PI) / 180);
+  const cells = new Map<string, number[]>();
+  const cellOf = ([lon, lat]: [number, number]) => [Math.floor(lon / lonCell), Math.floor(lat / latCell)];
+
+  return {
+    add(point, index) {
+      const [x, y] = cellOf(point);
+      const key = `${x},${y}`;
+      const cell = cells.get(key);
+      if (cell) cell.push(index);
+      else cells.set(key, [index]);
+    },
+
+    near(point) {
+      const [x, y] = cellOf(point);
+      const found: number[] = [];
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) found.push(...(cells.get(`${x + dx},${y + dy}`) ?? []));
+      }
+      return found;
+    },
+  };
+}
+
+// =============================================================================
+// PUBLIC BUILDER
+// =============================================================================
+
+/**
+ * Rebuild the structures table from the bridge/tunnel rows of road_ways. Run after bulk
+ * inserts or diff application, inside the caller's transaction. Returns the row count.
+ */
+export function buildStructures(db: Db, coordEncoding: CoordEncoding): number {
+  db.exec('DELETE FROM structures');
+
+  const rows = db
+    .prepare(
+      'SELECT way_id, bridge, structure, structure_name, layer, name, node_ids, coords FROM road_ways ' +
+        'WHERE (bridge = 1 OR tunnel = 1) AND way_id IS NOT NULL AND node_ids IS NOT NULL',
+    )
+    .all() as StructureRow[];
+
+  const groups = new Map<string, { kind: Structure['kind']; layer: number; name: string | null; segments: Segment[] }>();
+  for (const row of rows) {
+    const flat = deserializeCoords(row.coords);
+    const coords: [number, number][] = [];
+    for (let i = 0; i + 1 < flat.length; i += 2) coords.push([flat[i], flat[i + 1]]);
+    const nodeIds: number[] = JSON.parse(row.node_ids);
+    if (coords.length < 2 || nodeIds.length !== coords.length) continue;
+
+    const kind = row.bridge === 1 ? 'bridge' : 'tunnel';
+    const layer = row.layer ?? 0;
+    const key = `${kind}|${layer}|${row.structure_name ?? ''}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { kind, layer, name: row.structure_name, segments: [] };
+      groups.set(key, group);
+    }
+    group.segments.push({
+      wayId: row.way_id,
+      type: row.structure ?? 'yes',
+      roadName: row.name,
+      nodeIds,
+      coords,
+      length: calculateWayLength(coords),
+    });
+  }
+
+  const insert = db.prepare(
+    'INSERT INTO structures (kind, type, name, layer, way_ids, carriageways, length, coords, ' +
+      'min_lat, max_lat, min_lon, max_lon) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+  );
+  let count = 0;
+  for (const group of groups.values()) {
+    for (const structure of mergeGroup(group.kind, group.layer, group.name, group.segments)) {
+      const flat = structure.coords.flat();
+      const { minLat, maxLat, minLon, maxLon } = computeBboxFromFlatCoords(flat);
+      insert.run(
+        structure.kind,
+        structure.type,
+        structure.name,
+        structure.layer,
+        JSON.stringify(structure.wayIds),
+        structure.carriageways,
+        Math.round(structure.length * 10) / 10,
+        serializeCoords(flat, coordEncoding),
+        minLat,
+        maxLat,
+        minLon,
+        maxLon,
+      );
+      count++;
+    }
+  }
+  return count;
+}
@@ -0,0 +1,372 @@
+#!/usr/bin/env node
+/**
+ * Sync Regions Script
+ *
+ * PURPOSE: Check regions.json against a locally saved Geofabrik index and bring it up to date
+ * RESPONSIBILITY: Verify every geofabrikPath, recompute bboxes from the extract boundaries, report
+ *                 regions removed, renamed or added upstream, update estimatedSize from a manifest
+ * DEPENDENCIES: regions.json, Geofabrik index-v1.json (with geometry), manifest.ts
+ * CONSUMERS: Manual maintenance of regions.json
+ *
+ * Usage: npm run sync-regions -- --index ./index-v1.json [--manifest ./output/manifest.json]
+ *        [--write] [--report sync-report.json]
+ *
+ * The index is https://download.geofabrik.de/index-v1.json, saved beforehand (not the
+ * -nogeom variant: bboxes come from the boundary polygons). Without --write regions.json is
+ * left alone and the changes are only reported.
+ *
+ * Bboxes are the boundary's extent rounded outward to 0.01°. A boundary crossing the
+ * antimeridian cannot be one [minLon, minLat, maxLon, maxLat] box; the larger side is kept and
+ * the region is listed under warnings. estimatedSize becomes the .sqlite.gz size the manifest
+ * (v1 or v2) lists for the region; regions it does not list keep theirs.
+ *
+ * A geofabrikPath missing from the index is reported as renamed when one extract that no
+ * region uses has the same id or country code under the same parent, and as removed
+ * otherwise. Added are extracts no region uses next to ones that are used (same parent),
+ * when neither an ancestor nor a descendant of them is in use either. Derived regions
+ * (region-clip.ts) have no geofabrikPath and only get their estimatedSize updated.
+ * Exits 1 when any geofabrikPath is missing from the index.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import type { Manifest, ManifestV2 } from './manifest.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+type Bbox = [number, number, number, number];
+
+interface Region {
+  id: string;
+  name: string;
+  continent: string;
+  countryCode?: string;
+  bbox: Bbox;
+  geofabrikPath?: string;
+  estimatedSize: number;
+}
+
+interface RegionsFile {
+  regions: Region[];
+}
+
+type Position = number[];
+
+interface GeofabrikFeature {
+  type: 'Feature';
+  properties: {
+    id: string;
+    parent?: string;
+    name: string;
+    urls: { pbf: string };
+    'iso3166-1:alpha2'?: string[];
+  };
+  geometry: { type: 'Polygon'; coordinates: Position[][] } | { type: 'MultiPolygon'; coordinates: Position[][][] } | null;
+}
+
+interface GeofabrikIndex {
+  type: 'FeatureCollection';
+  features: GeofabrikFeature[];
+}
+
+interface SyncReport {
+  index: string;
+  manifest?: string;
+  regions: number;
+  missing: { id: string; geofabrikPath: string }[];
+  renamed: { id: string; geofabrikPath: string; upstreamPath: string; upstreamName: string }[];
+  added: { upstreamId: string; name: string; geofabrikPath: string }[];
+  bboxChanged: { id: string; from: Bbox; to: Bbox }[];
+  sizeChanged: { id: string; from: number; to: number }[];
+  warnings: string[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const GEOFABRIK_DOWNLOAD_URL = /^https?:\/\/download\.geofabrik\.de\//;
+
+// bboxes in regions.json carry two decimals
+const BBOX_PRECISION = 100;
+
+// Slack when rounding, so 19.06 stored as 19.059999... stays 19.06
+const ROUNDING_EPSILON = 1e-9;
+
+// =============================================================================
+// INDEX
+// =============================================================================
+
+function loadIndex(indexPath: string): GeofabrikIndex {
+  const index = JSON.parse(readFileSync(indexPath, 'utf-8')) as GeofabrikIndex;
+  if (index.type !== 'FeatureCollection' || !Array.isArray(index.features)) {
+    throw new Error(`${indexPath} is not a Geofabrik index (expected a GeoJSON FeatureCollection)`);
+  }
+  if (index.features.every((feature) => !feature.geometry)) {
+    throw new Error(`${indexPath} has no boundaries; use index-v1.json, not index-v1-nogeom.json`);
+  }
+  return index;
+}
+
+function featurePath(feature: GeofabrikFeature): string {
+  return feature.properties.urls.pbf.replace(GEOFABRIK_DOWNLOAD_URL, '');
+}
+
+/**
+ * Extent of a boundary, rounded outward to the regions.json precision. `dropped` counts the
+ * polygons left out because the boundary crosses the antimeridian.
+ */
+function boundaryBbox(feature: GeofabrikFeature): { bbox: Bbox; dropped: number } {
+  const geometry = feature.geometry!;
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const extents = polygons.map((polygon) => {
+    const extent: Bbox = [Infinity, Infinity, -Infinity, -Infinity];
+    // The outer ring bounds the polygon; holes lie inside it
+    for (const [lon, lat] of polygon[0]) {
+      extent[0] = Math.min(extent[0], lon);
+      extent[1] = Math.min(extent[1], lat);
+      extent[2] = Math.max(extent[2], lon);
+      extent[3] = Math.max(extent[3], lat);
+    }
+    return extent;
+  });
+
+  const union = (boxes: Bbox[]): Bbox => [
+    Math.min(...boxes.map((b) => b[0])),
+    Math.min(...boxes.map((b) => b[1])),
+    Math.max(...boxes.map((b) => b[2])),
+    Math.max(...boxes.map((b) => b[3])),
+  ];
+
+  // Parts on both sides of the antimeridian (Russia's Chukotka, Alaska's Aleutians): when the
+  // box wrapping around 180° would be narrower, the boundary crosses it; keep the larger side
+  let kept = extents;
+  const east = extents.filter((b) => b[0] + b[2] > 0);
+  const west = extents.filter((b) => b[0] + b[2] <= 0);
+  if (east.length > 0 && west.length > 0) {
+    const whole = union(extents);
+    const eastBox = union(east);
+    const westBox = union(west);
+    const wrappedWidth = 180 - eastBox[0] + (westBox[2] + 180);
+    if (wrappedWidth < whole[2] - whole[0]) {
+      const area = (boxes: Bbox[]) => boxes.reduce((sum, b) => sum + (b[2] - b[0]) * (b[3] - b[1]), 0);
+      kept = area(east) >= area(west) ? east : west;
+    }
+  }
+
+  const [minLon, minLat, maxLon, maxLat] = union(kept);
+  const floor = (value: number) => Math.floor(value * BBOX_PRECISION + ROUNDING_EPSILON) / BBOX_PRECISION;
+  const ceil = (value: number) => Math.ceil(value * BBOX_PRECISION - ROUNDING_EPSILON) / BBOX_PRECISION;
+  return {
+    bbox: [Math.max(-180, floor(minLon)), Math.max(-90, floor(minLat)), Math.min(180, ceil(maxLon)), Math.min(90, ceil(maxLat))],
+    dropped: extents.length - kept.length,
+  };
+}
+
+// =============================================================================
+// MANIFEST
+// =============================================================================
+
+/**
+ * .sqlite.gz size per region from a v1 or v2 manifest
+ */
+function loadSqliteSizes(manifestPath: string): Map<string, number> {
+  const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8')) as Manifest | ManifestV2;
+  const sizes = new Map<string, number>();
+  if ('schemaVersion' in manifest) {
+    for (const [regionId, region] of Object.entries(manifest.regions)) {
+      const sqlite = region.assets.find((asset) => asset.kind === 'sqlite');
+      if (sqlite) sizes.set(regionId, sqlite.size);
+    }
+  } else {
+    for (const [regionId, region] of Object.entries(manifest.regions)) {
+      if (region.sqliteSize !== undefined) sizes.set(regionId, region.sqliteSize);
+    }
+  }
+  return sizes;
+}
+
+// =============================================================================
+// SYNC
+// =============================================================================
+
+function syncRegions(regionsData: RegionsFile, index: GeofabrikIndex, sizes: Map<string, number>, report: SyncReport): void {
+  const byPath = new Map(index.features.map((feature) => [featurePath(feature), feature]));
+  const byId = new Map(index.features.map((feature) => [feature.properties.id, feature]));
+  const used = new Set<string>();
+  for (const region of regionsData.regions) {
+    const feature = region.geofabrikPath ? byPath.get(region.geofabrikPath) : undefined;
+    if (feature) used.add(feature.properties.id);
+  }
+
+  const ancestors = (feature: GeofabrikFeature): string[] => {
+    const chain: string[] = [];
+    for (let parent = feature.properties.parent; parent; parent = byId.get(parent)?.properties.parent) {
+      chain.push(parent);
+    }
+    return chain;
+  };
+  // Extracts with a used descendant (a country split into used states) count as used too
+  const usedAncestors = new Set<string>();
+  for (const id of used) for (const ancestor of ancestors(byId.get(id)!)) usedAncestors.add(ancestor);
+  const usedParents = new Set([...used].map((id) => byId.get(id)!.properties.parent).filter(Boolean));
+  const unused = index.features.filter(
+    (feature) =>
+      !used.has(feature.properties.id) &&
+      !usedAncestors.has(feature.properties.id) &&
+      !ancestors(feature).some((ancestor) => used.has(ancestor)),
+  );
+
+  for (const region of regionsData.regions) {
+    const size = sizes.get(region.id);
+    if (size !== undefined && size !== region.estimatedSize) {
+      report.sizeChanged.push({ id: region.id, from: region.estimatedSize, to: size });
+      region.estimatedSize = size;
+    }
+
+    if (!region.geofabrikPath) continue;
+    const feature = byPath.get(region.geofabrikPath);
+    if (!feature) {
+      // Same id elsewhere, or the only unused extract for the country next to the old path
+      const oldId = region.geofabrikPath.split('/').pop()!.replace(/-latest\.osm\.pbf$/, '');
+      const oldParent = region.geofabrikPath.split('/').slice(-2, -1)[0];
+      const sameCountry = unused.filter(
+        (candidate) =>
+          candidate.properties.parent === oldParent &&
+          region.countryCode !== undefined &&
+          candidate.properties['iso3166-1:alpha2']?.includes(region.countryCode),
+      );
+      const successor = unused.find((candidate) => candidate.properties.id === oldId)
+        ?? (sameCountry.length === 1 ? sameCountry[0] : undefined);
+      if (successor) {
+        used.add(successor.properties.id);
+        report.renamed.push({
+          id: region.id,
+          geofabrikPath: region.geofabrikPath,
+          upstreamPath: featurePath(successor),
+          upstreamName: successor.properties.name,
+        });
+      } else {
+        report.missing.push({ id: region.id, geofabrikPath: region.geofabrikPath });
+      }
+      continue;
+    }
+
+    if (!feature.geometry) {
+      report.warnings.push(`${region.id}: no boundary in the index, bbox left as is`);
+      continue;
+    }
+    const { bbox, dropped } = boundaryBbox(feature);
+    if (dropped > 0) {
+      report.warnings.push(`${region.id}: boundary crosses the antimeridian, ${dropped} polygons outside the bbox`);
+    }
+    if (bbox.some((value, i) => value !== region.bbox[i])) {
+      report.bboxChanged.push({ id: region.id, from: region.bbox, to: bbox });
+      region.bbox = bbox;
+    }
+  }
+
+  for (const feature of unused) {
+    if (used.has(feature.properties.id) || !usedParents.has(feature.properties.parent)) continue;
+    report.added.push({ upstreamId: feature.properties.id, name: feature.properties.name, geofabrikPath: featurePath(feature) });
+  }
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+function main(indexPath: string, manifestPath: string | undefined, write: boolean, reportPath: string | undefined): number {
+  console.log(`\n========================================`);
+  console.log(`Syncing regions.json with the Geofabrik index`);
+  console.log(`========================================\n`);
+
+  const regionsPath = join(__dirname, 'regions.json');
+  const regionsData: RegionsFile = JSON.parse(readFileSync(regionsPath, 'utf-8'));
+  const index = loadIndex(indexPath);
+  const sizes = manifestPath ? loadSqliteSizes(manifestPath) : new Map<string, number>();
+  console.log(`Index: ${indexPath} (${index.features.length} extracts)`);
+  if (manifestPath) console.log(`Manifest: ${manifestPath} (${sizes.size} SQLite sizes)`);
+
+  const report: SyncReport = {
+    index: indexPath,
+    manifest: manifestPath,
+    regions: regionsData.regions.length,
+    missing: [],
+    renamed: [],
+    added: [],
+    bboxChanged: [],
+    sizeChanged: [],
+    warnings: [],
+  };
+  syncRegions(regionsData, index, sizes, report);
+
+  for (const { id, geofabrikPath } of report.missing) console.log(`  ✗ ${id}: ${geofabrikPath} is not in the index`);
+  for (const { id, geofabrikPath, upstreamPath, upstreamName } of report.renamed) {
+    console.log(`  ✗ ${id}: ${geofabrikPath} renamed upstream to ${upstreamPath} (${upstreamName})`);
+  }
+  for (const { upstreamId, name, geofabrikPath } of report.added) {
+    console.log(`  + ${upstreamId}: ${geofabrikPath} (${name}) has no region`);
+  }
+  for (const { id, from, to } of report.bboxChanged) console.log(`  ~ ${id}: bbox [${from}] → [${to}]`);
+  for (const { id, from, to } of report.sizeChanged) console.log(`  ~ ${id}: estimatedSize ${from} → ${to}`);
+  for (const warning of report.warnings) console.log(`  ⚠ ${warning}`);
+
+  if (reportPath) writeFileSync(reportPath, JSON.stringify(report, null, 2));
+
+  const changes = report.bboxChanged.length + report.sizeChanged.length;
+  console.log(`\n----------------------------------------`);
+  console.log(`Regions: ${report.regions}`);
+  console.log(`Not in index: ${report.missing.length} removed, ${report.renamed.length} renamed`);
+  console.log(`Upstream extracts without a region: ${report.added.length}`);
+  console.log(`Changed: ${report.bboxChanged.length} bboxes, ${report.sizeChanged.length} sizes`);
+
+  if (write && changes > 0) {
+    writeFileSync(regionsPath, `${JSON.stringify(regionsData, null, 2)}\n`);
+    console.log(`\n✓ Updated ${regionsPath}`);
+  } else if (changes > 0) {
+    console.log(`\nDry run: pass --write to update regions.json`);
+  }
+
+  const broken = report.missing.length + report.renamed.length;
+  if (broken > 0) {
+    console.log(`\n✗ ${broken} geofabrikPath values do not resolve; fix them by hand\n`);
+    return 1;
+  }
+  console.log(`\n✓ Every geofabrikPath is in the index\n`);
+  return 0;
+}
+
+// =============================================================================
+// CLI ENTRY POINT
+// =============================================================================
+
+const args = process.argv.slice(2);
+const indexIndex = args.indexOf('--index');
+const manifestIndex = args.indexOf('--manifest');
+const reportIndex = args.indexOf('--report');
+
+if (indexIndex === -1 || !args[indexIndex + 1]) {
+  console.error(
+    'Usage: npm run sync-regions -- --index <index-v1.json> [--manifest <manifest.json>] [--write] [--report <file>]',
+  );
+  process.exit(1);
+}
+
+try {
+  process.exitCode = main(
+    args[indexIndex + 1],
+    manifestIndex !== -1 && args[manifestIndex + 1] ? args[manifestIndex + 1] : undefined,
+    args.includes('--write'),
+    reportIndex !== -1 && args[reportIndex + 1] ? args[reportIndex + 1] : undefined,
+  );
+} catch (err) {
+  console.error('\n✗ Failed to sync regions:', err);
+  process.exit(1);
+}
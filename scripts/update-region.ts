@@ -0,0 +1,674 @@
+#!/usr/bin/env node
+/**
+ * Update Region Script
+ *
+ * PURPOSE: Apply OsmChange diffs to an existing region SQLite database instead of re-extracting
+ * RESPONSIBILITY: Decompress the database, apply creates/modifies/deletes to every layer,
+ *                 relocate geometry of moved nodes, bump version + replication sequence, recompress
+ * DEPENDENCIES: better-sqlite3, osc-reader.ts, convert.ts, extraction-profile.ts, region-db.ts, road-graph.ts,
+ *               structures.ts, roundabout-arms.ts, road-elevation.ts, dem.ts
+ * CONSUMERS: GitHub Actions workflow (weekly/daily freshness), manual updates
+ *
+ * Usage: npm run update-region -- --region europe-lithuania --changes 4123.osc.gz 4124.osc.gz [--state state.txt]
+ *        [--dem ./dem/srtm]
+ *
+ * Input: output/{region-id}.sqlite.gz plus OsmChange files, oldest first
+ * Output: output/{region-id}.sqlite.gz (replaced in place)
+ *
+ * Way geometry is resolved from node locations in the diff itself, falling back to the
+ * node_ids/coords already stored in road_ways. A changed way that references nodes from
+ * neither (e.g. a track newly re-tagged as a road, built on nodes we never stored) cannot
+ * be resolved; its existing rows are kept and it is reported so a full rebuild can catch up.
+ * Turn restriction relations resolve their member ways the same way; rows of unchanged
+ * restrictions follow geometry changes of their from/to ways and via node.
+ * Roundabout rings are re-assembled from all member ways whenever one of them changes.
+ * Elevation rows of changed ways are dropped; pass --dem to sample the new geometry.
+ * Changed features are converted with the current extraction profile; when it differs from the
+ * one the database was built with (metadata.profileHash, left as it is), unchanged rows keep
+ * the old rules until the next full rebuild.
+ */
+
+import { existsSync, unlinkSync, statSync, renameSync } from 'fs';
+import { basename, join, resolve } from 'path';
+import { execSync } from 'child_process';
+import { createRequire } from 'module';
+import type BetterSqlite3 from 'better-sqlite3';
+import { matchesTagFilter, type OsmNode, type OsmRelationMember, type OsmWay } from './pbf-reader.js';
+import { readOsmChangeFiles, readReplicationSequence, type OsmChangeSet } from './osc-reader.js';
+import {
+  CORE_FILTER,
+  HIGHWAY_FILTER,
+  CONTROL_FILTER,
+  RESTRICTION_FILTER,
+  EXTRACT_FILTER,
+  convertCoreElement,
+  convertRoadWay,
+  convertRoadSurface,
+  convertRoadCurves,
+  convertTurnRestrictions,
+  convertIntersectionControl,
+  convertRoundabouts,
+  isRoundaboutWay,
+  type CoreFeatures,
+  type RoadCurve,
+} from './convert.js';
+import {
+  UPDATE_INDEX_SQL,
+  DROP_UPDATE_INDEX_SQL,
+  computeBboxFromFlatCoords,
+  buildSpatialIndex,
+  prepareInserts,
+  upgradeSchema,
+  type RegionDbInserts,
+} from './region-db.js';
+import { EXTRACTION_PROFILE_HASH } from './extraction-profile.js';
+import { buildRoadGraph } from './road-graph.js';
+import { buildStructures } from './structures.js';
+import { buildRoundaboutArms } from './roundabout-arms.js';
+import { buildRoadElevation } from './road-elevation.js';
+import { DemTileSet } from './dem.js';
+import { deserializeCoords, parseCoordEncoding, serializeCoords, type CoordEncoding } from './coord-encoding.js';
+const require = createRequire(import.meta.url);
+
+const Database = require('better-sqlite3');
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+type Db = BetterSqlite3.Database;
+
+interface UpdateOptions {
+  /** Replication sequence of the newest applied diff */
+  sequence?: number;
+  /** Metadata version to stamp; defaults to today's date */
+  version?: string;
+  /** DEM tile directory for sampling elevation of new and changed road ways */
+  dem?: string;
+}
+
+interface UpdateStats {
+  nodesChanged: number;
+  waysChanged: number;
+  waysRelocated: number;
+  waysUnresolved: number;
+  relationsChanged: number;
+  relationsUnresolved: number;
+  roundaboutsRebuilt: number;
+  roundaboutsUnresolved: number;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Refuse databases built before OSM IDs were stored — there is nothing to key updates on.
+ */
+function assertUpdatable(db: Db): void {
+  const columns = new Set(
+    (db.prepare('PRAGMA table_info(road_ways)').all() as { name: string }[]).map((c) => c.name),
+  );
+  if (!columns.has('way_id') || !columns.has('node_ids')) {
+    throw new Error('Database has no OSM IDs (built before incremental updates) — rebuild it from a full extract');
+  }
+}
+
+function readMetadata(db: Db): Record<string, string> {
+  const rows = db.prepare('SELECT key, value FROM metadata').all() as { key: string; value: string }[];
+  return Object.fromEntries(rows.map((r) => [r.key, r.value]));
+}
+
+function hasRows(db: Db, table: string): boolean {
+  const row = db.prepare(`SELECT EXISTS(SELECT 1 FROM ${table}) AS present`).get() as { present: number };
+  return row.present === 1;
+}
+
+function insertCoreFeatures(insert: RegionDbInserts, features: CoreFeatures): void {
+  for (const tc of features.trafficCalming) insert.trafficCalming(tc);
+  for (const ra of features.roundabouts) insert.roundabout(ra);
+}
+
+/**
+ * Detect curves on every stored road way — for databases built before road_curves existed
+ */
+function backfillRoadCurves(db: Db, insert: RegionDbInserts): number {
+  const curves: RoadCurve[] = [];
+  const scan = db.prepare('SELECT way_id, coords FROM road_ways WHERE way_id IS NOT NULL');
+  for (const row of scan.iterate() as Iterable<{ way_id: number; coords: string | Buffer }>) {
+    curves.push(...convertRoadCurves(row.way_id, deserializeCoords(row.coords)));
+  }
+  for (const curve of curves) insert.curve(curve);
+  return curves.length;
+}
+
+/**
+ * Re-assemble every ring roundabout with a changed or relocated member way, or one a changed
+ * ring way now connects to. Unchanged members are read back from road_ways (after
+ * relocation); a ring with a member found in neither place is kept as-is.
+ */
+function applyRoundaboutChanges(
+  db: Db,
+  insert: RegionDbInserts,
+  changes: OsmChangeSet,
+  changedRingWays: Map<number, OsmWay>,
+  relocatedWayIds: number[],
+  stats: UpdateStats,
+): void {
+  const touched = new Set<number>([...changes.ways.keys(), ...relocatedWayIds]);
+  const changedEnds = new Set<number>();
+  for (const way of changedRingWays.values()) {
+    changedEnds.add(way.nodeIds[0]);
+    changedEnds.add(way.nodeIds[way.nodeIds.length - 1]);
+  }
+
+  type RingRow = { id: number; way_id: number | null; way_ids: string | null; node_ids: string | null };
+  const ringRows = db
+    .prepare("SELECT id, way_id, way_ids, node_ids FROM roundabouts WHERE type != 'mini_roundabout'")
+    .all() as RingRow[];
+  const storedWay = db.prepare(
+    'SELECT junction, node_ids, coords FROM road_ways WHERE way_id = ? AND node_ids IS NOT NULL LIMIT 1',
+  );
+  const deleteRing = db.prepare('DELETE FROM roundabouts WHERE id = ?');
+
+  // Resolve every member of each affected ring; changed ring ways join whatever they touch
+  const members = new Map<number, OsmWay>(changedRingWays);
+  const affected: RingRow[] = [];
+  for (const row of ringRows) {
+    const wayIds: number[] = row.way_ids ? JSON.parse(row.way_ids) : row.way_id !== null ? [row.way_id] : [];
+    const nodeIds: number[] = row.node_ids ? JSON.parse(row.node_ids) : [];
+    if (!wayIds.some((id) => touched.has(id)) && !nodeIds.some((id) => changedEnds.has(id))) continue;
+
+    const loaded: OsmWay[] = [];
+    let resolved = true;
+    for (const id of wayIds) {
+      if (members.has(id)) continue;
+      const change = changes.ways.get(id);
+      // Deleted, or no longer tagged as part of a ring
+      if (change && (change.action === 'delete' || !isRoundaboutWay(change.tags))) continue;
+
+      type StoredWay = { junction: string | null; node_ids: string; coords: string | Buffer };
+      const stored = storedWay.get(id) as StoredWay | undefined;
+      if (!stored?.junction) {
+        resolved = false;
+        break;
+      }
+      const flat = deserializeCoords(stored.coords);
+      const coords: [number, number][] = [];
+      for (let i = 0; i + 1 < flat.length; i += 2) coords.push([flat[i], flat[i + 1]]);
+      loaded.push({ type: 'way', id, tags: { junction: stored.junction }, nodeIds: JSON.parse(stored.node_ids), coords });
+    }
+    if (!resolved) {
+      for (const id of wayIds) members.delete(id);
+      stats.roundaboutsUnresolved++;
+      continue;
+    }
+    affected.push(row);
+    for (const way of loaded) members.set(way.id, way);
+  }
+
+  for (const row of affected) deleteRing.run(row.id);
+  for (const roundabout of convertRoundabouts([...members.values()])) {
+    insert.roundabout(roundabout);
+    stats.roundaboutsRebuilt++;
+  }
+}
+
+/**
+ * Apply a merged change set inside the caller's transaction.
+ */
+function applyChanges(
+  db: Db,
+  changes: OsmChangeSet,
+  coordEncoding: CoordEncoding,
+  countryCode: string | undefined,
+): UpdateStats {
+  const stats: UpdateStats = {
+    nodesChanged: 0,
+    waysChanged: 0,
+    waysRelocated: 0,
+    waysUnresolved: 0,
+    relationsChanged: 0,
+    relationsUnresolved: 0,
+    roundaboutsRebuilt: 0,
+    roundaboutsUnresolved: 0,
+  };
+  const insert = prepareInserts(db, coordEncoding);
+
+  // Locations carried by the diff itself
+  const movedNodes = new Map<number, [number, number]>();
+  for (const node of changes.nodes.values()) {
+    if (node.action !== 'delete' && node.lat !== undefined && node.lon !== undefined) {
+      movedNodes.set(node.id, [node.lon, node.lat]);
+    }
+  }
+
+  // Node refs of changed ways we will re-convert, whose location must come from the database
+  const neededNodes = new Set<number>();
+  for (const way of changes.ways.values()) {
+    if (way.action === 'delete' || !matchesTagFilter(EXTRACT_FILTER, { type: 'way', tags: way.tags })) continue;
+    for (const ref of way.refs) {
+      if (!movedNodes.has(ref)) neededNodes.add(ref);
+    }
+  }
+
+  // Via nodes and changed member ways of changed turn restrictions
+  for (const relation of changes.relations.values()) {
+    if (relation.action === 'delete' || !matchesTagFilter(RESTRICTION_FILTER, { type: 'relation', tags: relation.tags })) {
+      continue;
+    }
+    for (const member of relation.members) {
+      if (member.type === 'node' && !movedNodes.has(member.ref)) neededNodes.add(member.ref);
+      const memberWay = member.type === 'way' ? changes.ways.get(member.ref) : undefined;
+      for (const ref of memberWay?.refs ?? []) {
+        if (!movedNodes.has(ref)) neededNodes.add(ref);
+      }
+    }
+  }
+
+  // One pass over stored road geometry: look up needed locations, and find unchanged
+  // ways with a vertex on a moved node (their geometry must follow the node)
+  const knownNodes = new Map<number, [number, number]>();
+  const relocateRows: { id: number; wayId: number; nodeIds: number[]; coords: number[] }[] = [];
+  const scan = db.prepare('SELECT id, way_id, node_ids, coords FROM road_ways WHERE node_ids IS NOT NULL');
+  type ScanRow = { id: number; way_id: number; node_ids: string; coords: string | Buffer };
+  for (const row of scan.iterate() as Iterable<ScanRow>) {
+    const nodeIds: number[] = JSON.parse(row.node_ids);
+    let coords: number[] | null = null;
+    let moved = false;
+    for (let i = 0; i < nodeIds.length; i++) {
+      const nodeId = nodeIds[i];
+      if (neededNodes.has(nodeId)) {
+        coords ??= deserializeCoords(row.coords);
+        knownNodes.set(nodeId, [coords[i * 2], coords[i * 2 + 1]]);
+      }
+      if (movedNodes.has(nodeId)) moved = true;
+    }
+    if (moved && !changes.ways.has(row.way_id)) {
+      relocateRows.push({ id: row.id, wayId: row.way_id, nodeIds, coords: coords ?? deserializeCoords(row.coords) });
+    }
+  }
+
+  const deleteWayRows = [
+    db.prepare('DELETE FROM road_ways WHERE way_id = ?'),
+    db.prepare('DELETE FROM road_curves WHERE way_id = ?'),
+    db.prepare('DELETE FROM road_elevation WHERE way_id = ?'),
+    db.prepare('DELETE FROM road_surfaces WHERE way_id = ?'),
+    db.prepare('DELETE FROM traffic_calming WHERE way_id = ?'),
+  ];
+  const deleteNodeRows = [
+    db.prepare('DELETE FROM traffic_calming WHERE node_id = ?'),
+    db.prepare('DELETE FROM roundabouts WHERE node_id = ?'),
+    db.prepare('DELETE FROM intersection_controls WHERE node_id = ?'),
+  ];
+
+  // Ways: delete old rows, re-convert the new version if it still passes the filters.
+  // Ring ways are collected here and re-assembled with the rest of their ring below.
+  const changedRingWays = new Map<number, OsmWay>();
+  for (const change of changes.ways.values()) {
+    if (change.action !== 'delete' && matchesTagFilter(EXTRACT_FILTER, { type: 'way', tags: change.tags })) {
+      const nodeIds: number[] = [];
+      const coords: [number, number][] = [];
+      for (const ref of change.refs) {
+        const location = movedNodes.get(ref) ?? knownNodes.get(ref);
+        if (!location) break;
+        nodeIds.push(ref);
+        coords.push(location);
+      }
+      if (coords.length !== change.refs.length || coords.length < 2) {
+        stats.waysUnresolved++;
+        continue;
+      }
+
+      for (const statement of deleteWayRows) statement.run(change.id);
+      const way: OsmWay = { type: 'way', id: change.id, tags: change.tags, nodeIds, coords };
+      if (isRoundaboutWay(way.tags)) changedRingWays.set(way.id, way);
+
+      if (matchesTagFilter(CORE_FILTER, way)) {
+        const features: CoreFeatures = { trafficCalming: [], roundabouts: [] };
+        convertCoreElement(way, features);
+        insertCoreFeatures(insert, features);
+      }
+      if (matchesTagFilter(HIGHWAY_FILTER, way)) {
+        const roadWay = convertRoadWay(way, countryCode);
+        if (roadWay) {
+          insert.way(roadWay);
+          for (const curve of convertRoadCurves(way.id, roadWay.coords)) insert.curve(curve);
+        }
+        const roadSurface = convertRoadSurface(way);
+        if (roadSurface) insert.surface(roadSurface);
+      }
+    } else {
+      for (const statement of deleteWayRows) statement.run(change.id);
+    }
+    stats.waysChanged++;
+  }
+
+  // Unchanged ways with moved vertices: rewrite geometry of every row derived from them
+  const updateWay = db.prepare(
+    'UPDATE road_ways SET coords = ?, min_lat = ?, max_lat = ?, min_lon = ?, max_lon = ? WHERE id = ?',
+  );
+  const updateSurface = db.prepare(
+    'UPDATE road_surfaces SET coords = ?, min_lat = ?, max_lat = ?, min_lon = ?, max_lon = ? WHERE way_id = ?',
+  );
+  const updateStructure = db.prepare(
+    'UPDATE traffic_calming SET lat = ?, lon = ?, end_lat = ?, end_lon = ? WHERE way_id = ?',
+  );
+  const deleteCurves = db.prepare('DELETE FROM road_curves WHERE way_id = ?');
+  const deleteElevation = db.prepare('DELETE FROM road_elevation WHERE road_way_id = ?');
+  for (const row of relocateRows) {
+    const pairs: [number, number][] = [];
+    for (let i = 0; i < row.nodeIds.length; i++) {
+      pairs.push(movedNodes.get(row.nodeIds[i]) ?? [row.coords[i * 2], row.coords[i * 2 + 1]]);
+    }
+    const flat = pairs.flat();
+    const stored = serializeCoords(flat, coordEncoding);
+    const { minLat, maxLat, minLon, maxLon } = computeBboxFromFlatCoords(flat);
+
+    updateWay.run(stored, minLat, maxLat, minLon, maxLon, row.id);
+    updateSurface.run(stored, minLat, maxLat, minLon, maxLon, row.wayId);
+    const [startLon, startLat] = pairs[0];
+    const [endLon, endLat] = pairs[pairs.length - 1];
+    updateStructure.run(startLat, startLon, endLat, endLon, row.wayId);
+    deleteCurves.run(row.wayId);
+    deleteElevation.run(row.id);
+    for (const curve of convertRoadCurves(row.wayId, flat)) insert.curve(curve);
+    stats.waysRelocated++;
+  }
+
+  applyRoundaboutChanges(db, insert, changes, changedRingWays, relocateRows.map((row) => row.wayId), stats);
+
+  // Nodes: point features are keyed by node ID, so delete and re-convert
+  for (const change of changes.nodes.values()) {
+    for (const statement of deleteNodeRows) statement.run(change.id);
+    if (change.action !== 'delete' && change.lat !== undefined && change.lon !== undefined) {
+      const node: OsmNode = { type: 'node', id: change.id, lat: change.lat, lon: change.lon, tags: change.tags };
+      if (matchesTagFilter(CORE_FILTER, node)) {
+        const features: CoreFeatures = { trafficCalming: [], roundabouts: [] };
+        convertCoreElement(node, features);
+        insertCoreFeatures(insert, features);
+      }
+      if (matchesTagFilter(CONTROL_FILTER, node)) {
+        const control = convertIntersectionControl(node);
+        if (control) insert.intersectionControl(control);
+      }
+    }
+    stats.nodesChanged++;
+  }
+
+  // Unchanged turn restrictions: follow their from/to ways and via node to the new geometry
+  const refreshFrom = db.prepare(
+    'UPDATE turn_restrictions SET from_coords = (SELECT coords FROM road_ways WHERE way_id = @wayId LIMIT 1) ' +
+      'WHERE from_way_id = @wayId AND EXISTS (SELECT 1 FROM road_ways WHERE way_id = @wayId)',
+  );
+  const refreshTo = db.prepare(
+    'UPDATE turn_restrictions SET to_coords = (SELECT coords FROM road_ways WHERE way_id = @wayId LIMIT 1) ' +
+      'WHERE to_way_id = @wayId AND EXISTS (SELECT 1 FROM road_ways WHERE way_id = @wayId)',
+  );
+  const moveVia = db.prepare('UPDATE turn_restrictions SET lat = ?, lon = ? WHERE via_node_id = ?');
+  const touchedWays = new Set<number>([...changes.ways.keys(), ...relocateRows.map((row) => row.wayId)]);
+  for (const wayId of touchedWays) {
+    refreshFrom.run({ wayId });
+    refreshTo.run({ wayId });
+  }
+  for (const [nodeId, [lon, lat]] of movedNodes) moveVia.run(lat, lon, nodeId);
+
+  // Relations: turn restrictions are keyed by relation ID, so delete and re-convert
+  const deleteRestriction = db.prepare('DELETE FROM turn_restrictions WHERE relation_id = ?');
+  const storedWay = db.prepare('SELECT node_ids, coords FROM road_ways WHERE way_id = ? AND node_ids IS NOT NULL LIMIT 1');
+  const resolveMember = (member: OsmRelationMember): OsmRelationMember => {
+    if (member.type === 'node') {
+      const location = movedNodes.get(member.ref) ?? knownNodes.get(member.ref);
+      return location ? { ...member, coords: [location] } : member;
+    }
+    if (member.type !== 'way') return member;
+
+    const changed = changes.ways.get(member.ref);
+    if (changed) {
+      if (changed.action === 'delete') return member;
+      const coords: [number, number][] = [];
+      for (const ref of changed.refs) {
+        const location = movedNodes.get(ref) ?? knownNodes.get(ref);
+        if (!location) return member;
+        coords.push(location);
+      }
+      return { ...member, nodeIds: changed.refs, coords };
+    }
+
+    const row = storedWay.get(member.ref) as { node_ids: string; coords: string | Buffer } | undefined;
+    if (!row) return member;
+    const flat = deserializeCoords(row.coords);
+    const coords: [number, number][] = [];
+    for (let i = 0; i < flat.length; i += 2) coords.push([flat[i], flat[i + 1]]);
+    return { ...member, nodeIds: JSON.parse(row.node_ids), coords };
+  };
+
+  for (const change of changes.relations.values()) {
+    if (change.action === 'delete' || !matchesTagFilter(RESTRICTION_FILTER, { type: 'relation', tags: change.tags })) {
+      deleteRestriction.run(change.id);
+      stats.relationsChanged++;
+      continue;
+    }
+
+    const members = change.members.map(resolveMember);
+    const restrictions = convertTurnRestrictions({ id: change.id, tags: change.tags, members });
+    const unresolved = members.some((m) => (m.type === 'node' || m.type === 'way') && !m.coords);
+    if (restrictions.length === 0 && unresolved) {
+      stats.relationsUnresolved++;
+      continue;
+    }
+
+    deleteRestriction.run(change.id);
+    for (const restriction of restrictions) insert.turnRestriction(restriction);
+    stats.relationsChanged++;
+  }
+
+  return stats;
+}
+
+// =============================================================================
+// MAIN UPDATE FUNCTION
+// =============================================================================
+
+async function updateRegion(
+  regionId: string,
+  outputDir: string,
+  changePaths: string[],
+  options: UpdateOptions,
+): Promise<void> {
+  const t0 = Date.now();
+  console.log(`\n========================================`);
+  console.log(`Updating SQLite for: ${regionId}`);
+  console.log(`========================================\n`);
+
+  const sqlitePath = join(outputDir, `${regionId}.sqlite`);
+  const sqliteGzPath = join(outputDir, `${regionId}.sqlite.gz`);
+  const sqliteGzTmpPath = `${sqliteGzPath}.tmp`;
+
+  if (!existsSync(sqliteGzPath)) {
+    throw new Error(`Region database not found: ${sqliteGzPath}`);
+  }
+  for (const path of changePaths) {
+    if (!existsSync(path)) throw new Error(`Change file not found: ${path}`);
+  }
+
+  console.log('Decompressing database...');
+  execSync(`gunzip -c "${sqliteGzPath}" > "${sqlitePath}"`, { stdio: 'inherit' });
+
+  const db: Db = new Database(sqlitePath);
+  try {
+    db.pragma('journal_mode = DELETE');
+    db.pragma('synchronous = OFF');
+    db.pragma('cache_size = -64000'); // 64MB cache
+
+    assertUpdatable(db);
+    upgradeSchema(db);
+    const meta = readMetadata(db);
+    console.log(`  version: ${meta.version}, replication sequence: ${meta.replicationSequence ?? 'unknown'}`);
+    if (meta.profileHash && meta.profileHash !== EXTRACTION_PROFILE_HASH) {
+      console.log('  ⚠ Built with a different extraction profile; only changed features follow the current one');
+    }
+
+    // Diffs must be applied exactly once and in order
+    if (options.sequence !== undefined && meta.replicationSequence !== undefined) {
+      if (options.sequence <= Number(meta.replicationSequence)) {
+        throw new Error(
+          `Database is already at replication sequence ${meta.replicationSequence} (requested ${options.sequence})`,
+        );
+      }
+    }
+
+    console.log(`Reading ${changePaths.length} change file(s)...`);
+    const changes = await readOsmChangeFiles(changePaths);
+    console.log(`  ${changes.nodes.size} nodes, ${changes.ways.size} ways changed`);
+
+    console.log('Applying changes...');
+    db.exec(UPDATE_INDEX_SQL);
+    db.exec('BEGIN TRANSACTION');
+    // Keep whatever encoding the database was built with; pre-encoding databases are JSON
+    const coordEncoding = parseCoordEncoding(meta.coordEncoding);
+    if (meta.hasRoadCurves === undefined) {
+      const curves = backfillRoadCurves(db, prepareInserts(db, coordEncoding));
+      console.log(`  ✓ ${curves} road curves detected on existing ways`);
+    }
+    const stats = applyChanges(db, changes, coordEncoding, meta.countryCode);
+
+    // Junctions, structures and roundabout arms depend on every way sharing a node, so they
+    // are rebuilt as a whole
+    const structureCount = buildStructures(db, coordEncoding);
+    const armCount = buildRoundaboutArms(db);
+    const graph = buildRoadGraph(db, coordEncoding);
+
+    // Elevation: sample ways without a row (new, changed, relocated — or all, the first time)
+    if (options.dem) {
+      const elevation = buildRoadElevation(db, DemTileSet.open(options.dem));
+      console.log(`  ✓ ${elevation.sampled} road ways sampled for elevation`);
+    } else if (meta.demSource) {
+      console.log('  ⚠ Changed road ways lost their elevation (pass --dem to resample)');
+    }
+
+    // Rebuild rather than patch the R*Trees — also adds them to databases built before they existed
+    buildSpatialIndex(db);
+
+    const version = options.version ?? new Date().toISOString().split('T')[0];
+    const hasSurfaceData = hasRows(db, 'road_surfaces');
+    const hasWayData = hasRows(db, 'road_ways');
+    const upsertMeta = db.prepare('INSERT OR REPLACE INTO metadata (key, value) VALUES (?, ?)');
+    upsertMeta.run('version', version);
+    upsertMeta.run('updatedAt', new Date().toISOString());
+    upsertMeta.run('hasSurfaceData', hasSurfaceData ? 'true' : 'false');
+    upsertMeta.run('hasWayData', hasWayData ? 'true' : 'false');
+    upsertMeta.run('hasSpatialIndex', 'true');
+    const hasTurnRestrictions = hasRows(db, 'turn_restrictions');
+    upsertMeta.run('hasTurnRestrictions', hasTurnRestrictions ? 'true' : 'false');
+    const hasIntersectionControls = hasRows(db, 'intersection_controls');
+    upsertMeta.run('hasIntersectionControls', hasIntersectionControls ? 'true' : 'false');
+    const hasRoadCurves = hasRows(db, 'road_curves');
+    upsertMeta.run('hasRoadCurves', hasRoadCurves ? 'true' : 'false');
+    upsertMeta.run('hasRoundaboutArms', armCount > 0 ? 'true' : 'false');
+    upsertMeta.run('hasStructures', structureCount > 0 ? 'true' : 'false');
+    upsertMeta.run('hasRoadGraph', graph.edges > 0 ? 'true' : 'false');
+    const hasElevation = hasRows(db, 'road_elevation');
+    upsertMeta.run('hasElevation', hasElevation ? 'true' : 'false');
+    if (options.dem && !meta.demSource) upsertMeta.run('demSource', basename(resolve(options.dem)));
+    if (options.sequence !== undefined) upsertMeta.run('replicationSequence', String(options.sequence));
+    db.exec('COMMIT');
+
+    // Drop update-only indexes and reclaim space from deleted rows before shipping
+    db.exec(DROP_UPDATE_INDEX_SQL);
+    db.exec('VACUUM');
+
+    console.log(`  ✓ ${stats.nodesChanged} nodes, ${stats.waysChanged} ways applied`);
+    console.log(`  ✓ ${stats.waysRelocated} ways relocated after node moves`);
+    console.log(`  ✓ ${stats.relationsChanged} turn restriction relations applied`);
+    console.log(`  ✓ ${stats.roundaboutsRebuilt} roundabouts re-assembled, ${armCount} arms rebuilt`);
+    console.log(`  ✓ structures rebuilt: ${structureCount} bridges and tunnels`);
+    console.log(`  ✓ road graph rebuilt: ${graph.nodes} nodes, ${graph.edges} edges`);
+    if (stats.waysUnresolved > 0) {
+      console.log(`  ⚠ ${stats.waysUnresolved} ways kept as-is (node locations not in diff or database)`);
+    }
+    if (stats.roundaboutsUnresolved > 0) {
+      console.log(`  ⚠ ${stats.roundaboutsUnresolved} roundabouts kept as-is (member ways not in diff or database)`);
+    }
+    if (stats.relationsUnresolved > 0) {
+      console.log(`  ⚠ ${stats.relationsUnresolved} turn restrictions kept as-is (member geometry not in diff or database)`);
+    }
+    console.log(`  version: ${meta.version} → ${version}`);
+  } catch (error) {
+    // Leave the original .sqlite.gz untouched on failure
+    db.close();
+    unlinkSync(sqlitePath);
+    throw error;
+  }
+  db.close();
+
+  console.log('Compressing...');
+  execSync(`gzip -9 -c "${sqlitePath}" > "${sqliteGzTmpPath}"`, { stdio: 'inherit' });
+  renameSync(sqliteGzTmpPath, sqliteGzPath);
+  unlinkSync(sqlitePath);
+
+  const gzSize = statSync(sqliteGzPath).size;
+  const elapsed = ((Date.now() - t0) / 1000).toFixed(1);
+  console.log(`\n✓ Updated ${regionId}.sqlite.gz`);
+  console.log(`  gzip: ${(gzSize / 1024 / 1024).toFixed(1)} MB`);
+  console.log(`  Time: ${elapsed}s`);
+}
+
+// =============================================================================
+// CLI ENTRY POINT
+// =============================================================================
+
+const args = process.argv.slice(2);
+const regionIndex = args.indexOf('--region');
+const outputIndex = args.indexOf('--output');
+const changesIndex = args.indexOf('--changes');
+const stateIndex = args.indexOf('--state');
+const sequenceIndex = args.indexOf('--sequence');
+const versionIndex = args.indexOf('--version');
+const demIndex = args.indexOf('--dem');
+
+// --changes takes every following argument up to the next flag
+const changePaths: string[] = [];
+if (changesIndex !== -1) {
+  for (let i = changesIndex + 1; i < args.length && !args[i].startsWith('--'); i++) {
+    changePaths.push(args[i]);
+  }
+}
+
+if (
+  regionIndex === -1 ||
+  !args[regionIndex + 1] ||
+  changePaths.length === 0 ||
+  (sequenceIndex !== -1 && !args[sequenceIndex + 1])
+) {
+  console.error(
+    'Usage: npm run update-region -- --region <region-id> --changes <file.osc.gz>... ' +
+      '[--state <state.txt> | --sequence <n>] [--version <YYYY-MM-DD>] [--output <dir>] [--dem <tile-dir>]',
+  );
+  process.exit(1);
+}
+
+const regionId = args[regionIndex + 1];
+const outputDir = outputIndex !== -1 && args[outputIndex + 1] ? args[outputIndex + 1] : './output';
+const version = versionIndex !== -1 && args[versionIndex + 1] ? args[versionIndex + 1] : undefined;
+const dem = demIndex !== -1 && args[demIndex + 1] ? args[demIndex + 1] : undefined;
+
+// Replication sequences are plain non-negative integers, as in state.txt
+const sequenceArg = sequenceIndex !== -1 ? args[sequenceIndex + 1] : undefined;
+if (sequenceArg !== undefined && !/^\d+$/.test(sequenceArg)) {
+  console.error(`--sequence must be a non-negative integer, got ${sequenceArg}`);
+  process.exit(1);
+}
+
+(async () => {
+  let sequence: number | undefined;
+  if (sequenceArg !== undefined) {
+    sequence = Number(sequenceArg);
+  } else if (stateIndex !== -1 && args[stateIndex + 1]) {
+    sequence = await readReplicationSequence(args[stateIndex + 1]);
+  }
+  await updateRegion(regionId, outputDir, changePaths, { sequence, version, dem });
+})().catch((err) => {
+  console.error(`\n✗ Failed to update ${regionId}:`, err);
+  process.exit(1);
+});
@@ -0,0 +1,441 @@
+#!/usr/bin/env node
+/**
+ * Verify Manifest Script
+ *
+ * PURPOSE: Check a manifest against the assets it describes, in a local directory or behind an HTTP base URL
+ * RESPONSIBILITY: Size (and optionally checksum) of every listed asset, files missing from the manifest,
+ *                 v2 signature, machine-readable JSON report
+ * DEPENDENCIES: manifest.ts, region-delta.ts (patch file names)
+ * CONSUMERS: GitHub Actions workflows (before upload, after upload, nightly drift check), manual checks
+ *
+ * Usage: npm run verify-manifest -- --source ./output [--manifest manifest-v2.json] [--checksums]
+ *        [--public-key manifest-signing.pub] [--report report.json] [--concurrency 8] [--allow-build-inputs]
+ *        npm run verify-manifest -- --source https://github.com/<owner>/<repo>/releases/latest/download
+ *
+ * --manifest is a path or URL, or a file name relative to --source (default manifest.json).
+ * --allow-build-inputs skips the -restrictions/-controls .json.gz and -extract-stats.json files
+ * that an extraction output directory holds besides the release files. A v1 manifest does not
+ * list tile packs or stats files, nor regions built without the legacy JSON (a database but no
+ * {region}.json.gz), so those files are not reported as unlisted against it.
+ * The report is printed to stdout as JSON (and written to --report); progress goes to stderr.
+ * Exits 1 when any asset is missing or differs, a file is not in the manifest, or the
+ * signature does not verify.
+ *
+ * Over HTTP, sizes come from HEAD Content-Length and checksums from streaming the body;
+ * an HTTP base cannot be listed, so unlisted files are only detected in local directories.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  assertManifestV2,
+  sha256File,
+  toV1Checksum,
+  verifyManifestV2,
+  type Manifest,
+  type ManifestAssetKind,
+  type ManifestV2,
+} from './manifest.js';
+import { parsePatchFileName } from './region-delta.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface ExpectedAsset {
+  region: string;
+  kind: ManifestAssetKind;
+  file: string;
+  size: number;
+  /** Full SHA-256 (v2) or its 16-character prefix (v1) */
+  checksum?: string;
+}
+
+type AssetStatus = 'ok' | 'missing' | 'size-mismatch' | 'checksum-mismatch' | 'error';
+
+interface AssetResult extends ExpectedAsset {
+  status: AssetStatus;
+  actualSize?: number;
+  actualChecksum?: string;
+  error?: string;
+}
+
+interface VerifyReport {
+  source: string;
+  manifest: string;
+  schemaVersion: 1 | 2;
+  version: string;
+  checkedAt: string;
+  checksums: boolean;
+  /** v2 only: checked with --public-key; 'not-applicable' for v1 manifests */
+  signature: 'valid' | 'invalid' | 'not-checked' | 'not-applicable';
+  signatureError?: string;
+  summary: Record<AssetStatus, number> & { assets: number; unlisted: number };
+  assets: AssetResult[];
+  /** Files in the source that the manifest does not list; null when the source cannot be listed */
+  unlistedFiles: string[] | null;
+  ok: boolean;
+}
+
+interface AssetSource {
+  readonly description: string;
+  readonly isRemote: boolean;
+  size(file: string): Promise<number | undefined>;
+  sha256(file: string): Promise<string | undefined>;
+  read(file: string): Promise<Buffer | undefined>;
+  list(): string[] | null;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Files that describe a release rather than belong to a region
+const MANIFEST_FILES = [
+  'manifest.json',
+  'manifest-v2.json',
+  'manifest-v2.json.sig',
+  'manifest-v2.schema.json',
+  'border-overlap.json',
+];
+
+// build-sqlite.ts inputs that extract-single.ts leaves next to the release files
+const BUILD_INPUT_SUFFIXES = ['-restrictions.json.gz', '-controls.json.gz', '-extract-stats.json'];
+
+// Release files only manifest-v2.json lists; a v1 check does not count them as unlisted
+const V2_ONLY_SUFFIXES = ['.tiles', '.stats.json'];
+
+const SQLITE_SUFFIX = '.sqlite.gz';
+
+const DEFAULT_CONCURRENCY = 8;
+
+const REQUEST_TIMEOUT_MS = 120_000;
+
+// =============================================================================
+// SOURCES
+// =============================================================================
+
+function localSource(dir: string): AssetSource {
+  return {
+    description: dir,
+    isRemote: false,
+    async size(file) {
+      const path = join(dir, file);
+      return existsSync(path) ? statSync(path).size : undefined;
+    },
+    async sha256(file) {
+      const path = join(dir, file);
+      return existsSync(path) ? sha256File(path) : undefined;
+    },
+    async read(file) {
+      const path = join(dir, file);
+      return existsSync(path) ? readFileSync(path) : undefined;
+    },
+    list() {
+      return readdirSync(dir).filter((name) => statSync(join(dir, name)).isFile());
+    },
+  };
+}
+
+function httpSource(baseUrl: string): AssetSource {
+  const base = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+  const url = (file: string) => new URL(encodeURIComponent(file), base).toString();
+  const request = async (file: string, method: 'HEAD' | 'GET') => {
+    const response = await fetch(url(file), { method, redirect: 'follow', signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    if (response.status === 404) return undefined;
+    if (!response.ok) throw new Error(`${method} ${url(file)}: HTTP ${response.status}`);
+    return response;
+  };
+
+  return {
+    description: base,
+    isRemote: true,
+    async size(file) {
+      const response = await request(file, 'HEAD');
+      if (!response) return undefined;
+      const length = response.headers.get('content-length');
+      if (length === null) throw new Error(`HEAD ${url(file)}: no Content-Length`);
+      return Number(length);
+    },
+    async sha256(file) {
+      const response = await request(file, 'GET');
+      if (!response?.body) return undefined;
+      const hash = createHash('sha256');
+      for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) hash.update(chunk);
+      return hash.digest('hex');
+    },
+    async read(file) {
+      const response = await request(file, 'GET');
+      return response ? Buffer.from(await response.arrayBuffer()) : undefined;
+    },
+    list() {
+      return null;
+    },
+  };
+}
+
+function isUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+// =============================================================================
+// MANIFEST
+// =============================================================================
+
+/**
+ * Every file a manifest lists, with what it claims about it
+ */
+function expectedAssets(manifest: Manifest | ManifestV2): ExpectedAsset[] {
+  const assets: ExpectedAsset[] = [];
+  if ('schemaVersion' in manifest) {
+    for (const [region, entry] of Object.entries(manifest.regions)) {
+      for (const asset of entry.assets) {
+        assets.push({ region, kind: asset.kind, file: asset.file, size: asset.size, checksum: asset.sha256 });
+      }
+    }
+    return assets;
+  }
+
+  for (const [region, entry] of Object.entries(manifest.regions)) {
+    assets.push({ region, kind: 'core', file: `${region}.json.gz`, size: entry.size, checksum: entry.checksum });
+    if (entry.surfaceSize !== undefined) {
+      assets.push({
+        region,
+        kind: 'surfaces',
+        file: `${region}-surfaces.json.gz`,
+        size: entry.surfaceSize,
+        checksum: entry.surfaceChecksum,
+      });
+    }
+    if (entry.waySize !== undefined) {
+      assets.push({ region, kind: 'ways', file: `${region}-ways.json.gz`, size: entry.waySize, checksum: entry.wayChecksum });
+    }
+    if (entry.sqliteSize !== undefined) {
+      assets.push({
+        region,
+        kind: 'sqlite',
+        file: `${region}.sqlite.gz`,
+        size: entry.sqliteSize,
+        checksum: entry.sqliteChecksum,
+      });
+    }
+    for (const patch of entry.patches ?? []) {
+      assets.push({ region, kind: 'patch', file: patch.file, size: patch.size, checksum: patch.checksum });
+    }
+  }
+  return assets;
+}
+
+async function checkAsset(source: AssetSource, asset: ExpectedAsset, checksums: boolean): Promise<AssetResult> {
+  try {
+    const actualSize = await source.size(asset.file);
+    if (actualSize === undefined) return { ...asset, status: 'missing' };
+    if (actualSize !== asset.size) return { ...asset, status: 'size-mismatch', actualSize };
+    if (!checksums || asset.checksum === undefined) return { ...asset, status: 'ok', actualSize };
+
+    const sha256 = await source.sha256(asset.file);
+    if (sha256 === undefined) return { ...asset, status: 'missing' };
+    // v1 checksums are a prefix of the SHA-256
+    const actualChecksum = asset.checksum.length === sha256.length ? sha256 : toV1Checksum(sha256);
+    return { ...asset, status: actualChecksum === asset.checksum ? 'ok' : 'checksum-mismatch', actualSize, actualChecksum };
+  } catch (error) {
+    return { ...asset, status: 'error', error: (error as Error).message };
+  }
+}
+
+/**
+ * Run checks with at most `limit` in flight, keeping results in input order
+ */
+async function mapBounded<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// =============================================================================
+// VERIFY
+// =============================================================================
+
+/**
+ * Where the manifest comes from: a URL, a path (anything with a slash), or a file name
+ * inside the asset source. Its .sig is looked up next to it.
+ */
+function locateManifest(manifest: string, source: AssetSource): { source: AssetSource; name: string; location: string } {
+  if (isUrl(manifest) || manifest.includes('/')) {
+    const slash = manifest.lastIndexOf('/');
+    const dir = manifest.slice(0, slash + 1);
+    return {
+      source: isUrl(manifest) ? httpSource(dir) : localSource(dir),
+      name: manifest.slice(slash + 1),
+      location: manifest,
+    };
+  }
+  const location = source.isRemote ? new URL(manifest, source.description).toString() : join(source.description, manifest);
+  return { source, name: manifest, location };
+}
+
+function unlistedLabel(report: VerifyReport): string {
+  return report.unlistedFiles === null ? 'unlisted files not checked (remote source)' : `${report.summary.unlisted} unlisted files`;
+}
+
+interface VerifyOptions {
+  source: string;
+  manifest?: string;
+  checksums: boolean;
+  publicKeyFile?: string;
+  concurrency: number;
+  /** Do not count build-sqlite.ts inputs as unlisted (local extraction output directories) */
+  allowBuildInputs: boolean;
+}
+
+async function verifyManifest(options: VerifyOptions): Promise<VerifyReport> {
+  const source = isUrl(options.source) ? httpSource(options.source) : localSource(options.source);
+  const manifest = locateManifest(options.manifest ?? 'manifest.json', source);
+  const manifestBytes = await manifest.source.read(manifest.name);
+  if (!manifestBytes) throw new Error(`Manifest not found: ${manifest.location}`);
+
+  const parsed = JSON.parse(manifestBytes.toString('utf-8')) as Manifest | ManifestV2;
+  let signature: VerifyReport['signature'] = 'not-applicable';
+  let signatureError: string | undefined;
+  if ('schemaVersion' in parsed) {
+    assertManifestV2(parsed);
+    signature = 'not-checked';
+    if (options.publicKeyFile) {
+      const signatureBytes = await manifest.source.read(`${manifest.name}.sig`);
+      try {
+        if (!signatureBytes) throw new Error(`Signature not found: ${manifest.location}.sig`);
+        verifyManifestV2(manifestBytes, signatureBytes.toString('utf-8'), readFileSync(options.publicKeyFile, 'utf-8'));
+        signature = 'valid';
+      } catch (error) {
+        // Still check the assets so the report shows what else is wrong
+        signature = 'invalid';
+        signatureError = (error as Error).message;
+      }
+    }
+  } else if (options.publicKeyFile) {
+    throw new Error('--public-key needs a v2 manifest; v1 manifests are not signed');
+  }
+
+  const expected = expectedAssets(parsed);
+  console.error(`Checking ${expected.length} assets of ${manifest.location} against ${source.description}...`);
+  const assets = await mapBounded(expected, options.concurrency, (asset) => checkAsset(source, asset, options.checksums));
+
+  const listed = source.list();
+  const known = new Set([...expected.map((asset) => asset.file), ...MANIFEST_FILES, manifest.name]);
+  const isBuildInput = (file: string) =>
+    options.allowBuildInputs && BUILD_INPUT_SUFFIXES.some((suffix) => file.endsWith(suffix));
+  // Regions built without the legacy JSON have no v1 entry; none of their files are unlisted against v1
+  const v2OnlyRegions = new Set(
+    (listed ?? [])
+      .filter((file) => file.endsWith(SQLITE_SUFFIX))
+      .map((file) => file.slice(0, -SQLITE_SUFFIX.length))
+      .filter((region) => !listed!.includes(`${region}.json.gz`)),
+  );
+  const isV2Only = (file: string) =>
+    !('schemaVersion' in parsed) &&
+    (V2_ONLY_SUFFIXES.some((suffix) => file.endsWith(suffix)) ||
+      (file.endsWith(SQLITE_SUFFIX) && v2OnlyRegions.has(file.slice(0, -SQLITE_SUFFIX.length))) ||
+      v2OnlyRegions.has(parsePatchFileName(file)?.regionId ?? ''));
+  const unlistedFiles = listed
+    ? listed.filter((file) => !known.has(file) && !isBuildInput(file) && !isV2Only(file)).sort()
+    : null;
+
+  const summary: VerifyReport['summary'] = {
+    assets: assets.length,
+    ok: 0,
+    missing: 0,
+    'size-mismatch': 0,
+    'checksum-mismatch': 0,
+    error: 0,
+    unlisted: unlistedFiles?.length ?? 0,
+  };
+  for (const asset of assets) summary[asset.status]++;
+
+  return {
+    source: source.description,
+    manifest: manifest.location,
+    schemaVersion: 'schemaVersion' in parsed ? 2 : 1,
+    version: parsed.version,
+    checkedAt: new Date().toISOString(),
+    checksums: options.checksums,
+    signature,
+    signatureError,
+    summary,
+    assets,
+    unlistedFiles,
+    ok: summary.ok === summary.assets && summary.unlisted === 0 && signature !== 'invalid',
+  };
+}
+
+// =============================================================================
+// CLI ENTRY POINT
+// =============================================================================
+
+const args = process.argv.slice(2);
+const sourceIndex = args.indexOf('--source');
+const manifestIndex = args.indexOf('--manifest');
+const publicKeyIndex = args.indexOf('--public-key');
+const reportIndex = args.indexOf('--report');
+const concurrencyIndex = args.indexOf('--concurrency');
+
+if (sourceIndex === -1 || !args[sourceIndex + 1] || (concurrencyIndex !== -1 && !args[concurrencyIndex + 1])) {
+  console.error(
+    'Usage: npm run verify-manifest -- --source <dir|base-url> [--manifest <file|url>] [--checksums] ' +
+      '[--public-key <pem>] [--report <file>] [--concurrency <n>] [--allow-build-inputs]',
+  );
+  process.exit(1);
+}
+
+const concurrency = concurrencyIndex !== -1 ? Number(args[concurrencyIndex + 1]) : DEFAULT_CONCURRENCY;
+if (!Number.isInteger(concurrency) || concurrency < 1) {
+  console.error(`--concurrency must be a positive integer, got ${args[concurrencyIndex + 1]}`);
+  process.exit(1);
+}
+
+const options: VerifyOptions = {
+  source: args[sourceIndex + 1],
+  manifest: manifestIndex !== -1 && args[manifestIndex + 1] ? args[manifestIndex + 1] : undefined,
+  checksums: args.includes('--checksums'),
+  allowBuildInputs: args.includes('--allow-build-inputs'),
+  publicKeyFile: publicKeyIndex !== -1 && args[publicKeyIndex + 1] ? args[publicKeyIndex + 1] : undefined,
+  concurrency,
+};
+const reportFile = reportIndex !== -1 && args[reportIndex + 1] ? args[reportIndex + 1] : undefined;
+
+verifyManifest(options)
+  .then((report) => {
+    const json = JSON.stringify(report, null, 2);
+    console.log(json);
+    if (reportFile) writeFileSync(reportFile, json);
+    const { summary } = report;
+    for (const asset of report.assets) {
+      if (asset.status === 'ok') continue;
+      const detail =
+        asset.status === 'size-mismatch'
+          ? `manifest says ${asset.size}, actual ${asset.actualSize} (diff ${asset.actualSize! - asset.size > 0 ? '+' : ''}${asset.actualSize! - asset.size})`
+          : asset.status === 'checksum-mismatch'
+            ? `manifest says ${asset.checksum}, actual ${asset.actualChecksum}`
+            : asset.error ?? '';
+      console.error(`  - ${asset.file}: ${asset.status}${detail ? ` — ${detail}` : ''}`);
+    }
+    for (const file of report.unlistedFiles ?? []) console.error(`  - ${file}: not in manifest`);
+    console.error(
+      `${report.ok ? '✓' : '✗'} ${summary.ok}/${summary.assets} assets ok, ${summary.missing} missing, ` +
+        `${summary['size-mismatch']} size and ${summary['checksum-mismatch']} checksum mismatches, ` +
+        `${summary.error} errors, ${unlistedLabel(report)}`,
+    );
+    if (report.signatureError) console.error(`✗ Signature: ${report.signatureError}`);
+    if (!report.ok) process.exit(1);
+  })
+  .catch((err) => {
+    console.error('\n✗ Failed to verify manifest:', err);
+    process.exit(1);
+  });